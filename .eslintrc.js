@@ -17,5 +17,11 @@ module.exports = {
     node: true,
     es6: true,
   },
+  overrides: [
+    {
+      files: ['*.test.ts'],
+      env: { jest: true },
+    },
+  ],
   ignorePatterns: ['dist/', 'node_modules/', '*.js'],
 }; 
\ No newline at end of file
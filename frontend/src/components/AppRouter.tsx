@@ -9,6 +9,8 @@ import LeadsProcessados from '../pages/LeadsProcessados';
 import { LeadsMap } from '../pages/LeadsMap';
 import { ScoringConfig } from '../pages/ScoringConfig';
 import Sellers from '../pages/Sellers';
+import { ImportProfiles } from '../pages/ImportProfiles';
+import QueueOperations from '../pages/QueueOperations';
 import AuthForm from './AuthForm';
 
 const AppRouter: React.FC = () => {
@@ -50,6 +52,8 @@ const AppRouter: React.FC = () => {
               <Route path="/mapa" element={<LeadsMap />} />
               <Route path="/configuracao-pontuacao" element={<ScoringConfig />} />
               <Route path="/vendedores" element={<Sellers />} />
+              <Route path="/perfis-importacao" element={<ImportProfiles />} />
+              <Route path="/operacao-fila" element={<QueueOperations />} />
               <Route path="*" element={<Navigate to="/leads-enviados" replace />} />
             </Routes>
           </AppLayout>
@@ -1,6 +1,9 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Lead, PotentialScoreDetails } from '../types';
 import { PotentialTooltip } from './PotentialTooltip';
+import { LeadTimelinePanel } from './LeadTimelinePanel';
+import { formatCnpj } from '../utils/cnpj';
+import { CONTACT_TYPE_LABELS, CONTACT_VERIFICATION_LABELS, formatContact } from '../utils/contact';
 
 interface EditableLeadTableProps {
   leads: Lead[];
@@ -9,6 +12,8 @@ interface EditableLeadTableProps {
   onBulkDelete: (ids: string[]) => Promise<void>;
   onExport: () => Promise<void>;
   onExportSelected: (selectedIds: string[]) => Promise<void>;
+  onRetryLead?: (id: string) => Promise<void>;
+  onCancelLead?: (id: string) => Promise<void>;
   isExporting: boolean;
 }
 
@@ -19,12 +24,15 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
   onBulkDelete,
   onExport,
   onExportSelected,
+  onRetryLead,
+  onCancelLead,
   isExporting,
 }) => {
   const [selectedLeads, setSelectedLeads] = useState<Set<string>>(new Set());
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingData, setEditingData] = useState<Partial<Lead>>({});
   const [notes, setNotes] = useState<{ [key: string]: string }>({});
+  const [timelineLead, setTimelineLead] = useState<Lead | null>(null);
   
   // Estados para pesquisa e ordenação
   const [searchTerm, setSearchTerm] = useState('');
@@ -99,6 +107,15 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
     }
   };
 
+  // Reprocessamento: leads com erro ou processados sem os dados cadastrais
+  const canRetry = (lead: Lead) => lead.status === 'erro' || (lead.status === 'processado' && !!lead.processingError);
+
+  const handleCancelProcessing = async (leadId: string) => {
+    if (onCancelLead && window.confirm('Cancelar o processamento deste lead?')) {
+      await onCancelLead(leadId);
+    }
+  };
+
   const handleBulkDelete = async () => {
     if (selectedLeads.size === 0) return;
     
@@ -140,6 +157,7 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
       const searchMatch = searchTerm === '' || 
         lead.companyName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         lead.cnpj.includes(searchTerm) ||
+        formatCnpj(lead.cnpj).includes(searchTerm) ||
         (lead.cnae && lead.cnae.includes(searchTerm)) ||
         (lead.city && lead.city.toLowerCase().includes(searchTerm.toLowerCase()));
 
@@ -434,6 +452,7 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
                 )}
               </th>
               <th>Sócios</th>
+              <th>Contatos</th>
               <th 
                 className="sortable-header"
                 onClick={() => handleSort('status')}
@@ -502,7 +521,7 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
                 </td>
 
                 {/* CNPJ */}
-                <td className="cnpj">{lead.cnpj}</td>
+                <td className="cnpj">{formatCnpj(lead.cnpj)}</td>
 
                 {/* CNAE */}
                 <td className="cnae">
@@ -512,6 +531,14 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
                       {lead.cnaeDescription && (
                         <div className="cnae-description">{lead.cnaeDescription}</div>
                       )}
+                      {lead.secondaryCnaes && lead.secondaryCnaes.length > 0 && (
+                        <div
+                          className="cnae-secondary"
+                          title={lead.secondaryCnaes.map(activity => `${activity.code} - ${activity.description || ''}`).join('\n')}
+                        >
+                          +{lead.secondaryCnaes.length} secundária(s)
+                        </div>
+                      )}
                     </div>
                   )}
                 </td>
@@ -566,9 +593,34 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
                   )}
                 </td>
 
+                {/* Contatos */}
+                <td className="contacts">
+                  {lead.contacts && lead.contacts.length > 0 ? (
+                    <div className="contacts-list">
+                      {lead.contacts.map((contact) => (
+                        <div
+                          key={contact.id}
+                          className={`contact-item ${contact.verificationStatus}`}
+                          title={`${CONTACT_VERIFICATION_LABELS[contact.verificationStatus]} · fonte: ${contact.source}`}
+                        >
+                          <div className="contact-value">
+                            {contact.channel === 'phone' ? '📞' : '✉️'} {formatContact(contact)}
+                            {contact.isPrimary && <span className="contact-primary"> ★</span>}
+                          </div>
+                          {CONTACT_TYPE_LABELS[contact.type] && (
+                            <div className="contact-type">{CONTACT_TYPE_LABELS[contact.type]}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="no-data">Não informado</span>
+                  )}
+                </td>
+
                 {/* Status */}
                 <td>
-                  <div className={`status-badge ${lead.status}`}>
+                  <div className={`status-badge ${lead.status}`} title={lead.processingError || undefined}>
                     {lead.status === 'processado' && '✅ Processado'}
                     {lead.status === 'aguardando' && '⏳ Aguardando'}
                     {lead.status === 'erro' && '❌ Erro'}
@@ -733,6 +785,31 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
                       >
                         ✏️
                       </button>
+                      <button
+                        onClick={() => setTimelineLead(lead)}
+                        className="action-button edit"
+                        title="Histórico de processamento"
+                      >
+                        📜
+                      </button>
+                      {onRetryLead && canRetry(lead) && (
+                        <button
+                          onClick={() => onRetryLead(lead.id)}
+                          className="action-button edit"
+                          title="Reprocessar"
+                        >
+                          🔁
+                        </button>
+                      )}
+                      {onCancelLead && lead.status === 'aguardando' && (
+                        <button
+                          onClick={() => handleCancelProcessing(lead.id)}
+                          className="action-button delete"
+                          title="Cancelar processamento"
+                        >
+                          ⏹️
+                        </button>
+                      )}
                       <button
                         onClick={() => handleDelete(lead.id)}
                         className="action-button delete"
@@ -748,6 +825,8 @@ export const EditableLeadTable: React.FC<EditableLeadTableProps> = ({
           </tbody>
         </table>
       </div>
+
+      {timelineLead && <LeadTimelinePanel lead={timelineLead} onClose={() => setTimelineLead(null)} />}
     </div>
   );
 };
@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Lead, ProcessingLogEntry, ProcessingLogLevel } from '../types';
+import { leadsAPI } from '../services/api';
+import { formatCnpj } from '../utils/cnpj';
+import '../pages/LeadsMap.css';
+
+interface LeadTimelinePanelProps {
+  lead: Lead;
+  onClose: () => void;
+}
+
+const LEVEL_ICONS: Record<ProcessingLogLevel, string> = {
+  info: 'ℹ️',
+  warn: '⚠️',
+  error: '❌',
+};
+
+// Detalhes do log em uma linha: "chave: valor · chave: valor"
+const formatDetails = (details: Record<string, unknown>) =>
+  Object.entries(details)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join(' · ');
+
+export const LeadTimelinePanel: React.FC<LeadTimelinePanelProps> = ({ lead, onClose }) => {
+  const [logs, setLogs] = useState<ProcessingLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchLogs = async () => {
+      try {
+        setIsLoading(true);
+        setLogs(await leadsAPI.getLeadLogs(lead.id));
+      } catch (err) {
+        setError('Erro ao carregar o histórico de processamento.');
+        console.error('Erro ao carregar histórico de processamento:', err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchLogs();
+  }, [lead.id]);
+
+  return (
+    <div className="leads-map-modal-overlay" onClick={onClose}>
+      <div className="leads-map-modal" onClick={e => e.stopPropagation()}>
+        <h3 className="instruction-title">📜 Histórico de processamento</h3>
+        <p className="upload-subtext">
+          {lead.companyName} · {formatCnpj(lead.cnpj)}
+        </p>
+
+        {isLoading && <p className="page-description">Carregando...</p>}
+        {error && <p className="leads-map-form-error">{error}</p>}
+        {!isLoading && !error && logs.length === 0 && (
+          <p className="page-description">Nenhum registro de processamento para este lead.</p>
+        )}
+
+        {logs.length > 0 && (
+          <ol className="timeline">
+            {logs.map(log => (
+              <li key={log.id} className={`timeline-item ${log.level}`}>
+                <div className="timeline-time">{new Date(log.createdAt).toLocaleString('pt-BR')}</div>
+                <div className="timeline-message">
+                  {LEVEL_ICONS[log.level]} {log.message}
+                </div>
+                {log.details && <div className="timeline-details">{formatDetails(log.details)}</div>}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="leads-map-modal-actions">
+          <button type="button" onClick={onClose} className="btn btn-secondary">
+            Fechar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -47,6 +47,7 @@ const SalesforceWebhook: React.FC<SalesforceWebhookProps> = ({ baseUrl }) => {
             <li><strong>Company:</strong> Nome da empresa</li>
             <li><strong>CNPJ__c:</strong> CNPJ da empresa</li>
             <li><strong>City/State:</strong> Cidade e estado</li>
+            <li><strong>Phone/Email:</strong> Telefone e e-mail principais</li>
             <li><strong>Lead_Score__c:</strong> Pontuação de potencial (0-100)</li>
             <li><strong>Industry:</strong> Setor de atividade</li>
             <li><strong>Annual_Revenue__c:</strong> Capital social</li>
@@ -1,7 +1,7 @@
 import React, { ReactElement } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { SquareCheckBig, MapPinned, Users, Cog, Send } from 'lucide-react';
+import { SquareCheckBig, MapPinned, Users, Cog, Send, FileSpreadsheet, ListChecks } from 'lucide-react';
 
 export interface SidebarItem {
   path: string;
@@ -22,6 +22,8 @@ const menuItems: SidebarItem[] = [
   { path: '/leads-processados', label: 'Leads Processados', icon: <SquareCheckBig /> },
   { path: '/mapa', label: 'Mapa', icon: <MapPinned /> },
   { path: '/vendedores', label: 'Vendedores', icon: <Users /> },
+  { path: '/perfis-importacao', label: 'Perfis de Importação', icon: <FileSpreadsheet /> },
+  { path: '/operacao-fila', label: 'Operação da Fila', icon: <ListChecks /> },
   { path: '/configuracao-pontuacao', label: 'Configuração', icon: <Cog /> }
 ];
 
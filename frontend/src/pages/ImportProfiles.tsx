@@ -0,0 +1,442 @@
+import React, { useState, useEffect } from 'react';
+import { ImportProfile, DatloField, ImportColumnTransform, CreateImportProfileRequest } from '../types';
+import { importProfilesAPI } from '../services/api';
+import './ScoringConfig.css';
+
+// Campos do lead que podem receber colunas da planilha
+const DATLO_FIELDS: DatloField[] = [
+  'CNPJ',
+  'Razão social',
+  'Nome Fantasia',
+  'Nome matriz',
+  'Município',
+  'Distrito',
+  'Subdistrito',
+  'CEP',
+  'Bairro',
+  'Endereço cadastral',
+  'Endereço sugerido',
+  'Coordenadas',
+  'Street View',
+];
+
+const TRANSFORM_LABELS: Record<ImportColumnTransform, string> = {
+  none: 'Nenhuma',
+  uppercase: 'MAIÚSCULAS',
+  lowercase: 'minúsculas',
+  titlecase: 'Primeira Letra Maiúscula',
+  digits_only: 'Apenas dígitos',
+  cep: 'CEP (8 dígitos)',
+  coordinates: 'Coordenadas (lat,lng)',
+};
+
+// No formulário os cabeçalhos aceitos são editados como texto separado por vírgula
+interface ColumnFormData {
+  field: DatloField;
+  aliasesText: string;
+  transform: ImportColumnTransform;
+  required: boolean;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  isDefault: false,
+  columns: [] as ColumnFormData[],
+};
+
+export const ImportProfiles: React.FC = () => {
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<ImportProfile | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true);
+      const data = await importProfilesAPI.getAll();
+      setProfiles(data);
+    } catch (err) {
+      setError('Erro ao carregar perfis de importação');
+      console.error('Erro ao buscar perfis de importação:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingProfile(null);
+    setFormData({
+      ...emptyForm,
+      columns: [
+        { field: 'CNPJ', aliasesText: 'CNPJ', transform: 'none', required: true },
+        { field: 'Razão social', aliasesText: 'Razão social', transform: 'none', required: true },
+      ],
+    });
+    setShowForm(true);
+  };
+
+  const openEditForm = (profile: ImportProfile) => {
+    setEditingProfile(profile);
+    setFormData({
+      name: profile.name,
+      description: profile.description || '',
+      isDefault: profile.isDefault,
+      columns: profile.columns.map(column => ({
+        field: column.field,
+        aliasesText: column.aliases.join(', '),
+        transform: column.transform,
+        required: column.required,
+      })),
+    });
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    if (saving) return;
+    setShowForm(false);
+    setEditingProfile(null);
+    setFormData(emptyForm);
+  };
+
+  const buildRequest = (): CreateImportProfileRequest => ({
+    name: formData.name.trim(),
+    description: formData.description,
+    isDefault: formData.isDefault,
+    columns: formData.columns.map(column => ({
+      field: column.field,
+      aliases: column.aliasesText
+        .split(',')
+        .map(alias => alias.trim())
+        .filter(Boolean),
+      transform: column.transform,
+      required: column.required,
+    })),
+  });
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const request = buildRequest();
+      if (editingProfile) {
+        await importProfilesAPI.update(editingProfile.id, request);
+      } else {
+        await importProfilesAPI.create(request);
+      }
+      setShowForm(false);
+      setEditingProfile(null);
+      setFormData(emptyForm);
+      await fetchProfiles();
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Erro ao salvar perfil de importação');
+      console.error('Erro ao salvar perfil de importação:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (id: string) => {
+    try {
+      await importProfilesAPI.update(id, { isDefault: true });
+      setProfiles(prev => prev.map(profile => ({
+        ...profile,
+        isDefault: profile.id === id,
+      })));
+    } catch (err) {
+      setError('Erro ao definir perfil padrão');
+      console.error('Erro ao definir perfil padrão:', err);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Tem certeza que deseja excluir este perfil de importação?')) {
+      return;
+    }
+
+    try {
+      await importProfilesAPI.delete(id);
+      setProfiles(prev => prev.filter(profile => profile.id !== id));
+    } catch (err) {
+      setError('Erro ao excluir perfil de importação');
+      console.error('Erro ao excluir perfil de importação:', err);
+    }
+  };
+
+  const addColumn = () => {
+    const usedFields = formData.columns.map(column => column.field);
+    const nextField = DATLO_FIELDS.find(field => !usedFields.includes(field));
+    if (!nextField) return;
+
+    setFormData(prev => ({
+      ...prev,
+      columns: [...prev.columns, { field: nextField, aliasesText: nextField, transform: 'none', required: false }],
+    }));
+  };
+
+  const updateColumn = (index: number, field: keyof ColumnFormData, value: any) => {
+    setFormData(prev => ({
+      ...prev,
+      columns: prev.columns.map((column, i) =>
+        i === index ? { ...column, [field]: value } : column
+      ),
+    }));
+  };
+
+  const removeColumn = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      columns: prev.columns.filter((_, i) => i !== index),
+    }));
+  };
+
+  if (loading) {
+    return (
+      <div className="scoring-config-loading">
+        <div className="scoring-config-loading-text">Carregando perfis de importação...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="scoring-config-container">
+      {/* Header */}
+      <div className="scoring-config-header">
+        <div className="scoring-config-header-content">
+          <div>
+            <h1 className="scoring-config-title">Perfis de Importação</h1>
+            <p className="scoring-config-subtitle">
+              Defina como as colunas de cada fornecedor de planilhas viram campos do lead
+            </p>
+          </div>
+
+          <div className="scoring-config-header-actions">
+            <button
+              onClick={openCreateForm}
+              className="scoring-config-create-btn"
+            >
+              Novo Perfil
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Lista de Perfis */}
+      <div className="scoring-config-list">
+        <h2 className="scoring-config-list-title">Todos os Perfis</h2>
+
+        {profiles.map((profile) => (
+          <div key={profile.id} className="scoring-config-item">
+            <div className="scoring-config-item-header">
+              <div className="scoring-config-item-info">
+                <h3 className="scoring-config-item-name">
+                  {profile.name}
+                  {profile.isDefault && (
+                    <span className="scoring-config-active-badge">Padrão</span>
+                  )}
+                </h3>
+                <p className="scoring-config-item-description">
+                  {profile.description || 'Sem descrição'}
+                </p>
+                <div className="scoring-config-criteria">
+                  {profile.columns.map((column) => (
+                    <div key={column.id} className="scoring-config-criterion">
+                      <span className="scoring-config-criterion-name">
+                        {column.field}{column.required ? ' *' : ''} ← {column.aliases.join(' / ') || column.field}
+                      </span>
+                      {column.transform !== 'none' && (
+                        <span className="scoring-config-criterion-points">
+                          {TRANSFORM_LABELS[column.transform]}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="scoring-config-item-actions">
+                <button
+                  onClick={() => openEditForm(profile)}
+                  className="scoring-config-edit-btn"
+                >
+                  Editar
+                </button>
+                {!profile.isDefault && (
+                  <button
+                    onClick={() => handleSetDefault(profile.id)}
+                    className="scoring-config-activate-btn"
+                  >
+                    Tornar Padrão
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(profile.id)}
+                  className="scoring-config-delete-btn"
+                >
+                  Excluir
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Modal de Criação/Edição */}
+      {showForm && (
+        <div className="scoring-config-modal">
+          <div className="scoring-config-modal-content">
+            <div className="scoring-config-modal-header">
+              <h2>{editingProfile ? 'Editar Perfil de Importação' : 'Novo Perfil de Importação'}</h2>
+              <button
+                onClick={closeForm}
+                className="scoring-config-modal-close"
+              >
+                ×
+              </button>
+            </div>
+
+            <div className="scoring-config-form">
+              <div className="scoring-config-form-group">
+                <label>Nome do Perfil</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Ex: Econodata"
+                  className="scoring-config-input"
+                />
+              </div>
+
+              <div className="scoring-config-form-group">
+                <label>Descrição</label>
+                <input
+                  type="text"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Descrição do perfil"
+                  className="scoring-config-input"
+                />
+              </div>
+
+              <div className="scoring-config-form-group">
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={formData.isDefault}
+                    onChange={(e) => setFormData(prev => ({ ...prev, isDefault: e.target.checked }))}
+                  />{' '}
+                  Usar como perfil padrão nos uploads
+                </label>
+              </div>
+
+              <div className="scoring-config-categories-section">
+                <h3>Colunas</h3>
+                <p className="scoring-config-item-description">
+                  Informe os cabeçalhos aceitos separados por vírgula. Maiúsculas, acentos e pontuação são ignorados na comparação.
+                </p>
+
+                {formData.columns.map((column, index) => (
+                  <div key={index} className="scoring-config-criteria-form">
+                    <div className="scoring-config-form-row">
+                      <div className="scoring-config-form-group">
+                        <label>Campo do Lead</label>
+                        <select
+                          value={column.field}
+                          onChange={(e) => updateColumn(index, 'field', e.target.value as DatloField)}
+                          className="scoring-config-select"
+                        >
+                          {DATLO_FIELDS.map(field => (
+                            <option key={field} value={field}>{field}</option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="scoring-config-form-group">
+                        <label>Cabeçalhos na Planilha</label>
+                        <input
+                          type="text"
+                          value={column.aliasesText}
+                          onChange={(e) => updateColumn(index, 'aliasesText', e.target.value)}
+                          placeholder="Ex: CNPJ, cnpj_empresa"
+                          className="scoring-config-input"
+                        />
+                      </div>
+
+                      <div className="scoring-config-form-group">
+                        <label>Transformação</label>
+                        <select
+                          value={column.transform}
+                          onChange={(e) => updateColumn(index, 'transform', e.target.value as ImportColumnTransform)}
+                          className="scoring-config-select"
+                        >
+                          {(Object.keys(TRANSFORM_LABELS) as ImportColumnTransform[]).map(transform => (
+                            <option key={transform} value={transform}>{TRANSFORM_LABELS[transform]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    <div className="scoring-config-form-group">
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={column.required}
+                          onChange={(e) => updateColumn(index, 'required', e.target.checked)}
+                        />{' '}
+                        Obrigatória (rejeita a planilha se a coluna não existir)
+                      </label>
+                    </div>
+
+                    <button
+                      onClick={() => removeColumn(index)}
+                      className="scoring-config-remove-btn"
+                    >
+                      Remover
+                    </button>
+                  </div>
+                ))}
+
+                <button
+                  onClick={addColumn}
+                  className="scoring-config-add-btn"
+                  disabled={formData.columns.length >= DATLO_FIELDS.length}
+                >
+                  Adicionar Coluna
+                </button>
+              </div>
+
+              <div className="scoring-config-modal-actions">
+                <button
+                  onClick={closeForm}
+                  className="scoring-config-cancel-btn"
+                >
+                  Cancelar
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="scoring-config-save-btn"
+                  disabled={saving || !formData.name.trim() || formData.columns.length === 0}
+                >
+                  {saving ? 'Salvando...' : editingProfile ? 'Atualizar Perfil' : 'Criar Perfil'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="scoring-config-error">
+          <div className="scoring-config-error-text">{error}</div>
+        </div>
+      )}
+    </div>
+  );
+};
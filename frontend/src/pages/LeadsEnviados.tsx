@@ -1,42 +1,284 @@
-import React, { useState, useRef } from 'react';
-import { leadsAPI } from '../services/api';
-import { UploadResponse } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { leadsAPI, importProfilesAPI, uploadsAPI, eventsAPI } from '../services/api';
+import {
+  UploadResponse,
+  ImportProfile,
+  UploadBatch,
+  UploadBatchDetails,
+  UploadBatchStatus,
+  UploadPreview,
+  UploadPreviewRow,
+  ImportRowErrorReason,
+  ReimportMode,
+  SheetSelection,
+} from '../types';
 import { PanelLeftDashed } from 'lucide-react';
 
+// Status do lote exibidos com os mesmos badges dos leads
+const BATCH_STATUS_LABELS: Record<UploadBatchStatus, { label: string; className: string }> = {
+  pending: { label: 'Aguardando', className: 'aguardando' },
+  processing: { label: 'Processando', className: 'processando' },
+  completed: { label: 'Concluído', className: 'processado' },
+  failed: { label: 'Erro', className: 'erro' },
+};
+
+// Situação de cada linha na pré-visualização
+const PREVIEW_STATUS_LABELS: Record<UploadPreviewRow['status'], { label: string; className: string }> = {
+  ok: { label: 'Novo', className: 'processado' },
+  update: { label: 'Atualização', className: 'processando' },
+  duplicate: { label: 'Duplicado', className: 'aguardando' },
+  rejected: { label: 'Rejeitado', className: 'erro' },
+};
+
+// Tratamento de CNPJs já cadastrados
+const REIMPORT_MODE_LABELS: Record<ReimportMode, string> = {
+  skip: 'Ignorar CNPJs já cadastrados',
+  fill_empty: 'Preencher só campos vazios',
+  overwrite: 'Sobrescrever dados da planilha',
+};
+
+const ROW_ERROR_LABELS: Record<ImportRowErrorReason, string> = {
+  duplicate_cnpj: 'CNPJ duplicado',
+  invalid_cnpj: 'CNPJ inválido',
+  missing_cep: 'CEP ausente',
+  parse_error: 'Erro de leitura',
+  processing_error: 'Erro ao criar lead',
+};
+
+// Etapas do processamento de um lead, na ordem em que o worker as executa
+const PROCESSING_STEP_LABELS: Record<string, string> = {
+  address_validation: 'Validando endereço',
+  company_data: 'Consultando dados cadastrais',
+  cnpj_analysis: 'Analisando CNPJ',
+  potential_calculation: 'Calculando potencial',
+  lead_update: 'Finalizando',
+};
+
+// Lead em processamento acompanhado em tempo real
+interface LeadProgress {
+  leadId: string;
+  companyName?: string;
+  progress: number;
+  currentStep: string;
+}
+
+// Progresso do lote: leitura da planilha durante a importação e, depois, enriquecimento dos leads na fila
+const getBatchProgress = (batch: UploadBatchDetails): { label: string; percent: number } | null => {
+  if (batch.status === 'pending' || batch.status === 'processing') {
+    const percent = batch.totalRows > 0 ? Math.round((batch.processedRows / batch.totalRows) * 100) : 0;
+    return { label: `Importando ${batch.processedRows}/${batch.totalRows}`, percent };
+  }
+
+  const totalJobs = Object.values(batch.jobStatusCounts).reduce((sum, count) => sum + count, 0);
+  if (totalJobs === 0) return null;
+
+  const finishedJobs = (batch.jobStatusCounts.completed || 0) + (batch.jobStatusCounts.failed || 0);
+  return {
+    label: `Enriquecidos ${finishedJobs}/${totalJobs}`,
+    percent: Math.round((finishedJobs / totalJobs) * 100),
+  };
+};
+
 const LeadsEnviados: React.FC = () => {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<UploadResponse | null>(null);
   const [error, setError] = useState('');
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [reimportMode, setReimportMode] = useState<ReimportMode>('skip');
+  const [reenqueue, setReenqueue] = useState(false);
+  const [uploadBatches, setUploadBatches] = useState<UploadBatchDetails[]>([]);
+  const [leadsInProgress, setLeadsInProgress] = useState<Record<string, LeadProgress>>({});
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<UploadPreview | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    const fetchProfiles = async () => {
+      try {
+        const data = await importProfilesAPI.getAll();
+        setProfiles(data);
+        const defaultProfile = data.find(profile => profile.isDefault) || data[0];
+        if (defaultProfile) {
+          setSelectedProfileId(defaultProfile.id);
+        }
+      } catch (err) {
+        // Sem a lista, o backend usa o perfil padrão
+        console.error('Erro ao buscar perfis de importação:', err);
+      }
+    };
+
+    fetchProfiles();
+    fetchUploadBatches();
+  }, []);
+
+  // Progresso em tempo real dos lotes e dos leads em processamento
+  useEffect(() => {
+    const unsubscribe = eventsAPI.subscribe(event => {
+      if (event.type === 'batch_progress' || event.type === 'batch_completed') {
+        setUploadBatches(current =>
+          current.some(batch => batch.id === event.uploadBatchId)
+            ? current.map(batch => (batch.id === event.uploadBatchId ? event.batch : batch))
+            : [event.batch, ...current].slice(0, 10)
+        );
+        return;
+      }
+
+      if (event.type === 'job_progress') {
+        setLeadsInProgress(current => ({
+          ...current,
+          [event.leadId]: {
+            leadId: event.leadId,
+            companyName: event.companyName || current[event.leadId]?.companyName,
+            progress: event.progress,
+            currentStep: event.currentStep,
+          },
+        }));
+        return;
+      }
+
+      // Leads que terminaram (com ou sem erro) saem da lista
+      if (event.status === 'processado' || event.status === 'erro') {
+        setLeadsInProgress(current => {
+          const { [event.leadId]: _finished, ...remaining } = current;
+          return remaining;
+        });
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  const handleDownloadErrors = async (batch: UploadBatch) => {
+    try {
+      const blob = await uploadsAPI.downloadErrors(batch.id);
+
+      // Criar link para download
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${batch.fileName.replace(/\.[^.]+$/, '')}_erros.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setError('Erro ao baixar o relatório de erros. Tente novamente.');
+      console.error('Erro ao baixar relatório de erros:', err);
+    }
+  };
+
+  const handleRetryFailed = async (batch: UploadBatch) => {
+    try {
+      await uploadsAPI.retryFailed(batch.id);
+      await fetchUploadBatches();
+    } catch (err) {
+      setError('Erro ao reprocessar os leads com erro. Tente novamente.');
+      console.error('Erro ao reprocessar leads com erro:', err);
+    }
+  };
+
+  const handleCancelPending = async (batch: UploadBatch) => {
+    if (!window.confirm(`Cancelar os leads de "${batch.fileName}" que ainda aguardam processamento?`)) return;
+
+    try {
+      await uploadsAPI.cancelPending(batch.id);
+      await fetchUploadBatches();
+    } catch (err) {
+      setError('Erro ao cancelar os jobs pendentes. Tente novamente.');
+      console.error('Erro ao cancelar jobs pendentes:', err);
+    }
+  };
+
+  const fetchUploadBatches = async () => {
+    try {
+      const data = await uploadsAPI.getAll({ limit: 10 });
+      setUploadBatches(data);
+    } catch (err) {
+      console.error('Erro ao buscar uploads:', err);
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Validar tipo de arquivo
+    // Validar tipo de arquivo (alguns navegadores não informam o tipo de CSVs, então a extensão também vale)
     const allowedTypes = [
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
       'application/vnd.ms-excel', // .xls
-      'application/octet-stream' // Alguns sistemas enviam como octet-stream
+      'application/octet-stream', // Alguns sistemas enviam como octet-stream
+      'text/csv',
+      'text/plain',
+      'text/tab-separated-values'
     ];
+    const allowedExtensions = ['xlsx', 'xls', 'csv', 'tsv', 'txt'];
+    const extension = file.name.toLowerCase().split('.').pop() || '';
 
-    if (!allowedTypes.includes(file.type)) {
-      setError('Por favor, selecione um arquivo Excel válido (.xlsx ou .xls)');
+    if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(extension)) {
+      setError('Por favor, selecione um arquivo Excel (.xlsx, .xls) ou CSV (.csv, .tsv) válido');
       return;
     }
 
+    setUploadResult(null);
+    setPreview(null);
+
+    // Por padrão todas as abas com os cabeçalhos do perfil entram na importação
+    await runPreview(file, 'all');
+
+    // Limpar input de arquivo
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const runPreview = async (file: File, sheets: SheetSelection) => {
     setIsUploading(true);
     setError('');
-    setUploadResult(null);
 
     try {
-      const result = await leadsAPI.uploadExcel(file);
+      // Primeiro valida a planilha sem gravar nada; a importação só acontece após a confirmação
+      const result = await leadsAPI.previewUpload(file, selectedProfileId || undefined, { reimportMode, reenqueue, sheets });
+      setPreview(result);
+      setPendingFile(file);
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Erro ao validar o arquivo. Tente novamente.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleToggleSheet = (sheetName: string) => {
+    if (!pendingFile || !preview) return;
+
+    const selected = preview.selectedSheets.includes(sheetName)
+      ? preview.selectedSheets.filter(name => name !== sheetName)
+      : [...preview.selectedSheets, sheetName];
+
+    // Pelo menos uma aba precisa continuar selecionada
+    if (selected.length === 0) return;
+
+    // Mantém a ordem das abas no arquivo
+    runPreview(pendingFile, preview.sheets.map(sheet => sheet.name).filter(name => selected.includes(name)));
+  };
+
+  const handleConfirmUpload = async () => {
+    if (!pendingFile || !preview) return;
+
+    setIsUploading(true);
+    setError('');
+
+    try {
+      // Usa o mesmo perfil e modo da pré-visualização, mesmo que a seleção tenha mudado depois
+      const result = await leadsAPI.uploadExcel(pendingFile, preview.profile?.id || selectedProfileId || undefined, {
+        reimportMode: preview.reimportMode,
+        reenqueue: preview.reenqueue,
+        sheets: preview.selectedSheets.length > 0 ? preview.selectedSheets : undefined,
+      });
       setUploadResult(result);
-      
-      // Limpar input de arquivo
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      setPreview(null);
+      setPendingFile(null);
+      fetchUploadBatches();
     } catch (error: any) {
       setError(error.response?.data?.error || 'Erro ao fazer upload do arquivo. Tente novamente.');
     } finally {
@@ -44,6 +286,11 @@ const LeadsEnviados: React.FC = () => {
     }
   };
 
+  const handleCancelPreview = () => {
+    setPreview(null);
+    setPendingFile(null);
+  };
+
   return (
     <div className="container">
       <div className="page-header">
@@ -69,14 +316,61 @@ const LeadsEnviados: React.FC = () => {
             ou clique para selecionar um arquivo
           </p>
           <p className="upload-subtext">
-            Formatos aceitos: .xlsx, .xls (máximo 10MB)
+            Formatos aceitos: .xlsx, .xls, .csv, .tsv (máximo 100MB)
           </p>
 
+          {profiles.length > 0 && (
+            <div className="upload-subtext">
+              <label htmlFor="import-profile">Perfil de importação: </label>
+              <select
+                id="import-profile"
+                value={selectedProfileId}
+                onChange={(e) => setSelectedProfileId(e.target.value)}
+                disabled={isUploading}
+                className="form-input"
+                style={{ width: 'auto' }}
+              >
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}{profile.isDefault ? ' (padrão)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="upload-subtext">
+            <label htmlFor="reimport-mode">CNPJs já cadastrados: </label>
+            <select
+              id="reimport-mode"
+              value={reimportMode}
+              onChange={(e) => setReimportMode(e.target.value as ReimportMode)}
+              disabled={isUploading}
+              className="form-input"
+              style={{ width: 'auto' }}
+            >
+              {(Object.keys(REIMPORT_MODE_LABELS) as ReimportMode[]).map(mode => (
+                <option key={mode} value={mode}>{REIMPORT_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            {reimportMode !== 'skip' && (
+              <label style={{ marginLeft: '1rem' }}>
+                <input
+                  type="checkbox"
+                  checked={reenqueue}
+                  onChange={(e) => setReenqueue(e.target.checked)}
+                  disabled={isUploading}
+                />{' '}
+                Reprocessar leads atualizados
+              </label>
+            )}
+          </div>
+
           <div>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv,.tsv,.txt"
               onChange={handleFileUpload}
               disabled={isUploading}
               className="hidden"
@@ -111,6 +405,142 @@ const LeadsEnviados: React.FC = () => {
           </div>
         )}
 
+        {/* Pré-visualização antes de importar */}
+        {preview && (
+          <div className="alert alert-info">
+            <div className="alert-content">
+              <div className="alert-icon">🔎</div>
+              <div className="alert-message">
+                <h3>Pré-visualização de {preview.fileName}</h3>
+                <div className="upload-details">
+                  {preview.profile && (
+                    <p><strong>🧭 Perfil de importação:</strong> {preview.profile.name}</p>
+                  )}
+                  {preview.selectedSheets.length > 0 && (
+                    <p><strong>📑 Abas:</strong> {preview.selectedSheets.join(', ')}</p>
+                  )}
+                  <p><strong>🔢 Linhas na planilha:</strong> {preview.summary.totalRows}</p>
+                  {preview.reimportMode && (
+                    <p>
+                      <strong>🔁 CNPJs já cadastrados:</strong> {REIMPORT_MODE_LABELS[preview.reimportMode]}
+                      {preview.reenqueue ? ' (com reprocessamento)' : ''}
+                    </p>
+                  )}
+                  <p><strong>✅ Novos leads:</strong> {preview.summary.newLeads}</p>
+                  {preview.summary.updatedLeads > 0 && (
+                    <p><strong>🔁 Leads existentes a atualizar:</strong> {preview.summary.updatedLeads}</p>
+                  )}
+                  <p><strong>♻️ Duplicados (serão ignorados):</strong> {preview.summary.duplicateRows}</p>
+                  <p><strong>❌ Rejeitados:</strong> {preview.summary.rejectedRows}</p>
+                  {Object.entries(preview.summary.reasons).map(([reason, count]) => (
+                    <p key={reason}>• {ROW_ERROR_LABELS[reason as ImportRowErrorReason] || reason}: {count}</p>
+                  ))}
+                </div>
+
+                {preview.sheets.length > 1 && (
+                  <div className="table-container">
+                    <table className="table">
+                      <thead>
+                        <tr>
+                          <th>Importar</th>
+                          <th>Aba</th>
+                          <th>Linha do cabeçalho</th>
+                          <th>Leads estimados</th>
+                          <th>Situação</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.sheets.map(sheet => (
+                          <tr key={sheet.name}>
+                            <td>
+                              <input
+                                type="checkbox"
+                                checked={preview.selectedSheets.includes(sheet.name)}
+                                onChange={() => handleToggleSheet(sheet.name)}
+                                disabled={isUploading || !sheet.isValid}
+                              />
+                            </td>
+                            <td>{sheet.name}</td>
+                            <td>{sheet.isValid ? sheet.headerRow : '-'}</td>
+                            <td>{sheet.estimatedLeads}</td>
+                            <td>
+                              <span className={`status-badge ${sheet.isValid ? 'processado' : 'erro'}`} title={sheet.error}>
+                                {sheet.isValid ? 'Válida' : 'Ignorada'}
+                              </span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="table-container">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        {preview.selectedSheets.length > 1 && <th>Aba</th>}
+                        <th>Linha</th>
+                        <th>CNPJ</th>
+                        <th>Razão social</th>
+                        <th>Município</th>
+                        <th>CEP</th>
+                        <th>Situação</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.rows.map(row => (
+                        <tr key={`${row.sheetName || ''}-${row.rowNumber}`}>
+                          {preview.selectedSheets.length > 1 && <td>{row.sheetName}</td>}
+                          <td>{row.rowNumber}</td>
+                          <td>{row.data?.CNPJ || '-'}</td>
+                          <td>{row.data?.['Razão social'] || '-'}</td>
+                          <td>{row.data?.Município || '-'}</td>
+                          <td>{row.data?.CEP || '-'}</td>
+                          <td>
+                            <span
+                              className={`status-badge ${PREVIEW_STATUS_LABELS[row.status].className}`}
+                              title={row.message}
+                            >
+                              {row.reason ? ROW_ERROR_LABELS[row.reason] : PREVIEW_STATUS_LABELS[row.status].label}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {preview.summary.totalRows > preview.rows.length && (
+                  <p className="note">Mostrando as primeiras {preview.rows.length} de {preview.summary.totalRows} linhas.</p>
+                )}
+
+                <div className="page-header-content">
+                  <button
+                    type="button"
+                    onClick={handleCancelPreview}
+                    disabled={isUploading}
+                    className="btn"
+                  >
+                    Cancelar
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleConfirmUpload}
+                    disabled={isUploading || preview.summary.newLeads + preview.summary.updatedLeads === 0}
+                    className="btn btn-success"
+                  >
+                    {isUploading
+                      ? 'Importando...'
+                      : preview.summary.updatedLeads > 0
+                        ? `Confirmar importação de ${preview.summary.newLeads} leads e ${preview.summary.updatedLeads} atualizações`
+                        : `Confirmar importação de ${preview.summary.newLeads} leads`}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Resultado do upload */}
         {uploadResult && (
           <div className="alert alert-success">
@@ -121,13 +551,19 @@ const LeadsEnviados: React.FC = () => {
                 <div className="upload-details">
                   <p><strong>📁 Arquivo:</strong> {uploadResult.fileName}</p>
                   <p><strong>📊 Tamanho:</strong> {(uploadResult.fileSize / 1024).toFixed(1)} KB</p>
+                  {uploadResult.fileFormat && (
+                    <p><strong>🗂️ Formato:</strong> {uploadResult.fileFormat === 'csv' ? 'CSV' : 'Excel'}</p>
+                  )}
+                  {uploadResult.profile && (
+                    <p><strong>🧭 Perfil de importação:</strong> {uploadResult.profile.name}</p>
+                  )}
                   <p><strong>🔢 Leads estimados:</strong> {uploadResult.estimatedLeads}</p>
                   <p><strong>⏰ Início do processamento:</strong> {new Date(uploadResult.processingStarted).toLocaleString('pt-BR')}</p>
                   <p><strong>📝 Status:</strong> <span className="status-accepted">{uploadResult.status}</span></p>
                 </div>
                 <div className="processing-info">
                   <p><strong>ℹ️ Informação:</strong> {uploadResult.message}</p>
-                  <p className="note">💡 A planilha foi aceita e está sendo processada em background. Você pode acompanhar o progresso na aba "Leads Processados".</p>
+                  <p className="note">💡 A planilha foi aceita e está sendo processada em background. O progresso aparece em tempo real em "Últimos Uploads", abaixo.</p>
                 </div>
               </div>
             </div>
@@ -135,19 +571,172 @@ const LeadsEnviados: React.FC = () => {
         )}
       </div>
 
+      {/* Leads em processamento (tempo real) */}
+      {Object.keys(leadsInProgress).length > 0 && (
+        <div className="card">
+          <h3 className="instruction-title">⚙️ Leads em processamento</h3>
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Empresa</th>
+                  <th>Etapa</th>
+                  <th>Progresso</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.values(leadsInProgress).map(lead => (
+                  <tr key={lead.leadId}>
+                    <td>{lead.companyName || lead.leadId}</td>
+                    <td>{PROCESSING_STEP_LABELS[lead.currentStep] || lead.currentStep}</td>
+                    <td>
+                      <div className="progress-bar" title={`${lead.progress}%`}>
+                        <div className="progress-bar-fill" style={{ width: `${lead.progress}%` }} />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Histórico de uploads */}
+      {uploadBatches.length > 0 && (
+        <div className="card">
+          <div className="page-header-content">
+            <h3 className="instruction-title">🗃️ Últimos Uploads</h3>
+            <button type="button" onClick={fetchUploadBatches} className="btn btn-primary">
+              Atualizar
+            </button>
+          </div>
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Arquivo</th>
+                  <th>Perfil</th>
+                  <th>Enviado por</th>
+                  <th>Data</th>
+                  <th>Linhas</th>
+                  <th>Criados</th>
+                  <th>Atualizados</th>
+                  <th>Ignorados</th>
+                  <th>Com erro</th>
+                  <th>Status</th>
+                  <th>Progresso</th>
+                  <th>Relatório</th>
+                  <th>Ações</th>
+                </tr>
+              </thead>
+              <tbody>
+                {uploadBatches.map(batch => {
+                  const progress = getBatchProgress(batch);
+
+                  return (
+                    <tr key={batch.id}>
+                      <td>
+                        {batch.fileName}
+                        {batch.sheets.length > 1 && (
+                          <div className="upload-subtext">Abas: {batch.sheets.join(', ')}</div>
+                        )}
+                      </td>
+                      <td>{batch.profileName || '-'}</td>
+                      <td>{batch.uploadedBy?.name || '-'}</td>
+                      <td>{new Date(batch.createdAt).toLocaleString('pt-BR')}</td>
+                      <td>
+                        {batch.status === 'processing'
+                          ? `${batch.processedRows}/${batch.totalRows}`
+                          : batch.totalRows}
+                      </td>
+                      <td>{batch.createdCount}</td>
+                      <td>{batch.updatedCount}</td>
+                      <td>{batch.skippedCount}</td>
+                      <td>{batch.failedCount}</td>
+                      <td>
+                        <span
+                          className={`status-badge ${BATCH_STATUS_LABELS[batch.status].className}`}
+                          title={batch.error}
+                        >
+                          {BATCH_STATUS_LABELS[batch.status].label}
+                        </span>
+                      </td>
+                      <td>
+                        {progress ? (
+                          <>
+                            <div className="progress-bar" title={`${progress.percent}%`}>
+                              <div className="progress-bar-fill" style={{ width: `${progress.percent}%` }} />
+                            </div>
+                            <div className="progress-bar-label">{progress.label}</div>
+                          </>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td>
+                        {batch.skippedCount + batch.failedCount > 0 ? (
+                          <button
+                            type="button"
+                            onClick={() => handleDownloadErrors(batch)}
+                            className="btn btn-excel"
+                            title="Planilha com as linhas rejeitadas e o motivo, para corrigir e reenviar"
+                          >
+                            Baixar erros
+                          </button>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td>
+                        {(batch.leadStatusCounts.erro || 0) > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => handleRetryFailed(batch)}
+                            className="btn btn-secondary btn-sm"
+                            title="Coloca de volta na fila os leads deste upload que terminaram com erro"
+                          >
+                            Reprocessar com erro
+                          </button>
+                        )}
+                        {(batch.jobStatusCounts.pending || 0) > 0 && (
+                          <button
+                            type="button"
+                            onClick={() => handleCancelPending(batch)}
+                            className="btn btn-danger btn-sm"
+                            title="Remove da fila os leads que ainda não começaram a ser processados"
+                          >
+                            Cancelar pendentes
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Instruções */}
       <div className="card instruction-card">
         <h3 className="instruction-title">
           📋 Instruções para Upload
         </h3>
         <div className="instruction-list">
-          <p>• A planilha deve estar no formato padrão do Datlo</p>
-          <p>• Colunas obrigatórias: CNPJ, Razão Social, Município, CEP, Endereço cadastral</p>
-          <p>• O sistema processará apenas a primeira página da planilha</p>
-          <p>• A validação é feita imediatamente e a resposta é instantânea</p>
+          <p>• As colunas da planilha são lidas conforme o perfil de importação selecionado (o padrão é o formato do Datlo)</p>
+          <p>• Para planilhas de outros fornecedores, cadastre um perfil em "Perfis de Importação"</p>
+          <p>• Arquivos CSV podem usar ";", "," ou tabulação como separador, em UTF-8 ou Latin-1</p>
+          <p>• Colunas obrigatórias no perfil Datlo: CNPJ, Razão Social, Município, CEP, Endereço cadastral</p>
+          <p>• Em planilhas Excel com várias abas, todas as abas com os cabeçalhos do perfil são importadas; desmarque na pré-visualização as que não devem entrar</p>
+          <p>• O cabeçalho pode estar abaixo de linhas de título; cada lead guarda a aba de onde veio</p>
+          <p>• Antes de importar, o sistema mostra uma pré-visualização com novos, duplicados e rejeitados; nada é gravado até você confirmar</p>
           <p>• O processamento dos leads acontece em background</p>
-          <p>• Leads com CNPJ duplicado serão automaticamente ignorados</p>
-          <p>• Acompanhe o progresso na aba "Leads Processados"</p>
+          <p>• Por padrão, leads com CNPJ já cadastrado são ignorados. Para reimportar uma planilha corrigida, escolha "Preencher só campos vazios" ou "Sobrescrever dados da planilha"</p>
+          <p>• A reimportação altera apenas os dados vindos da planilha; observações e demais edições feitas no sistema são mantidas</p>
+          <p>• Linhas com CNPJ inválido ou sem CEP são rejeitadas; baixe o relatório de erros em "Últimos Uploads" para corrigir e reenviar apenas essas linhas</p>
+          <p>• Acompanhe em tempo real o progresso de cada upload e dos leads em processamento nesta página</p>
         </div>
       </div>
     </div>
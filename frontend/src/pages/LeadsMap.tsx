@@ -4,6 +4,8 @@ import { Icon } from 'leaflet';
 import { Lead } from '../types';
 import { leadsAPI, sellersAPI } from '../services/api';
 import { Seller } from '../types';
+import { formatCnpj } from '../utils/cnpj';
+import { formatContact, formatPhone } from '../utils/contact';
 
 // Importar CSS do Leaflet e do componente
 import 'leaflet/dist/leaflet.css';
@@ -1102,7 +1104,7 @@ export const LeadsMap: React.FC<LeadsMapProps> = () => {
                     )}
                     
                     <p className="leads-map-popup-text">
-                      <strong>CNPJ:</strong> {lead.cnpj}
+                      <strong>CNPJ:</strong> {formatCnpj(lead.cnpj)}
                     </p>
                     <p className="leads-map-popup-text">
                       <strong>Endereço:</strong> {formatAddress(lead)}
@@ -1127,6 +1129,29 @@ export const LeadsMap: React.FC<LeadsMapProps> = () => {
                         <strong>Capital:</strong> R$ {lead.capitalSocial.toLocaleString('pt-BR')}
                       </p>
                     )}
+                    {lead.contacts && lead.contacts.length > 0 ? (
+                      lead.contacts
+                        .filter(contact => contact.verificationStatus !== 'invalid')
+                        .map(contact => (
+                          <p key={contact.id} className="leads-map-popup-text">
+                            <strong>{contact.channel === 'phone' ? 'Telefone' : 'E-mail'}:</strong> {formatContact(contact)}
+                            {contact.isPrimary && ' ★'}
+                          </p>
+                        ))
+                    ) : (
+                      <>
+                        {lead.phone && (
+                          <p className="leads-map-popup-text">
+                            <strong>Telefone:</strong> {formatPhone(lead.phone)}
+                          </p>
+                        )}
+                        {lead.email && (
+                          <p className="leads-map-popup-text">
+                            <strong>E-mail:</strong> {lead.email}
+                          </p>
+                        )}
+                      </>
+                    )}
                     
                     {isRouteMode && (
                       <div className="leads-map-popup-actions">
@@ -127,6 +127,43 @@ const LeadsProcessados: React.FC = () => {
     }
   };
 
+  // Reprocessamento e cancelamento
+  const handleRetryLead = async (id: string) => {
+    try {
+      await leadsAPI.retryLead(id);
+      await loadLeads();
+      await loadStats();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Erro ao reprocessar lead. Tente novamente.');
+      console.error('Erro ao reprocessar lead:', error);
+    }
+  };
+
+  const handleCancelLead = async (id: string) => {
+    try {
+      await leadsAPI.cancelLead(id);
+      await loadLeads();
+      await loadStats();
+    } catch (error: any) {
+      setError(error.response?.data?.error || 'Erro ao cancelar processamento. Tente novamente.');
+      console.error('Erro ao cancelar processamento:', error);
+    }
+  };
+
+  const handleRequeueEnrichmentFailures = async () => {
+    if (!window.confirm('Reprocessar todos os leads sem dados cadastrais?')) return;
+
+    try {
+      const result = await leadsAPI.requeueEnrichmentFailures();
+      alert(`✅ ${result.requeued} leads reenfileirados`);
+      await loadLeads();
+      await loadStats();
+    } catch (error: any) {
+      setError('Erro ao reprocessar falhas de enriquecimento. Tente novamente.');
+      console.error('Erro ao reprocessar falhas de enriquecimento:', error);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="container">
@@ -145,6 +182,9 @@ const LeadsProcessados: React.FC = () => {
 
       <div className="page-header">
         <h1>📊 Todos os Leads</h1>
+        <button type="button" onClick={handleRequeueEnrichmentFailures} className="btn btn-secondary btn-sm">
+          🔁 Reprocessar falhas de enriquecimento
+        </button>
       </div>
 
       {/* Cards de estatísticas */}
@@ -222,6 +262,8 @@ const LeadsProcessados: React.FC = () => {
             onBulkDelete={handleBulkDelete}
             onExport={handleExport}
             onExportSelected={handleExportSelected}
+            onRetryLead={handleRetryLead}
+            onCancelLead={handleCancelLead}
             isExporting={isExporting}
           />
         )}
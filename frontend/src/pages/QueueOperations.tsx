@@ -0,0 +1,339 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { queueAdminAPI } from '../services/api';
+import { QueueStatus, QueueJobState, QueueJobSummary, FailureReport, FailureClass, FailureAction } from '../types';
+
+// Intervalo de atualização automática da situação da fila
+const REFRESH_INTERVAL = 10000;
+
+const JOB_STATES: Array<{ state: QueueJobState; label: string; icon: string; className: string }> = [
+  { state: 'waiting', label: 'Aguardando', icon: '⏳', className: 'stat-icon-yellow' },
+  { state: 'active', label: 'Em processamento', icon: '🔄', className: 'stat-icon-blue' },
+  { state: 'failed', label: 'Com falha', icon: '❌', className: 'stat-icon-red' },
+  { state: 'delayed', label: 'Agendados (retry)', icon: '🕒', className: 'stat-icon-purple' },
+];
+
+const FAILURE_CLASS_LABELS: Record<FailureClass, string> = {
+  rate_limited: 'Limite da API de CNPJ',
+  cnpj_not_found: 'CNPJ não encontrado',
+  cnpj_inactive: 'CNPJ inativo',
+  network: 'Rede / indisponibilidade',
+  validation: 'Dados inválidos',
+  internal: 'Erro interno',
+};
+
+const FAILURE_ACTION_LABELS: Record<FailureAction, { label: string; className: string }> = {
+  wait: { label: '⏳ Aguardar e reprocessar', className: 'aguardando' },
+  fix_data: { label: '✏️ Corrigir dados', className: 'processando' },
+  file_bug: { label: '🐞 Abrir bug', className: 'erro' },
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString('pt-BR') : '-');
+
+const QueueOperations: React.FC = () => {
+  const [status, setStatus] = useState<QueueStatus | null>(null);
+  const [selectedState, setSelectedState] = useState<QueueJobState>('waiting');
+  const [jobs, setJobs] = useState<QueueJobSummary[]>([]);
+  const [failureReport, setFailureReport] = useState<FailureReport | null>(null);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const data = await queueAdminAPI.getStatus();
+      setStatus(data);
+      setConcurrency(current => current || String(data.concurrency));
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Erro ao carregar a situação da fila.');
+      console.error('Erro ao carregar a situação da fila:', err);
+    }
+  }, []);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const data = await queueAdminAPI.getJobs(selectedState, { limit: 100 });
+      setJobs(data);
+    } catch (err) {
+      console.error('Erro ao carregar jobs da fila:', err);
+    }
+  }, [selectedState]);
+
+  const loadFailureReport = useCallback(async () => {
+    try {
+      setFailureReport(await queueAdminAPI.getFailureReport());
+    } catch (err) {
+      console.error('Erro ao carregar o relatório de falhas:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+    const interval = setInterval(loadStatus, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadStatus]);
+
+  useEffect(() => {
+    loadFailureReport();
+  }, [loadFailureReport]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  // Executa uma ação de operação e recarrega a fila
+  const runAction = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    setError('');
+    setMessage('');
+
+    try {
+      setMessage(await action());
+      await Promise.all([loadStatus(), loadJobs()]);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Erro ao executar a operação. Tente novamente.');
+      console.error('Erro na operação da fila:', err);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTogglePause = () =>
+    runAction(async () => {
+      if (status?.paused) {
+        await queueAdminAPI.resume();
+        return 'Fila retomada';
+      }
+      await queueAdminAPI.pause();
+      return 'Fila pausada. Os jobs em andamento terminam normalmente.';
+    });
+
+  const handleDrain = () => {
+    if (!window.confirm('Remover todos os jobs aguardando e agendados? Os leads ficarão com status de erro para reprocessar depois.')) {
+      return;
+    }
+
+    runAction(async () => {
+      const result = await queueAdminAPI.drain();
+      return `${result.removed} jobs removidos da fila`;
+    });
+  };
+
+  const handleSaveConcurrency = () =>
+    runAction(async () => {
+      const result = await queueAdminAPI.setConcurrency(Number(concurrency));
+      setConcurrency(String(result.concurrency));
+      return `Concorrência alterada para ${result.concurrency}`;
+    });
+
+  return (
+    <div className="container">
+      <div className="page-header">
+        <h1 className="page-title">🛠️ Operação da Fila</h1>
+        <p className="page-description">
+          Pause o processamento durante quedas da API de CNPJ, esvazie a fila e acompanhe os jobs.
+        </p>
+      </div>
+
+      {error && (
+        <div className="alert alert-error">
+          <div className="alert-content">
+            <div className="alert-icon">❌</div>
+            <div className="alert-message">
+              <p>{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <div className="alert alert-success">
+          <div className="alert-content">
+            <div className="alert-icon">✅</div>
+            <div className="alert-message">
+              <p>{message}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <>
+          <div className="card">
+            <div className="queue-controls">
+              <span className={`status-badge ${status.paused ? 'aguardando' : 'processado'}`}>
+                {status.paused ? '⏸️ Pausada' : '▶️ Em execução'}
+              </span>
+              <span
+                className={`status-badge ${status.workers > 0 ? 'processado' : 'erro'}`}
+                title={status.workers > 0 ? undefined : 'Nenhum worker conectado: os jobs ficam aguardando até um worker iniciar'}
+              >
+                👷 {status.workers} {status.workers === 1 ? 'worker' : 'workers'}
+              </span>
+              <button
+                type="button"
+                onClick={handleTogglePause}
+                className={`btn ${status.paused ? 'btn-success' : 'btn-secondary'}`}
+                disabled={isBusy}
+              >
+                {status.paused ? 'Retomar fila' : 'Pausar fila'}
+              </button>
+              <button type="button" onClick={handleDrain} className="btn btn-danger" disabled={isBusy}>
+                Esvaziar fila
+              </button>
+              <button
+                type="button"
+                onClick={() => Promise.all([loadStatus(), loadJobs(), loadFailureReport()])}
+                className="btn btn-primary"
+              >
+                Atualizar
+              </button>
+
+              <div className="queue-concurrency">
+                <label htmlFor="queue-concurrency">Leads em paralelo por worker</label>
+                <input
+                  id="queue-concurrency"
+                  type="number"
+                  min={1}
+                  max={status.maxConcurrency}
+                  value={concurrency}
+                  onChange={e => setConcurrency(e.target.value)}
+                  className="form-input"
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveConcurrency}
+                  className="btn btn-secondary"
+                  disabled={isBusy || Number(concurrency) === status.concurrency}
+                >
+                  Salvar
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="stats-grid" style={{ marginTop: '1.5rem' }}>
+            {JOB_STATES.map(({ state, label, icon, className }) => (
+              <div
+                key={state}
+                className={`stat-card selectable ${selectedState === state ? 'selected' : ''}`}
+                onClick={() => setSelectedState(state)}
+              >
+                <div className={`stat-icon ${className}`}>{icon}</div>
+                <div className="stat-content">
+                  <h3>{label}</h3>
+                  <p>{status.counts[state]}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {failureReport && (
+        <div className="card">
+          <h3 className="instruction-title">
+            Falhas por tipo ({failureReport.deadLetterTotal} jobs na dead-letter)
+          </h3>
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Tipo</th>
+                  <th>O que fazer</th>
+                  <th>Leads com erro</th>
+                  <th>Sem enriquecimento</th>
+                  <th>Dead-letter</th>
+                  <th>Exemplos de erro</th>
+                </tr>
+              </thead>
+              <tbody>
+                {failureReport.classes.map(item => (
+                  <tr key={item.failureClass}>
+                    <td title={item.description}>{FAILURE_CLASS_LABELS[item.failureClass]}</td>
+                    <td>
+                      <span className={`status-badge ${FAILURE_ACTION_LABELS[item.action].className}`}>
+                        {FAILURE_ACTION_LABELS[item.action].label}
+                      </span>
+                    </td>
+                    <td>{item.failedLeads}</td>
+                    <td>{item.unenrichedLeads}</td>
+                    <td>{item.deadLetterJobs}</td>
+                    <td>
+                      {item.sampleErrors.length === 0
+                        ? '-'
+                        : item.sampleErrors.map(sample => (
+                            <div key={sample} className="upload-subtext">{sample}</div>
+                          ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="card">
+        <h3 className="instruction-title">
+          Jobs: {JOB_STATES.find(item => item.state === selectedState)?.label}
+        </h3>
+        {jobs.length === 0 ? (
+          <p className="page-description">Nenhum job neste estado.</p>
+        ) : (
+          <div className="table-container">
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Job</th>
+                  <th>Empresa</th>
+                  <th>Tentativas</th>
+                  <th>Progresso</th>
+                  <th>Criado em</th>
+                  <th>{selectedState === 'delayed' ? 'Próxima tentativa' : 'Iniciado em'}</th>
+                  <th>Erro</th>
+                  <th>Payload</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(job => {
+                  const leadData = (job.data.leadData || {}) as Record<string, string>;
+
+                  return (
+                    <tr key={job.id}>
+                      <td>{job.id}</td>
+                      <td>
+                        {leadData['Razão social'] || '-'}
+                        {leadData['CNPJ'] && <div className="upload-subtext">{leadData['CNPJ']}</div>}
+                      </td>
+                      <td>{job.attemptsMade}</td>
+                      <td>{job.progress}%</td>
+                      <td>{formatDate(job.createdAt)}</td>
+                      <td>{formatDate(selectedState === 'delayed' ? job.delayedUntil : job.processedAt)}</td>
+                      <td>{job.failedReason || '-'}</td>
+                      <td>
+                        <button
+                          type="button"
+                          onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                          className="btn btn-secondary btn-sm"
+                        >
+                          {expandedJobId === job.id ? 'Ocultar' : 'Ver'}
+                        </button>
+                        {expandedJobId === job.id && (
+                          <pre className="job-payload">{JSON.stringify(job.data, null, 2)}</pre>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QueueOperations;
@@ -66,6 +66,8 @@ export const ScoringConfig: React.FC = () => {
         type: cat.type,
         points: cat.points,
         description: cat.description || '',
+        cnaeMatch: cat.cnaeMatch,
+        secondaryWeight: cat.secondaryWeight,
         criteria: cat.criteria.map(crit => ({
           name: crit.name,
           value: crit.value,
@@ -290,6 +292,13 @@ export const ScoringConfig: React.FC = () => {
                 <p className="scoring-config-category-description">
                   {category.description || 'Sem descrição'}
                 </p>
+                {category.type === 'cnae' && category.cnaeMatch !== 'main' && (
+                  <p className="scoring-config-category-description">
+                    {category.cnaeMatch === 'any'
+                      ? 'Pontua também as atividades secundárias'
+                      : `Atividades secundárias valem ${Math.round((category.secondaryWeight ?? 0.5) * 100)}% dos pontos`}
+                  </p>
+                )}
                 
                 <div className="scoring-config-criteria">
                   {category.criteria.map((criteria) => (
@@ -460,6 +469,37 @@ export const ScoringConfig: React.FC = () => {
                       />
                     </div>
 
+                    {category.type === 'cnae' && (
+                      <div className="scoring-config-form-row">
+                        <div className="scoring-config-form-group">
+                          <label>Atividades Consideradas</label>
+                          <select
+                            value={category.cnaeMatch || 'main'}
+                            onChange={(e) => updateCategory(categoryIndex, 'cnaeMatch', e.target.value)}
+                            className="scoring-config-select"
+                          >
+                            <option value="main">Só o CNAE principal</option>
+                            <option value="any">Principal e secundárias</option>
+                            <option value="weighted">Secundárias com peso reduzido</option>
+                          </select>
+                        </div>
+
+                        {category.cnaeMatch === 'weighted' && (
+                          <div className="scoring-config-form-group">
+                            <label>Peso das Secundárias (%)</label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={Math.round((category.secondaryWeight ?? 0.5) * 100)}
+                              onChange={(e) => updateCategory(categoryIndex, 'secondaryWeight', parseInt(e.target.value) / 100)}
+                              className="scoring-config-input"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     <div className="scoring-config-criteria-section">
                       <h5>Critérios</h5>
                       
@@ -663,6 +703,37 @@ export const ScoringConfig: React.FC = () => {
                       />
                     </div>
 
+                    {category.type === 'cnae' && (
+                      <div className="scoring-config-form-row">
+                        <div className="scoring-config-form-group">
+                          <label>Atividades Consideradas</label>
+                          <select
+                            value={category.cnaeMatch || 'main'}
+                            onChange={(e) => updateCategory(categoryIndex, 'cnaeMatch', e.target.value)}
+                            className="scoring-config-select"
+                          >
+                            <option value="main">Só o CNAE principal</option>
+                            <option value="any">Principal e secundárias</option>
+                            <option value="weighted">Secundárias com peso reduzido</option>
+                          </select>
+                        </div>
+
+                        {category.cnaeMatch === 'weighted' && (
+                          <div className="scoring-config-form-group">
+                            <label>Peso das Secundárias (%)</label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={Math.round((category.secondaryWeight ?? 0.5) * 100)}
+                              onChange={(e) => updateCategory(categoryIndex, 'secondaryWeight', parseInt(e.target.value) / 100)}
+                              className="scoring-config-input"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     <div className="scoring-config-criteria-section">
                       <h5>Critérios</h5>
                       
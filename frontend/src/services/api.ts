@@ -8,7 +8,20 @@ import {
   ScoringConfig,
   CreateScoringCategoryRequest,
   Seller,
-  CreateSellerRequest
+  CreateSellerRequest,
+  ImportProfile,
+  CreateImportProfileRequest,
+  UploadBatchDetails,
+  UploadRowError,
+  UploadPreview,
+  ReimportMode,
+  SheetSelection,
+  ProcessingEvent,
+  QueueStatus,
+  QueueJobState,
+  QueueJobSummary,
+  FailureReport,
+  ProcessingLogEntry
 } from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || '/api';
@@ -67,6 +80,31 @@ export const authAPI = {
   },
 };
 
+// Opções de reimportação enviadas junto com a planilha
+export interface UploadOptions {
+  reimportMode?: ReimportMode;
+  reenqueue?: boolean;
+  sheets?: SheetSelection;
+}
+
+const buildUploadFormData = (file: File, profileId?: string, options: UploadOptions = {}): FormData => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (profileId) {
+    formData.append('profileId', profileId);
+  }
+  if (options.reimportMode) {
+    formData.append('reimportMode', options.reimportMode);
+  }
+  if (options.reenqueue) {
+    formData.append('reenqueue', 'true');
+  }
+  if (options.sheets) {
+    formData.append('sheets', options.sheets === 'all' ? 'all' : JSON.stringify(options.sheets));
+  }
+  return formData;
+};
+
 export const leadsAPI = {
   // Buscar todos os leads (incluindo erros e pendentes)
   getAllLeads: async (): Promise<Lead[]> => {
@@ -97,10 +135,31 @@ export const leadsAPI = {
     await api.delete(`/leads/${id}`);
   },
 
+  // Histórico de processamento do lead
+  getLeadLogs: async (id: string): Promise<ProcessingLogEntry[]> => {
+    const response = await api.get<ApiResponse<ProcessingLogEntry[]>>(`/leads/${id}/logs`);
+    return response.data.data;
+  },
+
+  // Reenfileirar lead com erro ou sem enriquecimento
+  retryLead: async (id: string): Promise<void> => {
+    await api.post(`/leads/${id}/retry`);
+  },
+
+  // Cancelar o job pendente do lead
+  cancelLead: async (id: string): Promise<void> => {
+    await api.post(`/leads/${id}/cancel`);
+  },
+
+  // Reenfileirar leads processados sem os dados cadastrais
+  requeueEnrichmentFailures: async (uploadBatchId?: string): Promise<{ requeued: number }> => {
+    const response = await api.post<ApiResponse<{ requeued: number }>>('/leads/requeue-enrichment-failures', { uploadBatchId });
+    return response.data.data;
+  },
+
   // Upload de planilha
-  uploadExcel: async (file: File): Promise<UploadResponse> => {
-    const formData = new FormData();
-    formData.append('file', file);
+  uploadExcel: async (file: File, profileId?: string, options: UploadOptions = {}): Promise<UploadResponse> => {
+    const formData = buildUploadFormData(file, profileId, options);
     
     try {
       // Log para debug
@@ -132,6 +191,15 @@ export const leadsAPI = {
     }
   },
 
+  // Pré-visualizar planilha (valida sem criar leads)
+  previewUpload: async (file: File, profileId?: string, options: UploadOptions = {}): Promise<UploadPreview> => {
+    const formData = buildUploadFormData(file, profileId, options);
+    formData.append('preview', 'true');
+
+    const response = await api.post<ApiResponse<UploadPreview>>('/leads/upload', formData);
+    return response.data.data;
+  },
+
   // Exportar leads processados
   exportLeads: async (): Promise<Blob> => {
     const response = await api.post('/leads/export', {}, {
@@ -222,4 +290,151 @@ export const sellersAPI = {
   },
 };
 
+export const importProfilesAPI = {
+  getAll: async (): Promise<ImportProfile[]> => {
+    const response = await api.get<ApiResponse<ImportProfile[]>>('/import-profiles');
+    return response.data.data;
+  },
+  create: async (data: CreateImportProfileRequest): Promise<ImportProfile> => {
+    const response = await api.post<ApiResponse<ImportProfile>>('/import-profiles', data);
+    return response.data.data;
+  },
+  update: async (id: string, data: Partial<CreateImportProfileRequest>): Promise<ImportProfile> => {
+    const response = await api.put<ApiResponse<ImportProfile>>(`/import-profiles/${id}`, data);
+    return response.data.data;
+  },
+  delete: async (id: string): Promise<void> => {
+    await api.delete(`/import-profiles/${id}`);
+  },
+};
+
 export default api;
+
+export const uploadsAPI = {
+  getAll: async (params?: { status?: string; limit?: number; offset?: number }): Promise<UploadBatchDetails[]> => {
+    const response = await api.get<ApiResponse<UploadBatchDetails[]>>('/uploads', { params });
+    return response.data.data;
+  },
+  getById: async (id: string): Promise<UploadBatchDetails> => {
+    const response = await api.get<ApiResponse<UploadBatchDetails>>(`/uploads/${id}`);
+    return response.data.data;
+  },
+  getErrors: async (id: string): Promise<{ headers: string[]; errors: UploadRowError[] }> => {
+    const response = await api.get<ApiResponse<{ headers: string[]; errors: UploadRowError[] }>>(`/uploads/${id}/errors`);
+    return response.data.data;
+  },
+  // Planilha anotada com as linhas rejeitadas, para correção e reenvio
+  downloadErrors: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/uploads/${id}/errors/download`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+  // Reenfileira os leads do upload que terminaram com erro
+  retryFailed: async (id: string): Promise<{ requeued: number }> => {
+    const response = await api.post<ApiResponse<{ requeued: number }>>(`/uploads/${id}/retry-failed`);
+    return response.data.data;
+  },
+  // Cancela os jobs do upload que ainda aguardam na fila
+  cancelPending: async (id: string): Promise<{ cancelled: number; skipped: number }> => {
+    const response = await api.post<ApiResponse<{ cancelled: number; skipped: number }>>(`/uploads/${id}/cancel`);
+    return response.data.data;
+  },
+};
+
+// Console de operação da fila (somente administradores)
+export const queueAdminAPI = {
+  getStatus: async (): Promise<QueueStatus> => {
+    const response = await api.get<ApiResponse<QueueStatus>>('/admin/queue');
+    return response.data.data;
+  },
+  pause: async (): Promise<QueueStatus> => {
+    const response = await api.post<ApiResponse<QueueStatus>>('/admin/queue/pause');
+    return response.data.data;
+  },
+  resume: async (): Promise<QueueStatus> => {
+    const response = await api.post<ApiResponse<QueueStatus>>('/admin/queue/resume');
+    return response.data.data;
+  },
+  drain: async (): Promise<{ removed: number }> => {
+    const response = await api.post<ApiResponse<{ removed: number }>>('/admin/queue/drain');
+    return response.data.data;
+  },
+  setConcurrency: async (concurrency: number): Promise<{ concurrency: number }> => {
+    const response = await api.put<ApiResponse<{ concurrency: number }>>('/admin/queue/concurrency', { concurrency });
+    return response.data.data;
+  },
+  getJobs: async (state: QueueJobState, params?: { offset?: number; limit?: number }): Promise<QueueJobSummary[]> => {
+    const response = await api.get<ApiResponse<QueueJobSummary[]>>('/admin/queue/jobs', { params: { state, ...params } });
+    return response.data.data;
+  },
+  getFailureReport: async (): Promise<FailureReport> => {
+    const response = await api.get<ApiResponse<FailureReport>>('/admin/queue/failures');
+    return response.data.data;
+  },
+};
+
+// Intervalo para reconectar ao fluxo de eventos depois de uma queda
+const EVENTS_RECONNECT_DELAY = 5000;
+
+export const eventsAPI = {
+  // Acompanha o processamento em tempo real (Server-Sent Events)
+  // O fluxo é lido com fetch para que o token vá no cabeçalho, e não na URL; devolve a função que encerra a conexão
+  subscribe: (
+    onEvent: (event: ProcessingEvent) => void,
+    params?: { uploadBatchId?: string; leadId?: string }
+  ): (() => void) => {
+    const controller = new AbortController();
+    const query = new URLSearchParams(
+      Object.entries(params || {}).filter(([, value]) => Boolean(value)) as [string, string][]
+    ).toString();
+
+    const connect = async () => {
+      try {
+        const token = localStorage.getItem('token');
+        const response = await fetch(`${API_BASE_URL}/events${query ? `?${query}` : ''}`, {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error(`Falha ao conectar aos eventos: ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop() || '';
+
+          for (const message of messages) {
+            const data = message
+              .split('\n')
+              .filter(line => line.startsWith('data:'))
+              .map(line => line.slice(5).trim())
+              .join('\n');
+            if (data) {
+              onEvent(JSON.parse(data));
+            }
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Conexão de eventos interrompida:', error);
+      }
+
+      if (!controller.signal.aborted) {
+        setTimeout(connect, EVENTS_RECONNECT_DELAY);
+      }
+    };
+
+    connect();
+    return () => controller.abort();
+  },
+};
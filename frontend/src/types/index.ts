@@ -44,6 +44,7 @@ export interface Lead {
   zipCode: string;
   coordinates?: string;
   streetViewUrl?: string;
+  sourceSheet?: string; // Aba da planilha Excel de origem
   
   // Endereço validado
   validatedStreet?: string;
@@ -70,6 +71,7 @@ export interface Lead {
   // Dados cadastrais da empresa
   cnae?: string;
   cnaeDescription?: string;
+  secondaryCnaes?: Array<{ code: string; description: string | null }>; // Atividades secundárias
   capitalSocial?: number;
   foundationDate?: string;
   industry?: string;
@@ -83,10 +85,18 @@ export interface Lead {
     participation: number;
     role?: string;
   }>;
+  registrationStatus?: string;
+  enrichedAt?: string; // Última consulta dos dados cadastrais
+
+  // Contatos (principal de cada canal em phone / email)
+  phone?: string;
+  email?: string;
+  contacts?: LeadContact[];
   
   // Observações do usuário
   userNotes?: string;
   processingError?: string;
+  failureClass?: FailureClass;
   
   // Status
   status: string;
@@ -95,6 +105,16 @@ export interface Lead {
   userId?: string;
 }
 
+export interface LeadContact {
+  id: string;
+  channel: 'phone' | 'email';
+  type: 'landline' | 'mobile' | 'fax' | 'corporate' | 'personal' | 'accounting' | 'unknown';
+  value: string;
+  source: string;
+  verificationStatus: 'unverified' | 'verified' | 'invalid';
+  isPrimary: boolean;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data: T;
@@ -103,8 +123,14 @@ export interface ApiResponse<T> {
 }
 
 export interface UploadResponse {
+  uploadBatchId?: string;
   fileName: string;
   fileSize: number;
+  fileFormat?: 'excel' | 'csv';
+  profile?: { id: string; name: string };
+  reimportMode?: ReimportMode;
+  reenqueue?: boolean;
+  sheets?: string[];
   estimatedLeads: number;
   status: string;
   message: string;
@@ -146,6 +172,9 @@ export interface CreateSellerRequest {
 }
 
 // Interfaces para sistema de pontuação configurável
+// Atividades pontuadas nas categorias de CNAE: só a principal, qualquer uma, ou secundárias com peso reduzido
+export type CnaeMatchMode = 'main' | 'any' | 'weighted';
+
 export interface ScoringConfig {
   id: string;
   name: string;
@@ -164,6 +193,8 @@ export interface ScoringCategory {
   type: 'cnae' | 'region' | 'capital' | 'foundation' | 'address' | 'partners' | 'custom';
   points: number;
   description?: string;
+  cnaeMatch: CnaeMatchMode;
+  secondaryWeight?: number;
   criteria: ScoringCriteria[];
   createdAt: string;
   updatedAt: string;
@@ -185,6 +216,8 @@ export interface CreateScoringCategoryRequest {
   type: 'cnae' | 'region' | 'capital' | 'foundation' | 'address' | 'partners' | 'custom';
   points: number;
   description?: string;
+  cnaeMatch?: CnaeMatchMode;
+  secondaryWeight?: number;
   criteria: CreateScoringCriteriaRequest[];
 }
 
@@ -194,3 +227,256 @@ export interface CreateScoringCriteriaRequest {
   points: number;
   description?: string;
 }
+
+// Interfaces para perfis de importação (mapeamento de colunas)
+export type DatloField =
+  | 'CNPJ'
+  | 'Razão social'
+  | 'Nome Fantasia'
+  | 'Nome matriz'
+  | 'Município'
+  | 'Distrito'
+  | 'Subdistrito'
+  | 'CEP'
+  | 'Bairro'
+  | 'Endereço cadastral'
+  | 'Endereço sugerido'
+  | 'Coordenadas'
+  | 'Street View';
+
+export type ImportColumnTransform =
+  | 'none'
+  | 'uppercase'
+  | 'lowercase'
+  | 'titlecase'
+  | 'digits_only'
+  | 'cep'
+  | 'coordinates';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  columns: ImportProfileColumn[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export interface ImportProfileColumn {
+  id: string;
+  profileId: string;
+  field: DatloField;
+  aliases: string[];
+  transform: ImportColumnTransform;
+  required: boolean;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateImportProfileColumnRequest {
+  field: DatloField;
+  aliases: string[];
+  transform?: ImportColumnTransform;
+  required?: boolean;
+}
+
+export interface CreateImportProfileRequest {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  columns: CreateImportProfileColumnRequest[];
+}
+
+// Tipos para lotes de upload
+export type UploadBatchStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// O que fazer com CNPJs já cadastrados ao reimportar uma planilha
+export type ReimportMode = 'skip' | 'fill_empty' | 'overwrite';
+
+export interface UploadBatch {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  fileFormat?: string;
+  headers: string[];
+  profileId?: string;
+  profileName?: string;
+  uploadedBy?: { id: string; name: string; email: string };
+  reimportMode: ReimportMode;
+  reenqueue: boolean;
+  sheets: string[];
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  status: UploadBatchStatus;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface UploadBatchDetails extends UploadBatch {
+  leadStatusCounts: Record<string, number>;
+  jobStatusCounts: Record<string, number>;
+}
+
+// Eventos de processamento recebidos em tempo real (GET /api/events)
+export type ProcessingEvent =
+  | {
+      type: 'job_progress';
+      jobId: string;
+      leadId: string;
+      companyName?: string;
+      uploadBatchId?: string;
+      progress: number;
+      currentStep: string;
+    }
+  | {
+      type: 'lead_status';
+      leadId: string;
+      uploadBatchId?: string;
+      status: string;
+      error?: string;
+    }
+  | {
+      type: 'batch_progress';
+      uploadBatchId: string;
+      batch: UploadBatchDetails;
+    }
+  | {
+      type: 'batch_completed';
+      uploadBatchId: string;
+      batch: UploadBatchDetails;
+    };
+
+// Histórico de processamento do lead (GET /api/leads/:id/logs)
+export type ProcessingLogLevel = 'info' | 'warn' | 'error';
+
+export interface ProcessingLogEntry {
+  id: string;
+  leadId?: string;
+  jobId?: string;
+  level: ProcessingLogLevel;
+  message: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Console de operação da fila de processamento
+export type QueueJobState = 'waiting' | 'active' | 'failed' | 'delayed';
+
+export interface QueueStatus {
+  paused: boolean;
+  workers: number;
+  concurrency: number;
+  maxConcurrency: number;
+  counts: Record<QueueJobState | 'completed', number>;
+}
+
+export interface QueueJobSummary {
+  id: string;
+  state: QueueJobState;
+  leadId?: string;
+  uploadBatchId?: string;
+  data: Record<string, unknown>;
+  progress: number;
+  attemptsMade: number;
+  failedReason?: string;
+  createdAt: string;
+  processedAt?: string;
+  finishedAt?: string;
+  delayedUntil?: string;
+}
+
+// Relatório de falhas do processamento (GET /admin/queue/failures)
+export type FailureClass =
+  | 'rate_limited'
+  | 'cnpj_not_found'
+  | 'cnpj_inactive'
+  | 'network'
+  | 'validation'
+  | 'internal';
+
+export type FailureAction = 'wait' | 'fix_data' | 'file_bug';
+
+export interface FailureClassReport {
+  failureClass: FailureClass;
+  action: FailureAction;
+  description: string;
+  failedLeads: number;
+  unenrichedLeads: number;
+  deadLetterJobs: number;
+  sampleErrors: string[];
+}
+
+export interface FailureReport {
+  classes: FailureClassReport[];
+  deadLetterTotal: number;
+}
+
+export type ImportRowErrorReason =
+  | 'duplicate_cnpj'
+  | 'invalid_cnpj'
+  | 'missing_cep'
+  | 'parse_error'
+  | 'processing_error';
+
+export interface UploadRowError {
+  id: string;
+  uploadBatchId: string;
+  rowNumber: number;
+  reason: ImportRowErrorReason;
+  message: string;
+  values: string[];
+  createdAt: string;
+}
+
+// Abas de uma planilha Excel detectadas no upload
+export interface SpreadsheetSheetInfo {
+  name: string;
+  headerRow: number;
+  headers: string[];
+  estimatedLeads: number;
+  isValid: boolean;
+  error?: string;
+}
+
+// Abas a importar: nomes específicos ou todas as abas válidas
+export type SheetSelection = string[] | 'all';
+
+// Tipos para a pré-visualização do upload
+export interface UploadPreviewRow {
+  rowNumber: number;
+  sheetName?: string;
+  status: 'ok' | 'update' | 'duplicate' | 'rejected';
+  data?: Record<DatloField, string>;
+  reason?: ImportRowErrorReason;
+  message?: string;
+}
+
+export interface UploadPreview {
+  fileName: string;
+  fileSize: number;
+  fileFormat?: 'excel' | 'csv';
+  profile?: { id: string; name: string };
+  reimportMode?: ReimportMode;
+  reenqueue?: boolean;
+  sheets: SpreadsheetSheetInfo[];
+  selectedSheets: string[];
+  headers: string[];
+  summary: {
+    totalRows: number;
+    newLeads: number;
+    updatedLeads: number;
+    duplicateRows: number;
+    rejectedRows: number;
+    reasons: Partial<Record<ImportRowErrorReason, number>>;
+  };
+  rows: UploadPreviewRow[];
+}
@@ -0,0 +1,10 @@
+/**
+ * Formata o CNPJ para exibição (o backend grava apenas os 14 dígitos)
+ */
+export const formatCnpj = (value?: string | null): string => {
+  const digits = (value || '').replace(/\D/g, '');
+  if (digits.length !== 14) {
+    return value || '';
+  }
+  return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+};
@@ -0,0 +1,37 @@
+import { LeadContact } from '../types';
+
+/**
+ * Formata o telefone para exibição (o backend grava DDD + número, só dígitos)
+ */
+export const formatPhone = (value?: string | null): string => {
+  const digits = (value || '').replace(/\D/g, '');
+  if (digits.length === 11) {
+    return digits.replace(/^(\d{2})(\d{5})(\d{4})$/, '($1) $2-$3');
+  }
+  if (digits.length === 10) {
+    return digits.replace(/^(\d{2})(\d{4})(\d{4})$/, '($1) $2-$3');
+  }
+  return value || '';
+};
+
+/**
+ * Valor do contato pronto para exibição
+ */
+export const formatContact = (contact: LeadContact): string =>
+  contact.channel === 'phone' ? formatPhone(contact.value) : contact.value;
+
+export const CONTACT_TYPE_LABELS: Record<LeadContact['type'], string> = {
+  landline: 'Fixo',
+  mobile: 'Celular',
+  fax: 'Fax',
+  corporate: 'Corporativo',
+  personal: 'Pessoal',
+  accounting: 'Contabilidade',
+  unknown: '',
+};
+
+export const CONTACT_VERIFICATION_LABELS: Record<LeadContact['verificationStatus'], string> = {
+  unverified: 'Não verificado',
+  verified: 'Verificado',
+  invalid: 'Inválido',
+};
@@ -0,0 +1,42 @@
+import Redis from 'ioredis';
+
+/**
+ * Configuração da fila de processamento compartilhada pela API (produz os jobs) e pelo worker (consome)
+ */
+
+export const LEAD_PROCESSING_QUEUE_NAME = 'lead-processing';
+
+// Fila sem worker que guarda os jobs que esgotaram as tentativas, um por lead, até o reprocessamento
+export const DEAD_LETTER_QUEUE_NAME = 'lead-processing-dead-letter';
+
+// Fila das tarefas de manutenção agendadas (jobs repetíveis executados pelo worker)
+export const MAINTENANCE_QUEUE_NAME = 'maintenance';
+
+// Leads processados em paralelo por worker: valor inicial e limite para ajuste pelo console de operação
+export const WORKER_CONCURRENCY = 3;
+export const MAX_WORKER_CONCURRENCY = 20;
+
+// Concorrência definida pelo console: gravada no Redis e avisada aos workers pelo canal
+export const WORKER_CONCURRENCY_KEY = 'lead-processing:worker-concurrency';
+export const WORKER_SETTINGS_CHANNEL = 'lead-processing:worker-settings';
+
+/**
+ * Abre uma conexão com o Redis no formato exigido pelo BullMQ (sem limite de tentativas por comando)
+ */
+export const createQueueConnection = (): Redis =>
+  new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
+    maxRetriesPerRequest: null,
+  });
+
+/**
+ * Concorrência em vigor: a gravada pelo console de operação ou o valor inicial
+ */
+export const readWorkerConcurrency = async (redis: Redis): Promise<number> => {
+  const stored = parseInt((await redis.get(WORKER_CONCURRENCY_KEY)) || '', 10);
+  return stored >= 1 && stored <= MAX_WORKER_CONCURRENCY ? stored : WORKER_CONCURRENCY;
+};
+
+/**
+ * Id da entrada do lead na fila de dead-letter
+ */
+export const getDeadLetterJobId = (leadId: string): string => `lead-${leadId}`;
@@ -0,0 +1,49 @@
+/**
+ * Política de reenriquecimento: nova consulta periódica dos dados cadastrais dos leads já processados
+ * Os jobs entram na fila de processamento com prioridade menor que a dos leads importados e respeitam o mesmo
+ * limitador, ou seja, usam só o orçamento da API de CNPJ que sobra das importações
+ */
+
+// Nome e prioridade dos jobs de reenriquecimento (no BullMQ, número maior = menor prioridade; importação usa 1)
+export const REENRICHMENT_JOB_NAME = 'reenrich-lead';
+export const REENRICHMENT_JOB_PRIORITY = 10;
+
+// Idade máxima dos dados cadastrais, em dias, por nível de potencial (0 = não reconsultar)
+const DEFAULT_MAX_AGE_DAYS: Record<string, number> = {
+  alto: 90,
+  médio: 180,
+  baixo: 0,
+};
+
+// Variável de ambiente de cada nível (sem acento)
+const MAX_AGE_ENV: Record<string, string> = {
+  alto: 'REENRICHMENT_MAX_AGE_DAYS_ALTO',
+  médio: 'REENRICHMENT_MAX_AGE_DAYS_MEDIO',
+  baixo: 'REENRICHMENT_MAX_AGE_DAYS_BAIXO',
+};
+
+// Jobs de reenriquecimento pendentes no máximo (cada execução da tarefa completa até esse total)
+const DEFAULT_MAX_PENDING = 100;
+
+export interface ReenrichmentPolicy {
+  maxAgeDays: Record<string, number>;
+  maxPending: number;
+}
+
+/**
+ * Política em vigor: REENRICHMENT_MAX_AGE_DAYS_<NÍVEL> e REENRICHMENT_MAX_PENDING, ou os padrões
+ */
+export const getReenrichmentPolicy = (): ReenrichmentPolicy => {
+  const maxAgeDays: Record<string, number> = {};
+  for (const [level, defaultDays] of Object.entries(DEFAULT_MAX_AGE_DAYS)) {
+    const configured = parseInt(process.env[MAX_AGE_ENV[level]] || '', 10);
+    maxAgeDays[level] = configured >= 0 ? configured : defaultDays;
+  }
+
+  const maxPending = parseInt(process.env.REENRICHMENT_MAX_PENDING || '', 10);
+
+  return {
+    maxAgeDays,
+    maxPending: maxPending >= 0 ? maxPending : DEFAULT_MAX_PENDING,
+  };
+};
@@ -5,27 +5,38 @@ import morgan from 'morgan';
 import dotenv from 'dotenv';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
+import { getAdminEmails } from './middleware/authMiddleware';
 import { leadsRoutes, initializeServices } from './routes/leadsRoutes';
 import { healthRoutes } from './routes/healthRoutes';
 import { authRoutes } from './routes/authRoutes';
 import { scoringRoutes } from './routes/scoringRoutes';
 import { sellersRoutes } from './routes/sellersRoutes';
+import { importProfileRoutes } from './routes/importProfileRoutes';
+import { uploadRoutes, initializeUploadServices } from './routes/uploadRoutes';
+import { eventsRoutes } from './routes/eventsRoutes';
+import { queueAdminRoutes, initializeQueueAdminServices } from './routes/queueAdminRoutes';
+import { maintenanceRoutes, initializeMaintenanceServices } from './routes/maintenanceRoutes';
 import { QueueService } from './services/queueService';
 import { ExcelProcessingService } from './services/excelProcessingService';
 import { AddressValidationService } from './services/addressValidationService';
 import { PotentialAnalysisService } from './services/potentialAnalysisService';
+import { MaintenanceService } from './services/maintenanceService';
 
 // Carrega variáveis de ambiente
 dotenv.config();
 
-// Inicializa os serviços globalmente
+// Inicializa os serviços globalmente (a API só enfileira; o processamento fica com o worker, src/worker.ts)
 const queueService = new QueueService();
 const excelProcessingService = new ExcelProcessingService();
 const addressValidationService = new AddressValidationService();
 const potentialAnalysisService = new PotentialAnalysisService();
+const maintenanceService = new MaintenanceService();
 
 // Inicializa os serviços nas rotas
 initializeServices(queueService, excelProcessingService, addressValidationService, potentialAnalysisService);
+initializeUploadServices(queueService);
+initializeQueueAdminServices(queueService);
+initializeMaintenanceServices(maintenanceService);
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -51,6 +62,11 @@ app.use('/api/auth', authRoutes);
 app.use('/api/leads', leadsRoutes);
 app.use('/api/scoring', scoringRoutes);
 app.use('/api/sellers', sellersRoutes);
+app.use('/api/import-profiles', importProfileRoutes);
+app.use('/api/uploads', uploadRoutes);
+app.use('/api/events', eventsRoutes);
+app.use('/api/admin/queue', queueAdminRoutes);
+app.use('/api/admin/maintenance', maintenanceRoutes);
 
 // Middleware de tratamento de erros
 app.use(notFoundHandler);
@@ -61,6 +77,9 @@ app.listen(PORT, () => {
   console.log(`🚀 Servidor rodando na porta ${PORT}`);
   console.log(`📊 Ambiente: ${process.env.NODE_ENV || 'development'}`);
   console.log(`🔗 API disponível em: http://localhost:${PORT}/api`);
+  if (getAdminEmails().length === 0) {
+    console.warn('⚠️ ADMIN_EMAILS não definido: as rotas administrativas (/api/admin) ficam bloqueadas para todos os usuários');
+  }
 });
 
 export default app; 
\ No newline at end of file
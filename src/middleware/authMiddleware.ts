@@ -70,3 +70,32 @@ export const optionalAuth = (req: Request, _res: Response, next: NextFunction):
     next();
   }
 };
+
+/**
+ * E-mails dos administradores, em ADMIN_EMAILS (separados por vírgula)
+ */
+export const getAdminEmails = (): string[] =>
+  (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+/**
+ * Middleware para rotas administrativas (usar depois de authenticateToken)
+ * Só os usuários listados em ADMIN_EMAILS têm acesso; sem a variável, ninguém tem
+ */
+export const requireAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const adminEmails = getAdminEmails();
+  const user = (req as any).user as AuthMiddleware | undefined;
+
+  if (!adminEmails.includes(user?.userEmail?.toLowerCase() || '')) {
+    res.status(403).json({
+      success: false,
+      error: 'Acesso restrito a administradores',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,240 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  ImportProfile,
+  CreateImportProfileRequest,
+  CreateImportProfileColumnRequest,
+  UpdateImportProfileRequest,
+} from '../types/lead';
+import { DATLO_PROFILE_COLUMNS } from '../services/excelProcessingService';
+
+export class ImportProfileRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Cria um novo perfil de importação
+   */
+  async create(data: CreateImportProfileRequest, userId?: string): Promise<ImportProfile> {
+    // Apenas um perfil pode ser o padrão
+    if (data.isDefault) {
+      await this.prisma.importProfile.updateMany({
+        where: { isDefault: true },
+        data: { isDefault: false }
+      });
+    }
+
+    const profile = await this.prisma.importProfile.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        isDefault: data.isDefault || false,
+        createdBy: userId,
+        columns: {
+          create: this.mapColumnsToCreate(data.columns)
+        }
+      },
+      include: {
+        columns: {
+          orderBy: { position: 'asc' }
+        }
+      }
+    });
+
+    return this.mapToImportProfile(profile);
+  }
+
+  /**
+   * Busca todos os perfis de importação
+   */
+  async findAll(): Promise<ImportProfile[]> {
+    const profiles = await this.prisma.importProfile.findMany({
+      include: {
+        columns: {
+          orderBy: { position: 'asc' }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    });
+
+    return profiles.map(profile => this.mapToImportProfile(profile));
+  }
+
+  /**
+   * Busca um perfil específico por ID
+   */
+  async findById(id: string): Promise<ImportProfile | null> {
+    const profile = await this.prisma.importProfile.findUnique({
+      where: { id },
+      include: {
+        columns: {
+          orderBy: { position: 'asc' }
+        }
+      }
+    });
+
+    return profile ? this.mapToImportProfile(profile) : null;
+  }
+
+  /**
+   * Busca um perfil pelo nome
+   */
+  async findByName(name: string): Promise<ImportProfile | null> {
+    const profile = await this.prisma.importProfile.findUnique({
+      where: { name },
+      include: {
+        columns: {
+          orderBy: { position: 'asc' }
+        }
+      }
+    });
+
+    return profile ? this.mapToImportProfile(profile) : null;
+  }
+
+  /**
+   * Busca o perfil padrão
+   */
+  async findDefault(): Promise<ImportProfile | null> {
+    const profile = await this.prisma.importProfile.findFirst({
+      where: { isDefault: true },
+      include: {
+        columns: {
+          orderBy: { position: 'asc' }
+        }
+      }
+    });
+
+    return profile ? this.mapToImportProfile(profile) : null;
+  }
+
+  /**
+   * Atualiza um perfil de importação
+   */
+  async update(id: string, data: UpdateImportProfileRequest): Promise<ImportProfile | null> {
+    const existing = await this.prisma.importProfile.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    // Troca do perfil padrão e substituição das colunas na mesma transação: se a atualização falhar
+    // (ex.: nome duplicado), o perfil continua com as colunas e o padrão anteriores
+    const unsetOtherDefaults = data.isDefault
+      ? [
+          this.prisma.importProfile.updateMany({
+            where: {
+              isDefault: true,
+              id: { not: id }
+            },
+            data: { isDefault: false }
+          })
+        ]
+      : [];
+
+    const [profile] = await this.prisma.$transaction([
+      this.prisma.importProfile.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          isDefault: data.isDefault,
+          ...(data.columns && {
+            columns: {
+              deleteMany: {},
+              create: this.mapColumnsToCreate(data.columns)
+            }
+          })
+        },
+        include: {
+          columns: {
+            orderBy: { position: 'asc' }
+          }
+        }
+      }),
+      ...unsetOtherDefaults,
+    ]);
+
+    return this.mapToImportProfile(profile);
+  }
+
+  /**
+   * Remove um perfil de importação
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.importProfile.delete({
+        where: { id }
+      });
+      return true;
+    } catch (error) {
+      console.error('❌ Erro ao excluir perfil de importação:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Cria o perfil padrão do Datlo se não existir nenhum
+   */
+  async createDefaultProfile(): Promise<ImportProfile> {
+    return this.create({
+      name: 'Datlo',
+      description: 'Exportação padrão do sistema Datlo',
+      isDefault: true,
+      columns: DATLO_PROFILE_COLUMNS,
+    });
+  }
+
+  /**
+   * Prepara as colunas para criação aninhada no Prisma
+   */
+  private mapColumnsToCreate(columns: CreateImportProfileColumnRequest[]) {
+    return columns.map((column, index) => ({
+      field: column.field,
+      aliases: column.aliases,
+      transform: column.transform || 'none',
+      required: column.required || false,
+      position: index,
+    }));
+  }
+
+  /**
+   * Mapeia dados do Prisma para interface TypeScript
+   */
+  private mapToImportProfile(data: any): ImportProfile {
+    return {
+      id: data.id,
+      name: data.name,
+      description: data.description,
+      isDefault: data.isDefault,
+      createdBy: data.createdBy,
+      createdAt: data.createdAt.toISOString(),
+      updatedAt: data.updatedAt.toISOString(),
+      columns: data.columns.map((column: any) => ({
+        id: column.id,
+        profileId: column.profileId,
+        field: column.field,
+        aliases: Array.isArray(column.aliases) ? column.aliases : [],
+        transform: column.transform,
+        required: column.required,
+        position: column.position,
+        createdAt: column.createdAt.toISOString(),
+        updatedAt: column.updatedAt.toISOString(),
+      }))
+    };
+  }
+
+  /**
+   * Fecha conexão com o banco
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
@@ -34,6 +34,8 @@ export class ScoringConfigRepository {
             type: category.type,
             points: category.points,
             description: category.description,
+            cnaeMatch: category.cnaeMatch || 'main',
+            secondaryWeight: category.secondaryWeight ?? null,
             criteria: {
               create: category.criteria.map(criteria => ({
                 name: criteria.name,
@@ -165,6 +167,8 @@ export class ScoringConfigRepository {
               type: category.type,
               points: category.points,
               description: category.description,
+              cnaeMatch: category.cnaeMatch || 'main',
+              secondaryWeight: category.secondaryWeight ?? null,
               criteria: {
                 create: category.criteria.map(criteria => ({
                   name: criteria.name,
@@ -494,6 +498,8 @@ export class ScoringConfigRepository {
         type: category.type,
         points: category.points,
         description: category.description,
+        cnaeMatch: category.cnaeMatch,
+        secondaryWeight: category.secondaryWeight ?? undefined,
         createdAt: category.createdAt.toISOString(),
         updatedAt: category.updatedAt.toISOString(),
         criteria: category.criteria.map((criteria: any) => ({
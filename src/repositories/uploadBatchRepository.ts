@@ -0,0 +1,290 @@
+import { PrismaClient } from '@prisma/client';
+import {
+  UploadBatch,
+  UploadBatchDetails,
+  UploadBatchFilters,
+  UploadBatchStatus,
+  CreateUploadBatchRequest,
+  ImportRowError,
+  UploadRowError,
+} from '../types/lead';
+
+export class UploadBatchRepository {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Registra um novo lote de upload
+   */
+  async create(data: CreateUploadBatchRequest): Promise<UploadBatch> {
+    const batch = await this.prisma.uploadBatch.create({
+      data: {
+        fileName: data.fileName,
+        fileSize: data.fileSize,
+        fileFormat: data.fileFormat,
+        headers: data.headers || [],
+        profileId: data.profileId,
+        profileName: data.profileName,
+        uploadedById: data.uploadedById,
+        reimportMode: data.reimportMode || 'skip',
+        reenqueue: data.reenqueue || false,
+        sheets: data.sheets || [],
+        filePath: data.filePath,
+        idempotencyKey: data.idempotencyKey,
+        requestHash: data.requestHash,
+        status: 'pending',
+      },
+      include: {
+        uploadedBy: {
+          select: { id: true, name: true, email: true }
+        }
+      }
+    });
+
+    return this.mapToUploadBatch(batch);
+  }
+
+  /**
+   * Lista os lotes de upload (mais recentes primeiro) com a situação dos seus leads e jobs
+   */
+  async findAll(filters: UploadBatchFilters = {}): Promise<{ batches: UploadBatchDetails[]; total: number }> {
+    const where: any = {};
+    if (filters.status) where.status = filters.status;
+    if (filters.uploadedById) where.uploadedById = filters.uploadedById;
+
+    const [batches, total] = await Promise.all([
+      this.prisma.uploadBatch.findMany({
+        where,
+        include: {
+          uploadedBy: {
+            select: { id: true, name: true, email: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit || 50,
+        skip: filters.offset || 0,
+      }),
+      this.prisma.uploadBatch.count({ where }),
+    ]);
+
+    const statusCounts = await this.findStatusCounts(batches.map(batch => batch.id));
+
+    return {
+      batches: batches.map(batch => ({
+        ...this.mapToUploadBatch(batch),
+        ...statusCounts(batch.id),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Busca um lote com a situação atual dos seus leads e jobs
+   */
+  async findById(id: string): Promise<UploadBatchDetails | null> {
+    const batch = await this.prisma.uploadBatch.findUnique({
+      where: { id },
+      include: {
+        uploadedBy: {
+          select: { id: true, name: true, email: true }
+        }
+      }
+    });
+
+    if (!batch) {
+      return null;
+    }
+
+    const statusCounts = await this.findStatusCounts([id]);
+
+    return {
+      ...this.mapToUploadBatch(batch),
+      ...statusCounts(id),
+    };
+  }
+
+  /**
+   * Conta os leads e jobs de cada lote por status, em uma consulta para todos os lotes
+   */
+  private async findStatusCounts(
+    ids: string[]
+  ): Promise<(id: string) => Pick<UploadBatchDetails, 'leadStatusCounts' | 'jobStatusCounts'>> {
+    const [leadGroups, jobGroups] = await Promise.all([
+      this.prisma.lead.groupBy({
+        by: ['uploadBatchId', 'status'],
+        where: { uploadBatchId: { in: ids } },
+        _count: { _all: true },
+      }),
+      this.prisma.processingJob.groupBy({
+        by: ['uploadBatchId', 'status'],
+        where: { uploadBatchId: { in: ids } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return (id: string) => ({
+      leadStatusCounts: Object.fromEntries(
+        leadGroups.filter(group => group.uploadBatchId === id).map(group => [group.status, group._count._all])
+      ),
+      jobStatusCounts: Object.fromEntries(
+        jobGroups.filter(group => group.uploadBatchId === id).map(group => [group.status, group._count._all])
+      ),
+    });
+  }
+
+  /**
+   * Busca o lote criado por um envio via API com a chave de idempotência informada
+   */
+  async findByIdempotencyKey(idempotencyKey: string): Promise<{ batch: UploadBatch; requestHash?: string } | null> {
+    const batch = await this.prisma.uploadBatch.findUnique({
+      where: { idempotencyKey },
+      include: {
+        uploadedBy: {
+          select: { id: true, name: true, email: true }
+        }
+      }
+    });
+
+    if (!batch) {
+      return null;
+    }
+
+    return { batch: this.mapToUploadBatch(batch), requestHash: batch.requestHash || undefined };
+  }
+
+  /**
+   * Marca o início do processamento com o total de linhas da planilha
+   * As linhas rejeitadas na leitura já entram como falhas do lote
+   */
+  async markProcessing(id: string, totalRows: number, rejectedRows: number): Promise<void> {
+    await this.prisma.uploadBatch.update({
+      where: { id },
+      data: {
+        status: 'processing',
+        totalRows,
+        failedCount: rejectedRows,
+        startedAt: new Date(),
+      }
+    });
+  }
+
+  /**
+   * Soma linhas rejeitadas na leitura ao contador de falhas (leitura em streaming)
+   */
+  async incrementFailedCount(id: string, count: number): Promise<void> {
+    if (count === 0) {
+      return;
+    }
+
+    await this.prisma.uploadBatch.update({
+      where: { id },
+      data: { failedCount: { increment: count } }
+    });
+  }
+
+  /**
+   * Registra linhas rejeitadas ou ignoradas do lote
+   */
+  async addRowErrors(id: string, errors: ImportRowError[]): Promise<void> {
+    if (errors.length === 0) {
+      return;
+    }
+
+    await this.prisma.uploadRowError.createMany({
+      data: errors.map(error => ({
+        uploadBatchId: id,
+        rowNumber: error.rowNumber,
+        sheetName: error.sheetName,
+        reason: error.reason,
+        message: error.message,
+        values: error.values,
+      }))
+    });
+  }
+
+  /**
+   * Busca as linhas com erro do lote, agrupadas por aba e na ordem da planilha
+   */
+  async findRowErrors(id: string): Promise<UploadRowError[]> {
+    const errors = await this.prisma.uploadRowError.findMany({
+      where: { uploadBatchId: id },
+      orderBy: [{ sheetName: 'asc' }, { rowNumber: 'asc' }]
+    });
+
+    return errors.map(error => ({
+      id: error.id,
+      uploadBatchId: error.uploadBatchId,
+      rowNumber: error.rowNumber,
+      sheetName: error.sheetName || undefined,
+      reason: error.reason as UploadRowError['reason'],
+      message: error.message,
+      values: Array.isArray(error.values) ? (error.values as string[]) : [],
+      createdAt: error.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Lotes ainda pendentes ou em processamento sem atualização desde o limite informado
+   */
+  async findStale(updatedBefore: Date): Promise<Array<{ id: string; filePath: string | null }>> {
+    return await this.prisma.uploadBatch.findMany({
+      where: { status: { in: ['pending', 'processing'] }, updatedAt: { lt: updatedBefore } },
+      select: { id: true, filePath: true },
+    });
+  }
+
+  /**
+   * Finaliza o lote com o status informado
+   */
+  async finish(id: string, status: Extract<UploadBatchStatus, 'completed' | 'failed'>, error?: string): Promise<void> {
+    await this.prisma.uploadBatch.update({
+      where: { id },
+      data: {
+        status,
+        error: error || null,
+        completedAt: new Date(),
+      }
+    });
+  }
+
+  /**
+   * Mapeia dados do Prisma para interface TypeScript
+   */
+  private mapToUploadBatch(data: any): UploadBatch {
+    return {
+      id: data.id,
+      fileName: data.fileName,
+      fileSize: data.fileSize,
+      fileFormat: data.fileFormat || undefined,
+      headers: Array.isArray(data.headers) ? data.headers : [],
+      profileId: data.profileId || undefined,
+      profileName: data.profileName || undefined,
+      uploadedBy: data.uploadedBy || undefined,
+      reimportMode: data.reimportMode,
+      reenqueue: data.reenqueue,
+      sheets: Array.isArray(data.sheets) ? data.sheets : [],
+      idempotencyKey: data.idempotencyKey || undefined,
+      totalRows: data.totalRows,
+      processedRows: data.createdCount + data.updatedCount + data.skippedCount + data.failedCount,
+      createdCount: data.createdCount,
+      updatedCount: data.updatedCount,
+      skippedCount: data.skippedCount,
+      failedCount: data.failedCount,
+      status: data.status,
+      error: data.error || undefined,
+      createdAt: data.createdAt.toISOString(),
+      startedAt: data.startedAt ? data.startedAt.toISOString() : undefined,
+      completedAt: data.completedAt ? data.completedAt.toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Fecha conexão com o banco
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
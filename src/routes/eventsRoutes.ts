@@ -0,0 +1,65 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { ProcessingEventsService } from '../services/processingEventsService';
+import { ProcessingEvent } from '../types/lead';
+
+const router = Router();
+const processingEventsService = new ProcessingEventsService();
+
+// Comentário enviado periodicamente para manter a conexão aberta em proxies
+const HEARTBEAT_INTERVAL = 25000;
+
+// Middleware de autenticação para todas as rotas
+router.use(authenticateToken);
+
+/**
+ * Verifica se o evento interessa ao cliente conforme os filtros da conexão
+ */
+const matchesFilters = (event: ProcessingEvent, filters: { uploadBatchId?: string; leadId?: string }): boolean => {
+  if (filters.uploadBatchId && event.uploadBatchId !== filters.uploadBatchId) {
+    return false;
+  }
+
+  if (filters.leadId && (!('leadId' in event) || event.leadId !== filters.leadId)) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * GET /api/events
+ * Transmite via Server-Sent Events o progresso dos jobs, as mudanças de status dos leads e a situação dos lotes
+ * Query opcional: uploadBatchId e leadId restringem os eventos recebidos
+ */
+router.get('/', (req: Request, res: Response) => {
+  const filters = {
+    uploadBatchId: req.query.uploadBatchId as string | undefined,
+    leadId: req.query.leadId as string | undefined,
+  };
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Desativa o buffer do nginx
+  });
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = processingEventsService.subscribe(event => {
+    if (matchesFilters(event, filters)) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+export { router as eventsRoutes };
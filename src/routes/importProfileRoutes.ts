@@ -0,0 +1,232 @@
+import { Router } from 'express';
+import { ImportProfileService } from '../services/importProfileService';
+import { authenticateToken } from '../middleware/authMiddleware';
+
+const router = Router();
+const importProfileService = new ImportProfileService();
+
+// Middleware de autenticação para todas as rotas
+router.use(authenticateToken);
+
+/**
+ * Verifica se o erro é de nome de perfil duplicado (constraint unique do Prisma)
+ */
+const isDuplicateNameError = (error: unknown): boolean =>
+  error instanceof Error && 'code' in error && (error as any).code === 'P2002';
+
+/**
+ * GET /api/import-profiles
+ * Lista todos os perfis de importação
+ */
+router.get('/', async (_req, res) => {
+  try {
+    const profiles = await importProfileService.getAllProfiles();
+    return res.json({
+      success: true,
+      data: profiles,
+      message: 'Perfis de importação listados com sucesso',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao listar perfis de importação:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/import-profiles/default
+ * Busca o perfil padrão
+ */
+router.get('/default', async (_req, res) => {
+  try {
+    const profile = await importProfileService.getDefaultProfile();
+    return res.json({
+      success: true,
+      data: profile,
+      message: 'Perfil padrão encontrado',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao buscar perfil padrão:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/import-profiles/:id
+ * Busca um perfil específico
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const profile = await importProfileService.getProfile(req.params.id);
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Perfil de importação não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: profile,
+      message: 'Perfil de importação encontrado',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao buscar perfil de importação:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * POST /api/import-profiles
+ * Cria um novo perfil de importação
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { name, description, isDefault, columns } = req.body;
+    const userId = (req as any).user?.userId;
+
+    const validationError = importProfileService.validateProfileData({ name, columns });
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const profile = await importProfileService.createProfile({
+      name: String(name).trim(),
+      description,
+      isDefault,
+      columns
+    }, userId);
+
+    return res.status(201).json({
+      success: true,
+      data: profile,
+      message: 'Perfil de importação criado com sucesso',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (isDuplicateNameError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Já existe um perfil de importação com este nome',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    console.error('Erro ao criar perfil de importação:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * PUT /api/import-profiles/:id
+ * Atualiza um perfil de importação
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { name, description, isDefault, columns } = req.body;
+
+    const validationError = importProfileService.validateProfileData({ name, columns }, true);
+    if (validationError) {
+      return res.status(400).json({
+        success: false,
+        error: validationError,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const profile = await importProfileService.updateProfile(id, {
+      name: name !== undefined ? String(name).trim() : undefined,
+      description,
+      isDefault,
+      columns
+    });
+
+    if (!profile) {
+      return res.status(404).json({
+        success: false,
+        error: 'Perfil de importação não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: profile,
+      message: 'Perfil de importação atualizado com sucesso',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (isDuplicateNameError(error)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Já existe um perfil de importação com este nome',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    console.error('Erro ao atualizar perfil de importação:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * DELETE /api/import-profiles/:id
+ * Remove um perfil de importação
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const success = await importProfileService.deleteProfile(req.params.id);
+
+    if (!success) {
+      return res.status(404).json({
+        success: false,
+        error: 'Perfil de importação não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Perfil de importação removido com sucesso',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao remover perfil de importação:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export { router as importProfileRoutes };
@@ -1,11 +1,39 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
+import fs from 'fs';
+import path from 'path';
 import { PrismaClient } from '@prisma/client';
-import { QueueService } from '../services/queueService';
-import { ExcelProcessingService } from '../services/excelProcessingService';
+import { QueueService, SOURCE_FIELDS, normalizeSourceValue, readUserEditedFields } from '../services/queueService';
+import { ExcelProcessingService, SpreadsheetReadOptions } from '../services/excelProcessingService';
 import { AddressValidationService } from '../services/addressValidationService';
 import { PotentialAnalysisService } from '../services/potentialAnalysisService';
-import { PrismaLead, LeadFilters, ApiResponse } from '../types/lead';
+import { ImportProfileService } from '../services/importProfileService';
+import { UploadBatchService } from '../services/uploadBatchService';
+import { CnpjNormalizationService } from '../services/cnpjNormalizationService';
+import { BulkLeadService, BULK_LEAD_HEADERS } from '../services/bulkLeadService';
+import { ProcessingLogService } from '../services/processingLogService';
+import { LeadContactService } from '../services/leadContactService';
+import { getCnpjApiRequestsPerMinute } from '../services/cnpjApiRateLimiter';
+import { normalizeCnpj, isValidCnpj } from '../utils/cnpj';
+import { optionalAuth } from '../middleware/authMiddleware';
+import {
+  PrismaLead,
+  LeadFilters,
+  ApiResponse,
+  UploadPreview,
+  UploadPreviewRow,
+  ReimportMode,
+  SheetSelection,
+  ImportedRow,
+  BulkLeadFormat,
+  BulkLeadIngestion,
+  ProcessingLogEntry,
+  LeadEnrichmentChange,
+  EnrichmentChanges,
+  CnpjRawRecord,
+  LeadContact,
+  ContactVerificationStatus,
+} from '../types/lead';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -13,6 +41,22 @@ let queueService: QueueService;
 let excelProcessingService: ExcelProcessingService;
 let addressValidationService: AddressValidationService;
 let potentialAnalysisService: PotentialAnalysisService;
+const importProfileService = new ImportProfileService();
+const uploadBatchService = new UploadBatchService();
+const cnpjNormalizationService = new CnpjNormalizationService();
+const bulkLeadService = new BulkLeadService();
+const processingLogService = new ProcessingLogService();
+const leadContactService = new LeadContactService();
+
+// Atividades secundárias e contatos incluídos nas respostas de leads (tabela e mapa), principais primeiro
+const LEAD_INCLUDE = {
+  secondaryCnaes: { select: { code: true, description: true }, orderBy: { code: 'asc' as const } },
+  contacts: { orderBy: [{ isPrimary: 'desc' as const }, { createdAt: 'asc' as const }] },
+};
+
+const CNAE_FILTER_SCOPES = ['main', 'secondary', 'any'];
+
+const CONTACT_VERIFICATION_STATUSES: ContactVerificationStatus[] = ['unverified', 'verified', 'invalid'];
 
 // Função para inicializar os serviços
 export const initializeServices = (
@@ -27,21 +71,224 @@ export const initializeServices = (
   potentialAnalysisService = _potentialAnalysisService;
 };
 
+// Tipos de arquivo aceitos no upload de planilhas (Excel e CSV/TSV)
+const ALLOWED_UPLOAD_MIME_TYPES = [
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
+  'application/vnd.ms-excel', // .xls (o Windows também envia .csv assim)
+  'application/octet-stream', // Alguns sistemas enviam como octet-stream
+  'text/csv',
+  'application/csv',
+  'text/plain',
+  'text/tab-separated-values',
+];
+const ALLOWED_UPLOAD_EXTENSIONS = ['xlsx', 'xls', 'csv', 'tsv', 'txt'];
+
+const isSupportedSpreadsheet = (file: { mimetype: string; originalname: string }): boolean => {
+  const extension = file.originalname.toLowerCase().split('.').pop() || '';
+  return (
+    ALLOWED_UPLOAD_MIME_TYPES.includes(file.mimetype) ||
+    ALLOWED_UPLOAD_EXTENSIONS.includes(extension)
+  );
+};
+
+const REIMPORT_MODES: ReimportMode[] = ['skip', 'fill_empty', 'overwrite'];
+
+/**
+ * Lê a seleção de abas do upload: "all", lista JSON (["SP","RJ"]) ou o nome de uma aba
+ * O campo também pode ser repetido no formulário, uma aba por campo
+ */
+const parseSheetSelection = (value: unknown): SheetSelection | undefined => {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(sheet => String(sheet));
+  }
+
+  const text = String(value).trim();
+  if (text === 'all') {
+    return 'all';
+  }
+
+  if (text.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Seleção de abas inválida. Use "all" ou uma lista JSON com os nomes das abas');
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error('Seleção de abas inválida. Use "all" ou uma lista JSON com os nomes das abas');
+    }
+    return parsed.map(sheet => String(sheet));
+  }
+
+  return [text];
+};
+
+// Quantidade de linhas devolvidas na pré-visualização do upload
+const DEFAULT_PREVIEW_ROWS = 20;
+const MAX_PREVIEW_ROWS = 200;
+
+/**
+ * Monta a pré-visualização do upload sem gravar nada no banco
+ * A planilha é lida em lotes; linhas válidas cujo CNPJ já existe (ou se repete na planilha) são marcadas
+ * como duplicadas e, fora do modo skip, CNPJs já cadastrados aparecem como atualização do lead existente
+ */
+const buildUploadPreview = async (
+  source: string,
+  options: SpreadsheetReadOptions,
+  limit: number,
+  reimportMode: ReimportMode = 'skip'
+): Promise<UploadPreview> => {
+  const seenCnpjs = new Set<string>();
+  const sheetOrder: Array<string | undefined> = [];
+  const previewRows: UploadPreviewRow[] = [];
+  const summary: UploadPreview['summary'] = {
+    totalRows: 0,
+    newLeads: 0,
+    updatedLeads: 0,
+    duplicateRows: 0,
+    rejectedRows: 0,
+    reasons: {},
+  };
+
+  const { headers } = await excelProcessingService.readImportRows(source, options, async ({ rows, rejected }) => {
+    const existingLeads = await prisma.lead.findMany({
+      where: { cnpj: { in: rows.map(row => row.data.CNPJ) } },
+      select: { cnpj: true },
+    });
+    const existingCnpjs = new Set(existingLeads.map(lead => lead.cnpj));
+
+    const batchRows: UploadPreviewRow[] = rejected.map(error => ({
+      rowNumber: error.rowNumber,
+      sheetName: error.sheetName,
+      status: 'rejected',
+      reason: error.reason,
+      message: error.message,
+    }));
+
+    for (const row of rows) {
+      const repeatedInFile = seenCnpjs.has(row.data.CNPJ);
+      seenCnpjs.add(row.data.CNPJ);
+
+      if (repeatedInFile || (existingCnpjs.has(row.data.CNPJ) && reimportMode === 'skip')) {
+        batchRows.push({
+          rowNumber: row.rowNumber,
+          sheetName: row.sheetName,
+          status: 'duplicate',
+          data: row.data,
+          reason: 'duplicate_cnpj',
+          message: `CNPJ ${row.data.CNPJ} já cadastrado ou repetido na planilha`,
+        });
+      } else if (existingCnpjs.has(row.data.CNPJ)) {
+        batchRows.push({
+          rowNumber: row.rowNumber,
+          sheetName: row.sheetName,
+          status: 'update',
+          data: row.data,
+          message: `CNPJ ${row.data.CNPJ} já cadastrado; o lead existente será atualizado`,
+        });
+      } else {
+        batchRows.push({ rowNumber: row.rowNumber, sheetName: row.sheetName, status: 'ok', data: row.data });
+      }
+    }
+
+    // Ordem da planilha: abas na ordem de leitura e linhas dentro de cada aba
+    for (const row of batchRows) {
+      if (!sheetOrder.includes(row.sheetName)) sheetOrder.push(row.sheetName);
+    }
+    batchRows.sort((a, b) =>
+      sheetOrder.indexOf(a.sheetName) - sheetOrder.indexOf(b.sheetName) || a.rowNumber - b.rowNumber
+    );
+
+    for (const row of batchRows) {
+      summary.totalRows++;
+      if (row.status === 'ok') summary.newLeads++;
+      if (row.status === 'update') summary.updatedLeads++;
+      if (row.status === 'duplicate') summary.duplicateRows++;
+      if (row.status === 'rejected') summary.rejectedRows++;
+      if (row.reason) {
+        summary.reasons[row.reason] = (summary.reasons[row.reason] || 0) + 1;
+      }
+    }
+
+    // Só as primeiras linhas ficam em memória; o resto entra apenas no resumo
+    previewRows.push(...batchRows.slice(0, Math.max(limit - previewRows.length, 0)));
+  });
+
+  return { headers, summary, rows: previewRows };
+};
+
+// Ingestão via API: limite de registros por requisição e tipos de conteúdo aceitos como NDJSON
+const BULK_MAX_RECORDS = parseInt(process.env.BULK_MAX_RECORDS || '10000');
+const BULK_QUEUE_BATCH_SIZE = 500;
+const NDJSON_CONTENT_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines'];
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+/**
+ * Enfileira as linhas aceitas de um lote (planilha ou API) e registra as que foram ignoradas ou falharam
+ */
+const enqueueImportedRows = async (
+  uploadBatchId: string,
+  rows: ImportedRow[],
+  options: { reimportMode: ReimportMode; reenqueue: boolean; source?: string }
+) => {
+  const uploadResult = await queueService.addLeadsToQueue(rows.map(row => row.data), {
+    uploadBatchId,
+    ...options,
+    sourceSheets: rows.map(row => row.sheetName),
+  });
+
+  await uploadBatchService.recordRowErrors(
+    uploadBatchId,
+    uploadResult.rowErrors.map(({ index, reason, message }) => ({
+      rowNumber: rows[index].rowNumber,
+      sheetName: rows[index].sheetName,
+      reason,
+      message,
+      values: rows[index].values,
+    }))
+  );
+
+  return uploadResult;
+};
+
+/**
+ * Remove o arquivo temporário do upload
+ */
+const removeUploadedFile = async (filePath?: string): Promise<void> => {
+  if (!filePath) return;
+
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (error) {
+    console.warn(`⚠️ Não foi possível remover o arquivo temporário ${filePath}:`, error);
+  }
+};
+
 // Configuração do multer para upload de arquivos
+// A planilha vai para disco (UPLOAD_PATH) e é lida em streaming, então arquivos grandes não ocupam a memória
+const uploadPath = path.resolve(process.env.UPLOAD_PATH || './uploads');
+fs.mkdirSync(uploadPath, { recursive: true });
+
 const upload = multer({
-  storage: multer.memoryStorage(),
+  storage: multer.diskStorage({
+    destination: uploadPath,
+    filename: (_req, file, cb) => {
+      const extension = path.extname(file.originalname).toLowerCase();
+      cb(null, `${Date.now()}-${Math.round(Math.random() * 1e9)}${extension}`);
+    },
+  }),
   limits: {
-    fileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760'), // 10MB
+    fileSize: parseInt(process.env.MAX_FILE_SIZE || '104857600'), // 100MB
   },
   fileFilter: (_req, file, cb) => {
-    if (
-      file.mimetype ===
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
-      file.mimetype === 'application/vnd.ms-excel'
-    ) {
+    if (isSupportedSpreadsheet(file)) {
       cb(null, true);
     } else {
-      cb(new Error('Apenas arquivos Excel são permitidos'));
+      cb(new Error('Apenas arquivos Excel ou CSV são permitidos'));
     }
   },
 });
@@ -57,6 +304,10 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
       industry: req.query.industry as string,
       dateFrom: req.query.dateFrom as string,
       dateTo: req.query.dateTo as string,
+      uploadBatchId: req.query.uploadBatchId as string,
+      sourceSheet: req.query.sourceSheet as string,
+      cnae: req.query.cnae as string,
+      cnaeScope: req.query.cnaeScope as LeadFilters['cnaeScope'],
       limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
       offset: req.query.offset
         ? parseInt(req.query.offset as string) : undefined,
@@ -70,6 +321,27 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
     if (filters.city) where.validatedCity = { contains: filters.city, mode: 'insensitive' };
     if (filters.state) where.validatedState = { contains: filters.state, mode: 'insensitive' };
     if (filters.industry) where.industry = { contains: filters.industry, mode: 'insensitive' };
+    if (filters.uploadBatchId) where.uploadBatchId = filters.uploadBatchId;
+    if (filters.sourceSheet) where.sourceSheet = filters.sourceSheet;
+
+    // CNAE pelo código ou pelo início dele, no principal, nas atividades secundárias ou em qualquer um
+    if (filters.cnaeScope && !CNAE_FILTER_SCOPES.includes(filters.cnaeScope)) {
+      res.status(400).json({
+        success: false,
+        error: `cnaeScope deve ser um de: ${CNAE_FILTER_SCOPES.join(', ')}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    if (filters.cnae) {
+      const cnae = filters.cnae.replace(/\D/g, '');
+      const mainCnae = { cnae: { startsWith: cnae } };
+      const secondaryCnae = { secondaryCnaes: { some: { code: { startsWith: cnae } } } };
+
+      if (filters.cnaeScope === 'secondary') Object.assign(where, secondaryCnae);
+      else if (filters.cnaeScope === 'any') where.OR = [mainCnae, secondaryCnae];
+      else Object.assign(where, mainCnae);
+    }
     
     if (filters.dateFrom || filters.dateTo) {
       where.createdAt = {};
@@ -82,13 +354,14 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
       take: filters.limit || 1000,
       skip: filters.offset || 0,
       orderBy: { createdAt: 'desc' },
+      include: LEAD_INCLUDE,
     });
 
     const total = await prisma.lead.count({ where });
 
     const response: ApiResponse<PrismaLead[]> = {
       success: true,
-      data: leads,
+      data: leads as PrismaLead[],
       message: `${leads.length} leads encontrados`,
       timestamp: new Date().toISOString(),
     };
@@ -206,18 +479,22 @@ router.get('/processing-stats', async (_req: Request, res: Response): Promise<vo
   }
 });
 
-// GET /api/leads/cnpj-api-status - Status da API de CNPJ
+// GET /api/leads/cnpj-api-status - Status da API de CNPJ (limite de cada provedor, na ordem de consulta)
 router.get('/cnpj-api-status', async (_req: Request, res: Response): Promise<void> => {
   try {
     const rateLimitInfo = await potentialAnalysisService.getCnpjApiRateLimitInfo();
     
     const status = {
-      rateLimit: rateLimitInfo,
-      apiUrl: 'https://open.cnpja.com/office/CNPJ',
-      limit: '5 consultas por minuto',
-      status: rateLimitInfo.isBlocked ? 'Bloqueado' : 'Disponível',
-      remainingQueries: rateLimitInfo.remaining,
-      nextResetIn: rateLimitInfo.resetTime > 0 ? `${Math.ceil(rateLimitInfo.resetTime / 1000)}s` : 'Agora',
+      providers: rateLimitInfo.map(info => ({
+        ...info,
+        limit: `${info.requestsPerMinute} consultas por minuto`,
+        status: info.isBlocked ? 'Bloqueado' : 'Disponível',
+        nextResetIn: info.resetTime > 0 ? `${Math.ceil(info.resetTime / 1000)}s` : 'Agora',
+      })),
+      limit: `${getCnpjApiRequestsPerMinute()} consultas por minuto`,
+      // Bloqueado só quando todos os provedores estão no limite
+      status: rateLimitInfo.every(info => info.isBlocked) ? 'Bloqueado' : 'Disponível',
+      remainingQueries: rateLimitInfo.reduce((total, info) => total + info.remaining, 0),
     };
 
     const response: ApiResponse<typeof status> = {
@@ -239,41 +516,19 @@ router.get('/cnpj-api-status', async (_req: Request, res: Response): Promise<voi
 });
 
 // POST /api/leads/cleanup-duplicates - Remove leads duplicados
+// Compara os CNPJs normalizados (com e sem formatação) e regrava todos só com dígitos
 router.post('/cleanup-duplicates', async (_req: Request, res: Response): Promise<void> => {
   try {
-    // Buscar leads duplicados por CNPJ
-    const duplicates = await prisma.$queryRaw`
-      SELECT cnpj, COUNT(*) as count
-      FROM leads
-      GROUP BY cnpj
-      HAVING COUNT(*) > 1
-    `;
-
-    let duplicatesRemoved = 0;
-    
-    if (Array.isArray(duplicates)) {
-      for (const duplicate of duplicates) {
-        const { cnpj } = duplicate as any;
-        // Manter o primeiro lead e remover os demais
-        const leadsToDelete = await prisma.lead.findMany({
-          where: { cnpj },
-          orderBy: { createdAt: 'asc' },
-          skip: 1,
-        });
-        
-        if (leadsToDelete.length > 0) {
-          await prisma.lead.deleteMany({
-            where: { id: { in: leadsToDelete.map((l: any) => l.id) } },
-          });
-          duplicatesRemoved += leadsToDelete.length;
-        }
-      }
-    }
+    const result = await cnpjNormalizationService.normalizeExistingLeads();
 
-    const response: ApiResponse<{ duplicatesRemoved: number }> = {
+    const response: ApiResponse<{
+      duplicatesRemoved: number;
+      normalized: number;
+      invalidCnpjs: Array<{ id: string; cnpj: string }>;
+    }> = {
       success: true,
-      data: { duplicatesRemoved },
-      message: `Limpeza concluída. ${duplicatesRemoved} leads duplicados removidos.`,
+      data: result,
+      message: `Limpeza concluída. ${result.duplicatesRemoved} leads duplicados removidos, ${result.normalized} CNPJs normalizados.`,
       timestamp: new Date().toISOString(),
     };
 
@@ -288,11 +543,46 @@ router.post('/cleanup-duplicates', async (_req: Request, res: Response): Promise
   }
 });
 
+// POST /api/leads/requeue-enrichment-failures - Reenfileira leads processados sem os dados cadastrais
+// Body opcional: uploadBatchId restringe aos leads de um upload
+router.post('/requeue-enrichment-failures', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const uploadBatchId = typeof req.body?.uploadBatchId === 'string' ? req.body.uploadBatchId : undefined;
+    const result = await queueService.retryFailedLeads({ failure: 'enrichment', uploadBatchId });
+
+    const response: ApiResponse<{ requeued: number }> = {
+      success: true,
+      data: result,
+      message: `${result.requeued} leads sem enriquecimento reenfileirados`,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('❌ Erro ao reenfileirar falhas de enriquecimento:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 // GET /api/leads/cnpj/:cnpj - Busca lead por CNPJ
 router.get('/cnpj/:cnpj', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { cnpj } = req.params;
-    const lead = await prisma.lead.findFirst({
+    // Aceita o CNPJ com ou sem formatação
+    const cnpj = normalizeCnpj(req.params.cnpj);
+    if (!isValidCnpj(cnpj)) {
+      res.status(400).json({
+        success: false,
+        error: `CNPJ inválido: ${req.params.cnpj}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const lead = await prisma.lead.findUnique({
       where: { cnpj },
     });
 
@@ -307,7 +597,7 @@ router.get('/cnpj/:cnpj', async (req: Request, res: Response): Promise<void> =>
 
     const response: ApiResponse<PrismaLead> = {
       success: true,
-      data: lead,
+      data: lead as PrismaLead,
       message: 'Lead encontrado com sucesso',
       timestamp: new Date().toISOString(),
     };
@@ -351,6 +641,8 @@ router.get('/salesforce-webhook', async (_req: Request, res: Response): Promise<
       PostalCode: lead.validatedZipCode || lead.zipCode || '',
       Street: lead.validatedStreet || lead.streetAddress || '',
       Neighborhood: lead.validatedNeighborhood || lead.neighborhood || '',
+      Phone: lead.phone || '',
+      Email: lead.email || '',
       Lead_Score__c: lead.potentialScore || 0,
       Lead_Quality__c: lead.potentialLevel || 'baixo',
       Industry: lead.industry || lead.cnaeDescription || '',
@@ -398,6 +690,7 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
     const lead = await prisma.lead.findUnique({
       where: { id },
+      include: LEAD_INCLUDE,
     });
 
     if (!lead) {
@@ -411,7 +704,7 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
 
     const response: ApiResponse<PrismaLead> = {
       success: true,
-      data: lead,
+      data: lead as PrismaLead,
       message: 'Lead encontrado com sucesso',
       timestamp: new Date().toISOString(),
     };
@@ -427,12 +720,199 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// GET /api/leads/:id/logs - Histórico de processamento do lead (logs do worker, do endereço e da API de CNPJ)
+router.get('/:id/logs', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const lead = await prisma.lead.findUnique({
+      where: { id: req.params.id },
+      select: { id: true },
+    });
+
+    if (!lead) {
+      res.status(404).json({
+        success: false,
+        error: 'Lead não encontrado',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const logs = await processingLogService.findByLead(lead.id);
+
+    const response: ApiResponse<ProcessingLogEntry[]> = {
+      success: true,
+      data: logs,
+      message: `${logs.length} registros de processamento encontrados`,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('❌ Erro ao buscar logs do lead:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// GET /api/leads/:id/enrichment-history - Alterações dos dados cadastrais encontradas nos reenriquecimentos
+router.get('/:id/enrichment-history', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const lead = await prisma.lead.findUnique({
+      where: { id: req.params.id },
+      select: { id: true, enrichedAt: true },
+    });
+
+    if (!lead) {
+      res.status(404).json({
+        success: false,
+        error: 'Lead não encontrado',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const changes = await prisma.leadEnrichmentChange.findMany({
+      where: { leadId: lead.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const response: ApiResponse<{ enrichedAt: string | null; changes: LeadEnrichmentChange[] }> = {
+      success: true,
+      data: {
+        enrichedAt: lead.enrichedAt ? lead.enrichedAt.toISOString() : null,
+        changes: changes.map(change => ({
+          id: change.id,
+          leadId: change.leadId,
+          jobId: change.jobId || undefined,
+          changes: change.changes as EnrichmentChanges,
+          rescored: change.rescored,
+          previousScore: change.previousScore ?? undefined,
+          newScore: change.newScore ?? undefined,
+          previousLevel: change.previousLevel || undefined,
+          newLevel: change.newLevel || undefined,
+          createdAt: change.createdAt.toISOString(),
+        })),
+      },
+      message: `${changes.length} alterações de dados cadastrais encontradas`,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('❌ Erro ao buscar histórico de reenriquecimento do lead:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// GET /api/leads/:id/cnpj-raw - Resposta original do provedor de CNPJ guardada no cache (campos não mapeados incluídos)
+router.get('/:id/cnpj-raw', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const lead = await prisma.lead.findUnique({
+      where: { id: req.params.id },
+      select: { cnpj: true },
+    });
+
+    if (!lead) {
+      res.status(404).json({
+        success: false,
+        error: 'Lead não encontrado',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const rawRecord = await potentialAnalysisService.getCnpjRawRecord(lead.cnpj);
+    if (!rawRecord) {
+      res.status(404).json({
+        success: false,
+        error: `CNPJ ${lead.cnpj} ainda não consultado nos provedores de CNPJ`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const response: ApiResponse<CnpjRawRecord> = {
+      success: true,
+      data: rawRecord,
+      message: `Dados de ${rawRecord.provider} consultados em ${rawRecord.fetchedAt}`,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('❌ Erro ao buscar dados originais do CNPJ do lead:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// PATCH /api/leads/:id/contacts/:contactId - Marca a verificação de um contato ou o define como principal
+router.patch('/:id/contacts/:contactId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { verificationStatus, isPrimary } = req.body || {};
+
+    if (verificationStatus !== undefined && !CONTACT_VERIFICATION_STATUSES.includes(verificationStatus)) {
+      res.status(400).json({
+        success: false,
+        error: `verificationStatus deve ser um de: ${CONTACT_VERIFICATION_STATUSES.join(', ')}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    if (isPrimary !== undefined && typeof isPrimary !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'isPrimary deve ser true ou false',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const contact = await leadContactService.updateContact(req.params.id, req.params.contactId, { verificationStatus, isPrimary });
+    if (!contact) {
+      res.status(404).json({
+        success: false,
+        error: 'Contato não encontrado',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const response: ApiResponse<LeadContact> = {
+      success: true,
+      data: contact,
+      message: 'Contato atualizado com sucesso',
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('❌ Erro ao atualizar contato do lead:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 // GET /api/leads/:id/potential-details - Retorna detalhes da pontuação de potencial
 router.get('/:id/potential-details', async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const lead = await prisma.lead.findUnique({
       where: { id },
+      include: { secondaryCnaes: true },
     });
 
     if (!lead) {
@@ -445,9 +925,10 @@ router.get('/:id/potential-details', async (req: Request, res: Response): Promis
     }
 
     // Busca detalhes da pontuação usando o serviço centralizado
-    const potentialDetails = potentialAnalysisService.getPotentialScoreDetails({
+    const potentialDetails = await potentialAnalysisService.getPotentialScoreDetails({
       cnpj: lead.cnpj,
       cnae: lead.cnae || undefined,
+      secondaryCnaes: lead.secondaryCnaes.map(activity => ({ code: activity.code, description: activity.description || '' })),
       capitalSocial: lead.capitalSocial || undefined,
       region: lead.validatedState || undefined,
       foundationDate: lead.foundationDate ? lead.foundationDate.toISOString() : undefined,
@@ -479,6 +960,17 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
   try {
     const leadData = req.body;
 
+    // CNPJ é gravado só com dígitos e precisa ter dígitos verificadores válidos
+    if (!isValidCnpj(leadData.cnpj)) {
+      res.status(400).json({
+        success: false,
+        error: `CNPJ inválido: ${leadData.cnpj ?? '(não informado)'}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    leadData.cnpj = normalizeCnpj(leadData.cnpj);
+
     // Valida endereço se fornecido
     if (leadData.address) {
       leadData.address = await addressValidationService.validateAddress(
@@ -516,8 +1008,14 @@ router.post('/', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
-// POST /api/leads/upload - Upload e processamento de planilha do Datlo
-router.post('/upload', upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+// POST /api/leads/upload - Upload e processamento de planilha do Datlo (Excel ou CSV)
+// Com preview=true apenas valida e devolve a pré-visualização, sem criar leads ou jobs
+// reimportMode (skip | fill_empty | overwrite) e reenqueue definem o tratamento de CNPJs já cadastrados
+// sheets escolhe as abas de planilhas Excel ("all" ou lista de nomes; padrão: a primeira aba)
+// O arquivo temporário é removido ao final da requisição ou, na importação, ao final do processamento em background
+router.post('/upload', optionalAuth, upload.single('file'), async (req: Request, res: Response): Promise<void> => {
+  let processingInBackground = false;
+
   try {
     // Verifica se o arquivo foi enviado
     if (!req.file) {
@@ -529,17 +1027,11 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       return;
     }
 
-    // Verifica se é um arquivo Excel válido
-    const allowedMimeTypes = [
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // .xlsx
-      'application/vnd.ms-excel', // .xls
-      'application/octet-stream' // Alguns sistemas enviam como octet-stream
-    ];
-
-    if (!allowedMimeTypes.includes(req.file.mimetype)) {
+    // Verifica se é um arquivo Excel ou CSV válido
+    if (!isSupportedSpreadsheet(req.file)) {
       res.status(400).json({
         success: false,
-        error: `Tipo de arquivo não suportado: ${req.file.mimetype}. Apenas arquivos Excel (.xlsx, .xls) são aceitos.`,
+        error: `Tipo de arquivo não suportado: ${req.file.mimetype}. Apenas arquivos Excel (.xlsx, .xls) ou CSV (.csv, .tsv) são aceitos.`,
         timestamp: new Date().toISOString(),
       });
       return;
@@ -548,24 +1040,121 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
     console.log(`📁 Arquivo recebido: ${req.file.originalname} (${req.file.size} bytes)`);
     console.log(`📋 Tipo MIME: ${req.file.mimetype}`);
 
+    // Perfil de importação (mapeamento de colunas) escolhido no upload ou o padrão
+    const profileId = req.body?.profileId as string | undefined;
+    const profile = profileId
+      ? await importProfileService.getProfile(profileId)
+      : await importProfileService.getDefaultProfile();
+
+    if (!profile) {
+      res.status(400).json({
+        success: false,
+        error: `Perfil de importação não encontrado: ${profileId}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    console.log(`🗂️ Perfil de importação: ${profile.name}`);
+
+    // Modo de reimportação para CNPJs já cadastrados
+    const reimportMode = (req.body?.reimportMode || 'skip') as ReimportMode;
+    if (!REIMPORT_MODES.includes(reimportMode)) {
+      res.status(400).json({
+        success: false,
+        error: `Modo de reimportação inválido. Use: ${REIMPORT_MODES.join(', ')}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    const reenqueue = reimportMode !== 'skip' && String(req.body?.reenqueue ?? '') === 'true';
+    const sheets = parseSheetSelection(req.body?.sheets);
+
     // VALIDAÇÃO RÁPIDA DO FORMATO (sem processar dados)
-    const formatValidation = await excelProcessingService.validateExcelFormat(req.file.buffer);
+    const formatValidation = await excelProcessingService.validateExcelFormat(req.file.path, {
+      fileName: req.file.originalname,
+      columns: profile.columns,
+      sheets,
+    });
     
     if (!formatValidation.isValid) {
       res.status(400).json({
         success: false,
         error: `Formato da planilha inválido: ${formatValidation.error}`,
+        sheets: formatValidation.sheets,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // Daqui em diante a leitura usa exatamente as abas validadas, sem analisar o arquivo de novo
+    const { selectedSheets, analysis } = formatValidation;
+    const importedSheets = formatValidation.format === 'excel' ? selectedSheets : [];
+
+    // PRÉ-VISUALIZAÇÃO (dry-run): valida as linhas e responde sem gravar nada
+    const isPreview = String(req.query.preview ?? req.body?.preview ?? '') === 'true';
+    if (isPreview) {
+      const requestedRows = parseInt(String(req.query.previewRows ?? req.body?.previewRows ?? DEFAULT_PREVIEW_ROWS));
+      const previewRowsLimit = Math.min(
+        Math.max(isNaN(requestedRows) ? DEFAULT_PREVIEW_ROWS : requestedRows, 1),
+        MAX_PREVIEW_ROWS
+      );
+
+      const preview = await buildUploadPreview(
+        req.file.path,
+        { fileName: req.file.originalname, columns: profile.columns, sheets: selectedSheets, analysis },
+        previewRowsLimit,
+        reimportMode
+      );
+
+      console.log(`🔎 Pré-visualização de ${req.file.originalname}: ${preview.summary.newLeads} novos, ${preview.summary.updatedLeads} atualizados, ${preview.summary.duplicateRows} duplicados, ${preview.summary.rejectedRows} rejeitados`);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          fileName: req.file.originalname,
+          fileSize: req.file.size,
+          fileFormat: formatValidation.format,
+          profile: { id: profile.id, name: profile.name },
+          reimportMode,
+          reenqueue,
+          sheets: formatValidation.sheets,
+          selectedSheets: importedSheets,
+          ...preview,
+        },
+        message: 'Pré-visualização gerada. Nenhum lead foi criado.',
         timestamp: new Date().toISOString(),
       });
       return;
     }
 
+    // Registra o lote para acompanhamento do processamento
+    const uploadBatch = await uploadBatchService.createBatch({
+      fileName: req.file.originalname,
+      fileSize: req.file.size,
+      fileFormat: formatValidation.format,
+      headers: formatValidation.headers.map(header => String(header ?? '').trim()),
+      profileId: profile.id,
+      profileName: profile.name,
+      uploadedById: (req as any).user?.userId,
+      reimportMode,
+      reenqueue,
+      sheets: importedSheets,
+      filePath: req.file.path,
+    });
+
     // RESPOSTA IMEDIATA - Planilha aceita e será processada
     const immediateResponse: ApiResponse<any> = {
       success: true,
       data: {
+        uploadBatchId: uploadBatch.id,
         fileName: req.file.originalname,
         fileSize: req.file.size,
+        fileFormat: formatValidation.format,
+        profile: { id: profile.id, name: profile.name },
+        reimportMode,
+        reenqueue,
+        sheets: importedSheets,
         estimatedLeads: formatValidation.estimatedLeads,
         status: 'aceita',
         message: 'Planilha aceita e será processada em background',
@@ -579,30 +1168,59 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
     res.status(202).json(immediateResponse);
 
     // PROCESSAMENTO EM BACKGROUND (não bloqueia a resposta)
+    // A planilha é lida em lotes e cada lote vai para a fila antes do próximo ser lido
+    const uploadedFile = req.file;
+    processingInBackground = true;
+
     setImmediate(async () => {
       try {
-        const fileName = req.file!.originalname;
-        const fileBuffer = req.file!.buffer;
+        const fileName = uploadedFile.originalname;
         
         console.log(`🚀 Iniciando processamento em background para: ${fileName}`);
-        
-        // Processa a planilha para extrair dados
-        const rawData = await excelProcessingService.extractExcelData(fileBuffer);
-        
-        if (!rawData || rawData.length === 0) {
+
+        const totalRows = formatValidation.estimatedLeads;
+        await uploadBatchService.startProcessing(uploadBatch.id, totalRows);
+
+        const totals = { created: 0, updated: 0, skipped: 0, failed: 0 };
+        let processedRows = 0;
+
+        const { acceptedRows, rejectedRows } = await excelProcessingService.readImportRows(
+          uploadedFile.path,
+          { fileName, columns: profile.columns, sheets: selectedSheets, analysis },
+          async ({ rows, rejected }) => {
+            // Linhas inválidas vão direto para o relatório de erros
+            await uploadBatchService.recordRejectedRows(uploadBatch.id, rejected);
+
+            const uploadResult = await enqueueImportedRows(uploadBatch.id, rows, { reimportMode, reenqueue });
+
+            totals.created += uploadResult.created;
+            totals.updated += uploadResult.updated;
+            totals.skipped += uploadResult.skipped;
+            totals.failed += uploadResult.failed + rejected.length;
+            processedRows += rows.length + rejected.length;
+
+            const progress = totalRows > 0 ? Math.round((processedRows / totalRows) * 100) : 100;
+            console.log(`📈 Upload ${uploadBatch.id}: ${processedRows}/${totalRows} linhas (${progress}%)`);
+          }
+        );
+
+        if (acceptedRows === 0 && rejectedRows === 0) {
           console.warn(`⚠️ Nenhum dado válido encontrado na planilha: ${fileName}`);
+          await uploadBatchService.failBatch(uploadBatch.id, 'Nenhum dado válido encontrado na planilha');
           return;
         }
 
-        console.log(`📊 ${rawData.length} leads extraídos da planilha: ${fileName}`);
-
-        // Adiciona leads à fila de processamento
-        const uploadResult = await queueService.addLeadsToQueue(rawData);
+        await uploadBatchService.completeBatch(uploadBatch.id);
 
-        console.log(`✅ Processamento em background concluído: ${uploadResult.created} leads criados, ${uploadResult.skipped} duplicados`);
+        console.log(`✅ Processamento em background concluído: ${totals.created} leads criados, ${totals.updated} atualizados, ${totals.skipped} ignorados, ${totals.failed} com erro`);
         
       } catch (error) {
         console.error(`❌ Erro no processamento em background:`, error);
+        await uploadBatchService
+          .failBatch(uploadBatch.id, error instanceof Error ? error.message : 'Erro desconhecido')
+          .catch(batchError => console.error(`❌ Erro ao registrar falha do lote ${uploadBatch.id}:`, batchError));
+      } finally {
+        await removeUploadedFile(uploadedFile.path);
       }
     });
 
@@ -624,6 +1242,191 @@ router.post('/upload', upload.single('file'), async (req: Request, res: Response
       error: `Erro ao processar planilha: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
       timestamp: new Date().toISOString(),
     });
+  } finally {
+    if (!processingInBackground) {
+      await removeUploadedFile(req.file?.path);
+    }
+  }
+});
+
+// POST /api/leads/bulk - Ingestão de leads via API (array JSON ou NDJSON, um lead por linha)
+// Os registros passam pelas mesmas validações e pelo mesmo enfileiramento do upload de planilha
+// Com o cabeçalho Idempotency-Key, reenvios com a mesma chave devolvem o lote original sem criar leads de novo
+// reimportMode e reenqueue (query string) funcionam como no upload
+router.post('/bulk', optionalAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const idempotencyKey = req.header('Idempotency-Key')?.trim() || undefined;
+    if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Idempotency-Key deve ter no máximo ${MAX_IDEMPOTENCY_KEY_LENGTH} caracteres`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const reimportMode = (req.query.reimportMode || 'skip') as ReimportMode;
+    if (!REIMPORT_MODES.includes(reimportMode)) {
+      res.status(400).json({
+        success: false,
+        error: `Modo de reimportação inválido. Use: ${REIMPORT_MODES.join(', ')}`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+    const reenqueue = reimportMode !== 'skip' && String(req.query.reenqueue ?? '') === 'true';
+
+    // JSON chega convertido pelo express.json; NDJSON é lido aqui, linha a linha
+    const isNdjson = Boolean(req.is(NDJSON_CONTENT_TYPES));
+    if (!isNdjson && !Array.isArray(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: 'Envie um array JSON de leads (Content-Type: application/json) ou NDJSON com um lead por linha (Content-Type: application/x-ndjson)',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const parsed = isNdjson
+      ? await bulkLeadService.parseNdjson(req, BULK_MAX_RECORDS)
+      : bulkLeadService.parseJson(req.body, BULK_MAX_RECORDS);
+
+    if (parsed.exceeded) {
+      res.status(413).json({
+        success: false,
+        error: `Limite de ${BULK_MAX_RECORDS} leads por requisição excedido. Divida o envio em partes menores.`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (parsed.records.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Nenhum lead enviado',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // Reenvio com a mesma chave: devolve o resultado do envio original
+    if (idempotencyKey) {
+      const previous = await uploadBatchService.findByIdempotencyKey(idempotencyKey);
+
+      if (previous) {
+        if (previous.requestHash !== parsed.hash) {
+          res.status(409).json({
+            success: false,
+            error: 'Idempotency-Key já usada em um envio com outro conteúdo',
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        const results = bulkLeadService.rebuildResults(
+          previous.batch.totalRows,
+          await uploadBatchService.getRowErrors(previous.batch.id)
+        );
+        const rejectedCount = results.filter(result => result.status === 'rejected').length;
+
+        const replayResponse: ApiResponse<BulkLeadIngestion> = {
+          success: true,
+          data: {
+            uploadBatchId: previous.batch.id,
+            format: (previous.batch.fileFormat || parsed.format) as BulkLeadFormat,
+            total: results.length,
+            accepted: results.length - rejectedCount,
+            rejected: rejectedCount,
+            replayed: true,
+            results,
+          },
+          message: 'Envio já recebido com esta Idempotency-Key. Nenhum lead foi criado novamente.',
+          timestamp: new Date().toISOString(),
+        };
+
+        res.status(200).json(replayResponse);
+        return;
+      }
+    }
+
+    const { rows, rejected, results } = bulkLeadService.validateRecords(parsed.records);
+
+    let uploadBatch;
+    try {
+      uploadBatch = await uploadBatchService.createBatch({
+        fileName: `api-bulk-${new Date().toISOString().replace(/[:.]/g, '-')}.${parsed.format}`,
+        fileSize: parsed.size,
+        fileFormat: parsed.format,
+        headers: BULK_LEAD_HEADERS,
+        uploadedById: (req as any).user?.userId,
+        reimportMode,
+        reenqueue,
+        idempotencyKey,
+        requestHash: parsed.hash,
+      });
+    } catch (error) {
+      // Dois envios simultâneos com a mesma chave: só o primeiro cria o lote
+      if ((error as any)?.code === 'P2002') {
+        res.status(409).json({
+          success: false,
+          error: 'Já existe um envio em andamento com esta Idempotency-Key',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+      throw error;
+    }
+
+    // Registros rejeitados entram no lote antes da resposta, para que um reenvio devolva o mesmo resultado
+    await uploadBatchService.startProcessing(uploadBatch.id, parsed.records.length, rejected);
+
+    console.log(`📥 Ingestão via API (${parsed.format}): ${rows.length} leads aceitos, ${rejected.length} rejeitados (lote ${uploadBatch.id})`);
+
+    const response: ApiResponse<BulkLeadIngestion> = {
+      success: true,
+      data: {
+        uploadBatchId: uploadBatch.id,
+        format: parsed.format,
+        total: parsed.records.length,
+        accepted: rows.length,
+        rejected: rejected.length,
+        replayed: false,
+        results,
+      },
+      message: `${rows.length} leads aceitos e ${rejected.length} rejeitados. Acompanhe o processamento em /api/uploads/${uploadBatch.id}.`,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(202).json(response);
+
+    // ENFILEIRAMENTO EM BACKGROUND, no mesmo caminho do upload de planilha
+    const batchId = uploadBatch.id;
+    setImmediate(async () => {
+      try {
+        for (let start = 0; start < rows.length; start += BULK_QUEUE_BATCH_SIZE) {
+          await enqueueImportedRows(batchId, rows.slice(start, start + BULK_QUEUE_BATCH_SIZE), {
+            reimportMode,
+            reenqueue,
+            source: 'api',
+          });
+        }
+
+        await uploadBatchService.completeBatch(batchId);
+        console.log(`✅ Ingestão via API concluída (lote ${batchId})`);
+      } catch (error) {
+        console.error(`❌ Erro no enfileiramento da ingestão via API:`, error);
+        await uploadBatchService
+          .failBatch(batchId, error instanceof Error ? error.message : 'Erro desconhecido')
+          .catch(batchError => console.error(`❌ Erro ao registrar falha do lote ${batchId}:`, batchError));
+      }
+    });
+  } catch (error) {
+    console.error('❌ Erro na ingestão de leads via API:', error);
+    res.status(400).json({
+      success: false,
+      error: `Erro na ingestão de leads: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+      timestamp: new Date().toISOString(),
+    });
   }
 });
 
@@ -741,6 +1544,22 @@ router.put('/:id', async (req: Request, res: Response): Promise<void> => {
         );
     }
 
+    // Campos da planilha alterados pelo usuário ficam protegidos da reimportação com overwrite
+    // (o mesmo valor em outro formato, como CEP com hífen, não conta como edição)
+    const currentLead = await prisma.lead.findUnique({ where: { id } });
+    if (currentLead) {
+      const previousEdits = readUserEditedFields(currentLead.userEditedFields);
+      const editedFields = SOURCE_FIELDS.filter(
+        field =>
+          validUpdates[field] !== undefined &&
+          !previousEdits.includes(field) &&
+          normalizeSourceValue(field, validUpdates[field]) !== normalizeSourceValue(field, currentLead[field])
+      );
+      if (editedFields.length > 0) {
+        validUpdates.userEditedFields = [...previousEdits, ...editedFields];
+      }
+    }
+
     const updatedLead = await prisma.lead.update({
       where: { id },
       data: validUpdates,
@@ -893,6 +1712,7 @@ router.post('/:id/recalculate-confidence', async (req: Request, res: Response):
     const { id } = req.params;
     const lead = await prisma.lead.findUnique({
       where: { id },
+      include: { secondaryCnaes: true },
     });
 
     if (!lead) {
@@ -905,9 +1725,10 @@ router.post('/:id/recalculate-confidence', async (req: Request, res: Response):
     }
 
     // Recalcula confiança usando o serviço centralizado
-    const potentialDetails = potentialAnalysisService.getPotentialScoreDetails({
+    const potentialDetails = await potentialAnalysisService.getPotentialScoreDetails({
       cnpj: lead.cnpj,
       cnae: lead.cnae || undefined,
+      secondaryCnaes: lead.secondaryCnaes.map(activity => ({ code: activity.code, description: activity.description || '' })),
       capitalSocial: lead.capitalSocial || undefined,
       region: lead.validatedState || undefined,
       foundationDate: lead.foundationDate ? lead.foundationDate.toISOString() : undefined,
@@ -943,4 +1764,88 @@ router.post('/:id/recalculate-confidence', async (req: Request, res: Response):
   }
 });
 
+// POST /api/leads/:id/retry - Reenfileira um lead que terminou com erro ou sem enriquecimento
+router.post('/:id/retry', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await queueService.retryLead(req.params.id);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: 'Lead não encontrado',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!result.requeued) {
+      res.status(409).json({
+        success: false,
+        error: `Lead já está na fila de processamento (status: ${result.status})`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const response: ApiResponse<{ leadId: string; status: string }> = {
+      success: true,
+      data: { leadId: req.params.id, status: result.status },
+      message: 'Lead reenfileirado para processamento',
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('❌ Erro ao reenfileirar lead:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
+// POST /api/leads/:id/cancel - Cancela os jobs pendentes de um lead
+router.post('/:id/cancel', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const lead = await prisma.lead.findUnique({ where: { id: req.params.id } });
+
+    if (!lead) {
+      res.status(404).json({
+        success: false,
+        error: 'Lead não encontrado',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const result = await queueService.cancelPendingJobs({ leadId: lead.id });
+
+    if (result.cancelled === 0) {
+      res.status(409).json({
+        success: false,
+        error: result.skipped > 0 ? 'Lead já está em processamento' : 'Lead não tem jobs pendentes',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const response: ApiResponse<{ cancelled: number; skipped: number }> = {
+      success: true,
+      data: result,
+      message: 'Processamento do lead cancelado',
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('❌ Erro ao cancelar processamento do lead:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString(),
+    });
+  }
+});
+
 export { router as leadsRoutes };
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import { MaintenanceService, MAINTENANCE_TASKS } from '../services/maintenanceService';
+import { authenticateToken, requireAdmin } from '../middleware/authMiddleware';
+import { MaintenanceTaskName } from '../types/lead';
+
+const router = Router();
+let maintenanceService: MaintenanceService;
+
+export const initializeMaintenanceServices = (_maintenanceService: MaintenanceService) => {
+  maintenanceService = _maintenanceService;
+};
+
+const MAX_RUNS_PER_PAGE = 200;
+
+// Rotas administrativas: autenticação + e-mail em ADMIN_EMAILS
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * GET /api/admin/maintenance
+ * Tarefas de manutenção agendadas: agendamento (cron), próxima execução e resultado da última
+ */
+router.get('/', async (_req, res) => {
+  try {
+    const tasks = await maintenanceService.getStatus();
+
+    return res.json({
+      success: true,
+      data: tasks,
+      message: `${tasks.filter(task => task.enabled).length} tarefas de manutenção agendadas`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao consultar a manutenção agendada:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/admin/maintenance/runs
+ * Histórico das execuções (mais recentes primeiro)
+ * Query: task, limit
+ */
+router.get('/runs', async (req, res) => {
+  try {
+    const task = req.query.task as MaintenanceTaskName | undefined;
+    if (task && !(task in MAINTENANCE_TASKS)) {
+      return res.status(400).json({
+        success: false,
+        error: `Tarefa inválida. Use: ${Object.keys(MAINTENANCE_TASKS).join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const limit = Math.min(MAX_RUNS_PER_PAGE, Math.max(1, parseInt(req.query.limit as string) || 50));
+    const runs = await maintenanceService.getRuns(task, limit);
+
+    return res.json({
+      success: true,
+      data: runs,
+      message: `${runs.length} execuções encontradas`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao listar execuções de manutenção:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export { router as maintenanceRoutes };
@@ -0,0 +1,248 @@
+import { Router } from 'express';
+import { QueueService } from '../services/queueService';
+import { authenticateToken, requireAdmin } from '../middleware/authMiddleware';
+import { FailureClass, QueueJobState } from '../types/lead';
+import { FAILURE_CLASSES } from '../utils/failureClassification';
+import { MAX_WORKER_CONCURRENCY } from '../config/queue';
+
+const router = Router();
+let queueService: QueueService;
+
+// Recebe a fila compartilhada da aplicação
+export const initializeQueueAdminServices = (_queueService: QueueService) => {
+  queueService = _queueService;
+};
+
+const QUEUE_JOB_STATES: QueueJobState[] = ['waiting', 'active', 'failed', 'delayed'];
+const MAX_JOBS_PER_PAGE = 200;
+
+// Rotas administrativas: autenticação + e-mail em ADMIN_EMAILS
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * GET /api/admin/queue
+ * Situação da fila: pausada ou não, workers conectados, concorrência e jobs por estado
+ */
+router.get('/', async (_req, res) => {
+  try {
+    const status = await queueService.getQueueStatus();
+
+    return res.json({
+      success: true,
+      data: status,
+      message: status.paused ? 'Fila pausada' : 'Fila em execução',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao consultar a fila:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * POST /api/admin/queue/pause
+ * Pausa a fila (os jobs em andamento terminam normalmente)
+ */
+router.post('/pause', async (_req, res) => {
+  try {
+    await queueService.pauseQueue();
+
+    return res.json({
+      success: true,
+      data: await queueService.getQueueStatus(),
+      message: 'Fila pausada',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao pausar a fila:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * POST /api/admin/queue/resume
+ * Retoma a fila pausada
+ */
+router.post('/resume', async (_req, res) => {
+  try {
+    await queueService.resumeQueue();
+
+    return res.json({
+      success: true,
+      data: await queueService.getQueueStatus(),
+      message: 'Fila retomada',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao retomar a fila:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * POST /api/admin/queue/drain
+ * Remove os jobs aguardando e agendados; os leads removidos ficam com status erro para reprocessar depois
+ */
+router.post('/drain', async (_req, res) => {
+  try {
+    const result = await queueService.drainQueue();
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `${result.removed} jobs removidos da fila`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao esvaziar a fila:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * PUT /api/admin/queue/concurrency
+ * Altera quantos leads cada worker processa em paralelo (os workers em execução aplicam na hora)
+ * Body: { concurrency: number }
+ */
+router.put('/concurrency', async (req, res) => {
+  try {
+    const concurrency = Number(req.body?.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_WORKER_CONCURRENCY) {
+      return res.status(400).json({
+        success: false,
+        error: `Concorrência deve ser um inteiro entre 1 e ${MAX_WORKER_CONCURRENCY}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    await queueService.setConcurrency(concurrency);
+
+    return res.json({
+      success: true,
+      data: { concurrency },
+      message: `Concorrência alterada para ${concurrency}`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao alterar a concorrência:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/admin/queue/jobs
+ * Lista os jobs de um estado com o payload completo
+ * Query: state (waiting, active, failed, delayed), offset, limit
+ */
+router.get('/jobs', async (req, res) => {
+  try {
+    const state = (req.query.state as QueueJobState | undefined) || 'waiting';
+    if (!QUEUE_JOB_STATES.includes(state)) {
+      return res.status(400).json({
+        success: false,
+        error: `Estado inválido. Use: ${QUEUE_JOB_STATES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const offset = Math.max(0, parseInt(req.query.offset as string) || 0);
+    const limit = Math.min(MAX_JOBS_PER_PAGE, Math.max(1, parseInt(req.query.limit as string) || 50));
+    const jobs = await queueService.getJobs(state, offset, limit);
+
+    return res.json({
+      success: true,
+      data: jobs,
+      message: `${jobs.length} jobs encontrados`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao listar jobs da fila:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/admin/queue/failures
+ * Relatório das falhas agrupadas por classe, com a ação indicada (wait, fix_data, file_bug)
+ */
+router.get('/failures', async (_req, res) => {
+  try {
+    const report = await queueService.getFailureReport();
+
+    return res.json({
+      success: true,
+      data: report,
+      message: `${report.deadLetterTotal} jobs na dead-letter`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao gerar relatório de falhas:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/admin/queue/dead-letter
+ * Lista os jobs da dead-letter com o contexto completo (dados do lead, passos, erro e stacktrace)
+ * Query: failureClass, offset, limit
+ */
+router.get('/dead-letter', async (req, res) => {
+  try {
+    const failureClass = req.query.failureClass as FailureClass | undefined;
+    if (failureClass && !FAILURE_CLASSES.includes(failureClass)) {
+      return res.status(400).json({
+        success: false,
+        error: `Classe de falha inválida. Use: ${FAILURE_CLASSES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const offset = Math.max(0, parseInt(req.query.offset as string) || 0);
+    const limit = Math.min(MAX_JOBS_PER_PAGE, Math.max(1, parseInt(req.query.limit as string) || 50));
+    const result = await queueService.getDeadLetterJobs({ failureClass, offset, limit });
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `${result.total} jobs na dead-letter`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao listar a dead-letter:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export { router as queueAdminRoutes };
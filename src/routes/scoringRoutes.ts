@@ -5,6 +5,27 @@ import { authenticateToken } from '../middleware/authMiddleware';
 const router = Router();
 const scoringService = new ConfigurableScoringService();
 
+const CNAE_MATCH_MODES = ['main', 'any', 'weighted'];
+
+/**
+ * Valida as opções de atividades secundárias das categorias (mensagem de erro ou null)
+ */
+const validateCnaeMatchOptions = (categories: any[] | undefined): string | null => {
+  for (const category of categories || []) {
+    if (category.cnaeMatch !== undefined && !CNAE_MATCH_MODES.includes(category.cnaeMatch)) {
+      return `cnaeMatch deve ser um de: ${CNAE_MATCH_MODES.join(', ')}`;
+    }
+    if (
+      category.secondaryWeight !== undefined &&
+      category.secondaryWeight !== null &&
+      (typeof category.secondaryWeight !== 'number' || category.secondaryWeight < 0 || category.secondaryWeight > 1)
+    ) {
+      return 'secondaryWeight deve ser um número entre 0 e 1';
+    }
+  }
+  return null;
+};
+
 // Middleware de autenticação para todas as rotas
 router.use(authenticateToken);
 
@@ -104,6 +125,15 @@ router.post('/configs', async (req, res) => {
       });
     }
 
+    const cnaeMatchError = validateCnaeMatchOptions(categories);
+    if (cnaeMatchError) {
+      return res.status(400).json({
+        success: false,
+        error: cnaeMatchError,
+        timestamp: new Date().toISOString()
+      });
+    }
+
     const config = await scoringService.createConfig({
       name,
       description,
@@ -135,6 +165,15 @@ router.put('/configs/:id', async (req, res) => {
     const { id } = req.params;
     const { name, description, isActive, categories } = req.body;
 
+    const cnaeMatchError = validateCnaeMatchOptions(categories);
+    if (cnaeMatchError) {
+      return res.status(400).json({
+        success: false,
+        error: cnaeMatchError,
+        timestamp: new Date().toISOString()
+      });
+    }
+
     const config = await scoringService.updateConfig(id, {
       name,
       description,
@@ -0,0 +1,236 @@
+import { Router } from 'express';
+import { UploadBatchService } from '../services/uploadBatchService';
+import { QueueService } from '../services/queueService';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { UploadBatchFilters, UploadBatchStatus } from '../types/lead';
+
+const router = Router();
+const uploadBatchService = new UploadBatchService();
+let queueService: QueueService;
+
+// Recebe a fila compartilhada da aplicação
+export const initializeUploadServices = (_queueService: QueueService) => {
+  queueService = _queueService;
+};
+
+const UPLOAD_BATCH_STATUSES: UploadBatchStatus[] = ['pending', 'processing', 'completed', 'failed'];
+
+// Middleware de autenticação para todas as rotas
+router.use(authenticateToken);
+
+/**
+ * GET /api/uploads
+ * Lista os lotes de upload (mais recentes primeiro)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const status = req.query.status as UploadBatchStatus | undefined;
+    if (status && !UPLOAD_BATCH_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status inválido. Use: ${UPLOAD_BATCH_STATUSES.join(', ')}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const filters: UploadBatchFilters = {
+      status,
+      uploadedById: req.query.uploadedBy as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+    };
+
+    const { batches, total } = await uploadBatchService.listBatches(filters);
+
+    res.setHeader('X-Total-Count', total.toString());
+    return res.json({
+      success: true,
+      data: batches,
+      message: `${batches.length} uploads encontrados`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao listar uploads:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/uploads/:id
+ * Busca um lote de upload com a situação dos leads e jobs
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const batch = await uploadBatchService.getBatch(req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: batch,
+      message: 'Upload encontrado',
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao buscar upload:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/uploads/:id/errors
+ * Lista as linhas rejeitadas ou ignoradas do upload
+ */
+router.get('/:id/errors', async (req, res) => {
+  try {
+    const batch = await uploadBatchService.getBatch(req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const errors = await uploadBatchService.getRowErrors(batch.id);
+
+    return res.json({
+      success: true,
+      data: {
+        headers: batch.headers,
+        errors,
+      },
+      message: `${errors.length} linhas com erro encontradas`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao buscar linhas com erro do upload:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * GET /api/uploads/:id/errors/download
+ * Baixa a planilha anotada com as linhas com erro, pronta para correção e reenvio
+ */
+router.get('/:id/errors/download', async (req, res) => {
+  try {
+    const report = await uploadBatchService.buildErrorReport(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(report.fileName)}`
+    );
+    res.setHeader('Content-Length', report.buffer.length.toString());
+
+    return res.status(200).send(report.buffer);
+  } catch (error) {
+    console.error('Erro ao gerar relatório de erros do upload:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * POST /api/uploads/:id/retry-failed
+ * Reenfileira os leads do upload que terminaram com erro
+ */
+router.post('/:id/retry-failed', async (req, res) => {
+  try {
+    const batch = await uploadBatchService.getBatch(req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await queueService.retryFailedLeads({ failure: 'error', uploadBatchId: batch.id });
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `${result.requeued} leads com erro reenfileirados`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao reenfileirar leads com erro do upload:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * POST /api/uploads/:id/cancel
+ * Cancela os jobs do upload que ainda aguardam na fila
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const batch = await uploadBatchService.getBatch(req.params.id);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Upload não encontrado',
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    const result = await queueService.cancelPendingJobs({ uploadBatchId: batch.id });
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `${result.cancelled} jobs pendentes cancelados`,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Erro ao cancelar jobs pendentes do upload:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Erro interno do servidor',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export { router as uploadRoutes };
@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import { ReceitaFederalImportService } from '../services/receitaFederalImportService';
+
+dotenv.config();
+
+/**
+ * Importa os Dados Abertos CNPJ da Receita Federal (arquivos já descompactados) para o provedor de CNPJ "receita"
+ * Uso: npm run db:import-receita -- <pasta ou arquivo> [--uf=SP,RJ] [--replace]
+ */
+const run = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const source = args.find(arg => !arg.startsWith('--'));
+  const states = args.find(arg => arg.startsWith('--uf='))?.slice('--uf='.length).split(',').map(state => state.trim()).filter(Boolean);
+  const replace = args.includes('--replace');
+
+  if (!source) {
+    console.error('❌ Informe a pasta com os arquivos: npm run db:import-receita -- <pasta> [--uf=SP,RJ] [--replace]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const service = new ReceitaFederalImportService();
+
+  try {
+    console.log(`🚀 Importando Dados Abertos CNPJ de ${source}${states?.length ? ` (UFs: ${states.join(', ')})` : ''}...`);
+    const summaries = await service.importPath(source, { states, replace });
+
+    if (summaries.length === 0) {
+      console.warn('⚠️ Nenhum arquivo dos Dados Abertos CNPJ encontrado');
+      return;
+    }
+
+    const imported = summaries.reduce((total, summary) => total + summary.imported, 0);
+    console.log(`🎉 Importação concluída: ${summaries.length} arquivos, ${imported} registros`);
+  } catch (error) {
+    console.error('❌ Erro ao importar Dados Abertos CNPJ:', error);
+    process.exitCode = 1;
+  } finally {
+    await service.close();
+  }
+};
+
+run();
@@ -0,0 +1,31 @@
+import dotenv from 'dotenv';
+import { CnpjNormalizationService } from '../services/cnpjNormalizationService';
+
+dotenv.config();
+
+/**
+ * Migração de dados: regrava os CNPJs existentes só com dígitos e unifica leads duplicados
+ * Uso: npm run db:normalize-cnpjs (ou node dist/scripts/normalizeCnpjs.js após o build)
+ */
+const run = async (): Promise<void> => {
+  const service = new CnpjNormalizationService();
+
+  try {
+    console.log('🚀 Normalizando CNPJs dos leads existentes...');
+    const result = await service.normalizeExistingLeads();
+
+    if (result.invalidCnpjs.length > 0) {
+      console.warn(`⚠️ ${result.invalidCnpjs.length} leads com CNPJ inválido (revise manualmente):`);
+      for (const { id, cnpj } of result.invalidCnpjs) {
+        console.warn(`   - ${id}: ${cnpj}`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Erro ao normalizar CNPJs:', error);
+    process.exitCode = 1;
+  } finally {
+    await service.close();
+  }
+};
+
+run();
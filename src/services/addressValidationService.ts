@@ -1,11 +1,13 @@
 import axios from 'axios';
 import { PrismaClient } from '@prisma/client';
-import { Address } from '../types/lead';
+import { Address, ProcessingLogContext } from '../types/lead';
+import { ProcessingLogService } from './processingLogService';
 
 export class AddressValidationService {
   private readonly viaCepBaseUrl: string;
   private readonly googleMapsApiKey: string | undefined;
   private prisma: PrismaClient;
+  private processingLogService: ProcessingLogService;
   private lastRequestTime: number = 0;
   private readonly minRequestInterval: number = 1000; // 1 segundo entre requisições
 
@@ -14,12 +16,14 @@ export class AddressValidationService {
       process.env.VIACEP_BASE_URL || 'https://viacep.com.br/ws';
     this.googleMapsApiKey = process.env.GOOGLE_MAPS_API_KEY;
     this.prisma = new PrismaClient();
+    this.processingLogService = new ProcessingLogService();
   }
 
   /**
    * Valida e corrige um endereço usando ViaCEP com rate limiting
+   * Com logContext, o resultado da validação fica registrado nos logs de processamento do lead
    */
-  async validateAddress(address: Partial<Address>): Promise<Address> {
+  async validateAddress(address: Partial<Address>, logContext?: ProcessingLogContext): Promise<Address> {
     try {
       if (!address.zipCode) {
         throw new Error('CEP é obrigatório para validação');
@@ -45,6 +49,9 @@ export class AddressValidationService {
       });
       if (cachedCep) {
         console.log(`📋 CEP ${address.zipCode} encontrado no cache do banco`);
+        if (logContext) {
+          await this.processingLogService.info('CEP encontrado no cache', logContext, { cep: address.zipCode });
+        }
         return this.buildAddressFromCep(cachedCep.data, address);
       }
 
@@ -53,6 +60,17 @@ export class AddressValidationService {
 
       // Busca informações do CEP
       const cepInfo = await this.getCepInfo(address.zipCode);
+      if (logContext) {
+        if (cepInfo) {
+          await this.processingLogService.info('CEP validado no ViaCEP', logContext, {
+            cep: address.zipCode,
+            city: cepInfo.localidade,
+            state: cepInfo.uf,
+          });
+        } else {
+          await this.processingLogService.warn('CEP não encontrado no ViaCEP', logContext, { cep: address.zipCode });
+        }
+      }
 
       // Busca coordenadas se tiver API key do Google
       let coordinates: { latitude: number; longitude: number } | undefined;
@@ -67,6 +85,12 @@ export class AddressValidationService {
       
       // Fallback: usa dados fornecidos sem validação
       console.log(`⚠️ Usando dados fornecidos como fallback para CEP ${address.zipCode}`);
+      if (logContext) {
+        await this.processingLogService.warn('Endereço não validado; usando os dados da planilha', logContext, {
+          cep: address.zipCode,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
       return this.buildAddressFromFallback(address);
     }
   }
@@ -354,21 +378,18 @@ export class AddressValidationService {
   }
 
   /**
-   * Limpa o cache de CEPs expirados
+   * Limpa o cache de CEPs expirados (tarefa de manutenção clear_address_cache)
    */
-  async clearExpiredCache(): Promise<void> {
-    try {
-      const deleted = await this.prisma.cepCache.deleteMany({
-        where: {
-          expiresAt: {
-            lt: new Date(),
-          },
+  async clearExpiredCache(): Promise<number> {
+    const deleted = await this.prisma.cepCache.deleteMany({
+      where: {
+        expiresAt: {
+          lt: new Date(),
         },
-      });
-      console.log(`🧹 ${deleted.count} CEPs expirados removidos do cache`);
-    } catch (error) {
-      console.error('Erro ao limpar cache expirado:', error);
-    }
+      },
+    });
+    console.log(`🧹 ${deleted.count} CEPs expirados removidos do cache`);
+    return deleted.count;
   }
 
   /**
@@ -392,5 +413,11 @@ export class AddressValidationService {
     }
   }
 
-
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+    await this.processingLogService.close();
+  }
 }
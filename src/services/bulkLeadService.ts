@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { ExcelProcessingService, DATLO_FIELDS } from './excelProcessingService';
+import {
+  BulkLeadFormat,
+  BulkLeadResult,
+  ImportedRow,
+  ImportRowError,
+  LeadContactData,
+} from '../types/lead';
+
+// Campos de contato aceitos além dos campos da planilha do Datlo
+export const BULK_CONTACT_FIELDS: Array<keyof LeadContactData> = ['Email', 'Telefone', 'Site'];
+
+// Cabeçalhos dos lotes criados pela API (ordem dos valores no relatório de erros)
+export const BULK_LEAD_HEADERS: string[] = [...DATLO_FIELDS, ...BULK_CONTACT_FIELDS];
+
+// Registro recebido: o objeto lido ou o erro de leitura da linha NDJSON
+interface ParsedBulkRecord {
+  record?: unknown;
+  error?: string;
+}
+
+export interface ParsedBulkRequest {
+  format: BulkLeadFormat;
+  records: ParsedBulkRecord[];
+  size: number; // Bytes recebidos
+  hash: string; // SHA-256 do conteúdo, usado na verificação da chave de idempotência
+  exceeded: boolean; // Mais registros que o limite permitido
+}
+
+export class BulkLeadService {
+  private excelProcessingService: ExcelProcessingService;
+
+  constructor() {
+    this.excelProcessingService = new ExcelProcessingService();
+  }
+
+  /**
+   * Lê um array JSON já convertido pelo express.json
+   */
+  parseJson(body: unknown, maxRecords: number): ParsedBulkRequest {
+    const content = JSON.stringify(body);
+    const records = Array.isArray(body) ? body : [];
+
+    return {
+      format: 'json',
+      records: records.slice(0, maxRecords).map(record => ({ record })),
+      size: Buffer.byteLength(content),
+      hash: this.hash(content),
+      exceeded: records.length > maxRecords,
+    };
+  }
+
+  /**
+   * Lê um corpo NDJSON (um lead por linha) em streaming
+   * Linhas que não são JSON válido viram registros rejeitados, sem interromper a leitura
+   */
+  async parseNdjson(input: Readable, maxRecords: number): Promise<ParsedBulkRequest> {
+    const records: ParsedBulkRecord[] = [];
+    const hash = crypto.createHash('sha256');
+    let size = 0;
+    let exceeded = false;
+
+    const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      size += Buffer.byteLength(line) + 1;
+      const content = line.trim();
+      if (!content) continue;
+
+      if (records.length >= maxRecords) {
+        exceeded = true;
+        break;
+      }
+
+      hash.update(`${content}\n`);
+
+      try {
+        records.push({ record: JSON.parse(content) });
+      } catch (error) {
+        records.push({ error: `JSON inválido: ${error instanceof Error ? error.message : 'Erro desconhecido'}` });
+      }
+    }
+
+    lines.close();
+
+    return { format: 'ndjson', records, size, hash: hash.digest('hex'), exceeded };
+  }
+
+  /**
+   * Valida os registros com as mesmas regras das linhas de planilha
+   * Os registros aceitos seguem no formato de ImportedRow para o mesmo caminho de enfileiramento do upload;
+   * rowNumber é a posição do registro no envio (1 = primeiro)
+   */
+  validateRecords(records: ParsedBulkRequest['records']): {
+    rows: ImportedRow[];
+    rejected: ImportRowError[];
+    results: BulkLeadResult[];
+  } {
+    const rows: ImportedRow[] = [];
+    const rejected: ImportRowError[] = [];
+    const results: BulkLeadResult[] = [];
+
+    records.forEach(({ record, error }, index) => {
+      const rowNumber = index + 1;
+
+      if (error || !record || typeof record !== 'object' || Array.isArray(record)) {
+        const message = error || 'Registro deve ser um objeto JSON';
+        rejected.push({ rowNumber, reason: 'parse_error', message, values: [] });
+        results.push({ index, status: 'rejected', reason: 'parse_error', message });
+        return;
+      }
+
+      const contact = this.extractContact(record as Record<string, unknown>);
+      const imported = this.excelProcessingService.importRecord(record as Record<string, unknown>);
+      const values = [...imported.values, ...BULK_CONTACT_FIELDS.map(field => contact[field] || '')];
+
+      if (imported.error || !imported.data) {
+        const rowError = imported.error || { reason: 'parse_error' as const, message: 'Registro inválido' };
+        rejected.push({ rowNumber, ...rowError, values });
+        results.push({ index, status: 'rejected', ...rowError });
+        return;
+      }
+
+      // Os dados de contato seguem junto dos campos da planilha até a criação do lead
+      rows.push({ rowNumber, data: { ...imported.data, ...contact }, values });
+      results.push({ index, status: 'accepted' });
+    });
+
+    return { rows, rejected, results };
+  }
+
+  /**
+   * Reconstrói o resultado por registro de um envio já processado a partir das linhas rejeitadas do lote
+   */
+  rebuildResults(total: number, rejected: ImportRowError[]): BulkLeadResult[] {
+    const rejectedByRow = new Map(
+      rejected
+        .filter(error => error.reason !== 'duplicate_cnpj' && error.reason !== 'processing_error')
+        .map(error => [error.rowNumber, error])
+    );
+
+    return Array.from({ length: total }, (_value, index) => {
+      const error = rejectedByRow.get(index + 1);
+      return error
+        ? { index, status: 'rejected' as const, reason: error.reason, message: error.message }
+        : { index, status: 'accepted' as const };
+    });
+  }
+
+  /**
+   * Lê os dados de contato do registro (nome do campo sem diferenciar maiúsculas)
+   */
+  private extractContact(record: Record<string, unknown>): LeadContactData {
+    const contact: LeadContactData = {};
+
+    for (const [key, value] of Object.entries(record)) {
+      const field = BULK_CONTACT_FIELDS.find(contactField => contactField.toLowerCase() === key.trim().toLowerCase());
+      const text = String(value ?? '').trim();
+      if (field && text) {
+        contact[field] = field === 'Email' ? text.toLowerCase() : text;
+      }
+    }
+
+    return contact;
+  }
+
+  /**
+   * Gera o SHA-256 do conteúdo
+   */
+  private hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
@@ -1,78 +1,91 @@
-import { RateLimiterRedis } from 'rate-limiter-flexible';
+import { RateLimiterRedis, RateLimiterRes } from 'rate-limiter-flexible';
 import Redis from 'ioredis';
+import { CnpjProviderName } from '../types/lead';
+import { CnpjProviderSettings, getCnpjProviderSettings } from './cnpjProviders';
+
+/**
+ * Orçamento total da API de CNPJ (soma dos limites dos provedores), compartilhado com o limitador da fila de
+ * processamento de leads
+ */
+export const getCnpjApiRequestsPerMinute = (): number =>
+  getCnpjProviderSettings().reduce((total, provider) => total + provider.requestsPerMinute, 0);
 
 export class CnpjApiRateLimiter {
-  private rateLimiter: RateLimiterRedis;
+  private rateLimiters: Map<CnpjProviderName, RateLimiterRedis>;
+  private providers: CnpjProviderSettings[];
   private redis: Redis;
 
-  constructor() {
+  constructor(providers: CnpjProviderSettings[] = getCnpjProviderSettings()) {
     this.redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
-    
-    // Limite: 4 consultas por minuto (mais conservador)
-    this.rateLimiter = new RateLimiterRedis({
-      storeClient: this.redis,
-      keyPrefix: 'cnpj_api_rate_limit',
-      points: 4, // 4 consultas (reduzido de 5 para 4)
-      duration: 60, // por minuto
-      blockDuration: 120, // bloquear por 2 minutos se exceder (aumentado de 1 para 2)
-    });
+    this.providers = providers;
+
+    // Limite de cada provedor: CNPJ_PROVIDER_<NOME>_REQUESTS_PER_MINUTE consultas por minuto, contadas no Redis
+    // (vale para todos os workers juntos)
+    this.rateLimiters = new Map(
+      providers.map(provider => [
+        provider.name,
+        new RateLimiterRedis({
+          storeClient: this.redis,
+          keyPrefix: `cnpj_api_rate_limit:${provider.name}`,
+          points: provider.requestsPerMinute,
+          duration: 60, // por minuto
+          blockDuration: 120, // bloquear por 2 minutos se exceder (aumentado de 1 para 2)
+        }),
+      ])
+    );
   }
 
   /**
-   * Verifica se pode fazer consulta à API
+   * Reserva uma consulta ao provedor: devolve 0 quando liberada ou os milissegundos até o limite liberar
    */
-  async canMakeRequest(): Promise<boolean> {
+  async consume(provider: CnpjProviderName): Promise<number> {
+    const rateLimiter = this.rateLimiters.get(provider);
+    if (!rateLimiter) {
+      return 0;
+    }
+
     try {
-      await this.rateLimiter.consume('global');
-      return true;
+      await rateLimiter.consume('global');
+      return 0;
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Too Many Requests')) {
-        return false;
+      if (error instanceof RateLimiterRes) {
+        return Math.max(error.msBeforeNext, 1000);
       }
-      // Se for outro erro, permite a consulta
-      return true;
+      // Se for outro erro (ex.: Redis indisponível), permite a consulta
+      return 0;
     }
   }
 
   /**
-   * Aguarda até poder fazer uma consulta
+   * Obtém informações sobre o limite atual de cada provedor
    */
-  async waitForAvailability(): Promise<void> {
-    while (!(await this.canMakeRequest())) {
-      console.log('⏳ Rate limit atingido, aguardando 60 segundos...');
-      await new Promise(resolve => setTimeout(resolve, 60000)); // 60 segundos
-    }
-  }
-
-  /**
-   * Obtém informações sobre o rate limit atual
-   */
-  async getRateLimitInfo(): Promise<{
+  async getRateLimitInfo(): Promise<Array<{
+    provider: CnpjProviderName;
+    requestsPerMinute: number;
     remaining: number;
     resetTime: number;
     isBlocked: boolean;
-  }> {
-    try {
-      const res = await this.rateLimiter.get('global');
-      if (res) {
-        return {
-          remaining: res.remainingPoints,
-          resetTime: res.msBeforeNext,
-          isBlocked: res.msBeforeNext > 0 && res.remainingPoints === 0,
-        };
-      }
-      return {
-        remaining: 0,
-        resetTime: 0,
-        isBlocked: true,
-      };
-    } catch (error) {
-      return {
-        remaining: 0,
-        resetTime: 0,
-        isBlocked: true,
-      };
-    }
+  }>> {
+    return Promise.all(
+      this.providers.map(async ({ name, requestsPerMinute }) => {
+        try {
+          const res = await this.rateLimiters.get(name)!.get('global');
+          if (res) {
+            return {
+              provider: name,
+              requestsPerMinute,
+              remaining: res.remainingPoints,
+              resetTime: res.msBeforeNext,
+              isBlocked: res.msBeforeNext > 0 && res.remainingPoints === 0,
+            };
+          }
+          // Nenhuma consulta na janela atual
+          return { provider: name, requestsPerMinute, remaining: requestsPerMinute, resetTime: 0, isBlocked: false };
+        } catch (error) {
+          return { provider: name, requestsPerMinute, remaining: 0, resetTime: 0, isBlocked: true };
+        }
+      })
+    );
   }
 
   /**
@@ -0,0 +1,89 @@
+import { PrismaClient } from '@prisma/client';
+import { normalizeCnpj, isValidCnpj } from '../utils/cnpj';
+
+export interface CnpjNormalizationResult {
+  normalized: number; // Leads cujo CNPJ foi regravado só com dígitos
+  duplicatesRemoved: number; // Leads removidos por terem o mesmo CNPJ de outro
+  invalidCnpjs: Array<{ id: string; cnpj: string }>; // CNPJs que não passam nos dígitos verificadores
+}
+
+export class CnpjNormalizationService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Normaliza os CNPJs gravados e remove leads duplicados
+   * Leads com o mesmo CNPJ (com ou sem formatação) são unificados no mais antigo,
+   * que herda as visitas de rota e as observações dos removidos
+   */
+  async normalizeExistingLeads(): Promise<CnpjNormalizationResult> {
+    const leads = await this.prisma.lead.findMany({
+      select: { id: true, cnpj: true, userNotes: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // Agrupar pelo CNPJ normalizado
+    const groups = new Map<string, typeof leads>();
+    for (const lead of leads) {
+      const key = normalizeCnpj(lead.cnpj);
+      if (!key) continue;
+      groups.set(key, [...(groups.get(key) || []), lead]);
+    }
+
+    const result: CnpjNormalizationResult = { normalized: 0, duplicatesRemoved: 0, invalidCnpjs: [] };
+
+    for (const [cnpj, group] of groups) {
+      const [keep, ...duplicates] = group;
+
+      if (duplicates.length > 0) {
+        const duplicateIds = duplicates.map(lead => lead.id);
+
+        // Visitas de rota não têm exclusão em cascata, então passam para o lead mantido
+        await this.prisma.routeVisit.updateMany({
+          where: { leadId: { in: duplicateIds } },
+          data: { leadId: keep.id },
+        });
+
+        const notes = [keep.userNotes, ...duplicates.map(lead => lead.userNotes)].filter(Boolean);
+        if (notes.length > 1 || (!keep.userNotes && notes.length === 1)) {
+          await this.prisma.lead.update({
+            where: { id: keep.id },
+            data: { userNotes: notes.join('\n\n') },
+          });
+        }
+
+        await this.prisma.lead.deleteMany({
+          where: { id: { in: duplicateIds } },
+        });
+
+        result.duplicatesRemoved += duplicates.length;
+        console.log(`🧹 CNPJ ${cnpj}: ${duplicates.length} leads duplicados unificados em ${keep.id}`);
+      }
+
+      if (keep.cnpj !== cnpj) {
+        await this.prisma.lead.update({
+          where: { id: keep.id },
+          data: { cnpj },
+        });
+        result.normalized++;
+      }
+
+      if (!isValidCnpj(cnpj)) {
+        result.invalidCnpjs.push({ id: keep.id, cnpj });
+      }
+    }
+
+    console.log(`✅ CNPJs normalizados: ${result.normalized}, duplicados removidos: ${result.duplicatesRemoved}, inválidos: ${result.invalidCnpjs.length}`);
+    return result;
+  }
+
+  /**
+   * Fecha conexão com o banco
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
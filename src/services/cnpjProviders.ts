@@ -0,0 +1,515 @@
+import fs from 'fs';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { CnaeActivity, CnpjProviderName, CompanyContact, CompanyData, ContactType } from '../types/lead';
+import { createClassifiedError } from '../utils/failureClassification';
+
+/**
+ * Provedores de dados cadastrais por CNPJ, consultados em ordem de prioridade pelo PotentialAnalysisService
+ * Cada provedor faz uma consulta e devolve o status HTTP e, com sucesso, os dados no formato CompanyData;
+ * tentativas, limite de consultas e fallback para o próximo provedor ficam com o serviço
+ */
+
+// Dados cadastrais devolvidos pelo provedor; região e segmento de mercado são calculados pelo serviço
+export type CnpjProviderRecord = Omit<CompanyData, 'region' | 'marketSegment'> & { state?: string };
+
+export interface CnpjProviderResponse {
+  status: number; // Status HTTP da resposta (200, 404, 429, 5xx...)
+  record?: CnpjProviderRecord;
+  raw?: unknown; // Resposta original do provedor
+}
+
+export interface CnpjProvider {
+  name: CnpjProviderName;
+  // Consulta um CNPJ (só dígitos); erros de rede são lançados; null = provedor sem resposta para o CNPJ
+  lookup(cnpj: string): Promise<CnpjProviderResponse | null>;
+  close?(): Promise<void>;
+}
+
+export interface CnpjProviderSettings {
+  name: CnpjProviderName;
+  requestsPerMinute: number;
+  timeoutMs: number; // Tempo máximo de espera pela resposta das APIs HTTP
+}
+
+// Ordem padrão de consulta e limite padrão de cada provedor (consultas por minuto, abaixo do limite da API gratuita)
+const DEFAULT_PROVIDERS: CnpjProviderName[] = ['cnpja', 'brasilapi', 'receitaws'];
+
+const DEFAULT_REQUESTS_PER_MINUTE: Record<CnpjProviderName, number> = {
+  cnpja: 4,
+  brasilapi: 10,
+  receitaws: 3,
+  receita: 1000, // Consulta local às tabelas dos Dados Abertos CNPJ
+  fixture: 600,
+};
+
+// Tempo máximo padrão de espera pela resposta de um provedor HTTP; sem resposta, a consulta segue para o próximo
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const USER_AGENT = 'CocoLitoraneoLeads/1.0';
+
+/**
+ * Provedores em uso, na ordem de prioridade: CNPJ_PROVIDERS (ex.: "brasilapi,cnpja") e limite de cada um em
+ * CNPJ_PROVIDER_<NOME>_REQUESTS_PER_MINUTE; CNPJ_API_REQUESTS_PER_MINUTE continua valendo para a CNPJA
+ * O tempo máximo de resposta de cada um fica em CNPJ_PROVIDER_<NOME>_TIMEOUT_MS
+ */
+export const getCnpjProviderSettings = (): CnpjProviderSettings[] => {
+  const configured = (process.env.CNPJ_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = configured.filter(name => !(name in DEFAULT_REQUESTS_PER_MINUTE));
+  if (unknown.length > 0) {
+    console.warn(`⚠️ Provedores de CNPJ desconhecidos ignorados: ${unknown.join(', ')}`);
+  }
+
+  const names = configured.filter(name => name in DEFAULT_REQUESTS_PER_MINUTE) as CnpjProviderName[];
+
+  return [...new Set(names.length > 0 ? names : DEFAULT_PROVIDERS)].map(name => {
+    const configuredLimit = parseInt(
+      process.env[`CNPJ_PROVIDER_${name.toUpperCase()}_REQUESTS_PER_MINUTE`] ||
+        (name === 'cnpja' ? process.env.CNPJ_API_REQUESTS_PER_MINUTE || '' : ''),
+      10
+    );
+
+    const configuredTimeout = parseInt(process.env[`CNPJ_PROVIDER_${name.toUpperCase()}_TIMEOUT_MS`] || '', 10);
+
+    return {
+      name,
+      requestsPerMinute: configuredLimit > 0 ? configuredLimit : DEFAULT_REQUESTS_PER_MINUTE[name],
+      timeoutMs: configuredTimeout > 0 ? configuredTimeout : DEFAULT_TIMEOUT_MS,
+    };
+  });
+};
+
+/**
+ * Cria os provedores configurados, na ordem de prioridade
+ */
+export const createCnpjProviders = (settings: CnpjProviderSettings[] = getCnpjProviderSettings()): CnpjProvider[] =>
+  settings.map(({ name, timeoutMs }) => {
+    switch (name) {
+      case 'cnpja':
+        return new CnpjaProvider(timeoutMs);
+      case 'brasilapi':
+        return new BrasilApiProvider(timeoutMs);
+      case 'receitaws':
+        return new ReceitaWsProvider(timeoutMs);
+      case 'receita':
+        return new ReceitaFederalProvider();
+      case 'fixture':
+        return new FixtureCnpjProvider();
+    }
+  });
+
+/**
+ * Situação cadastral no mesmo formato para todos os provedores (ex.: "ATIVA" -> "Ativa")
+ */
+const formatRegistrationStatus = (status: string | null | undefined): string | undefined =>
+  status ? status.charAt(0).toUpperCase() + status.slice(1).toLowerCase() : undefined;
+
+/**
+ * CNAE só com dígitos (a ReceitaWS usa "10.91-1-01")
+ */
+const formatCnae = (cnae: string | number | null | undefined): string => (cnae ? String(cnae).replace(/\D/g, '') : '');
+
+/**
+ * Atividades secundárias sem as vazias ("0", "00.00-0-00 Não informada") e sem repetições
+ */
+const secondaryActivities = (activities: Array<{ code: string | number | null | undefined; description?: string | null }>): CnaeActivity[] => {
+  const unique = new Map<string, CnaeActivity>();
+  for (const activity of activities) {
+    const code = formatCnae(activity.code);
+    if (code && !/^0+$/.test(code) && !unique.has(code)) {
+      unique.set(code, { code, description: activity.description || '' });
+    }
+  }
+  return [...unique.values()];
+};
+
+/**
+ * Telefone só com dígitos; sem tipo informado, celular é o número com 9 dígitos começando por 9
+ */
+const phoneContact = (value: string | null | undefined, type?: ContactType): CompanyContact | null => {
+  const digits = (value || '').replace(/\D/g, '');
+  if (!digits) return null;
+
+  return { channel: 'phone', type: type || (/^\d{2}9\d{8}$/.test(digits) ? 'mobile' : 'landline'), value: digits };
+};
+
+const emailContact = (value: string | null | undefined, type: ContactType = 'unknown'): CompanyContact | null =>
+  value && value.trim() ? { channel: 'email', type, value: value.trim().toLowerCase() } : null;
+
+/**
+ * Contatos sem vazios e sem repetições (mesmo canal e valor)
+ */
+const compactContacts = (contacts: Array<CompanyContact | null>): CompanyContact[] => {
+  const unique = new Map<string, CompanyContact>();
+  for (const contact of contacts) {
+    if (contact && !unique.has(`${contact.channel}|${contact.value}`)) {
+      unique.set(`${contact.channel}|${contact.value}`, contact);
+    }
+  }
+  return [...unique.values()];
+};
+
+/**
+ * GET com resposta JSON; sem resposta dentro de timeoutMs, a consulta é abortada com erro de rede,
+ * para o serviço seguir para o próximo provedor
+ */
+const fetchJson = async (url: string, timeoutMs: number): Promise<{ status: number; body: any }> => {
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': USER_AGENT,
+      },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    return { status: response.status, body: response.ok ? await response.json() : null };
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw createClassifiedError('network', `Provedor sem resposta em ${timeoutMs}ms (${new URL(url).host})`);
+    }
+    throw error;
+  }
+};
+
+// Resposta da API CNPJA (https://open.cnpja.com/office/{cnpj}), só com os campos usados
+interface CnpjaApiResponse {
+  taxId: string;
+  alias: string | null;
+  founded: string;
+  company: {
+    members: Array<{
+      person: { name: string; taxId: string };
+      role: { id: number; text: string };
+    }>;
+    name: string;
+    equity: number;
+  };
+  status: { id: number; text: string };
+  address: { state: string };
+  mainActivity: { id: number; text: string };
+  sideActivities: Array<{ id: number; text: string }>;
+  phones: Array<{ type: 'LANDLINE' | 'MOBILE'; area: string; number: string }>;
+  emails: Array<{ ownership: 'CORPORATE' | 'PERSONAL' | 'ACCOUNTING'; address: string; domain: string }>;
+}
+
+const CNPJA_PHONE_TYPES: Record<string, ContactType> = { LANDLINE: 'landline', MOBILE: 'mobile' };
+const CNPJA_EMAIL_TYPES: Record<string, ContactType> = { CORPORATE: 'corporate', PERSONAL: 'personal', ACCOUNTING: 'accounting' };
+
+/**
+ * CNPJA (API aberta): 5 consultas por minuto por IP
+ */
+export class CnpjaProvider implements CnpjProvider {
+  name: CnpjProviderName = 'cnpja';
+
+  constructor(private timeoutMs = DEFAULT_TIMEOUT_MS) {}
+
+  async lookup(cnpj: string): Promise<CnpjProviderResponse> {
+    const { status, body } = await fetchJson(`https://open.cnpja.com/office/${cnpj}`, this.timeoutMs);
+    if (!body) {
+      return { status };
+    }
+
+    const apiData = body as CnpjaApiResponse;
+    return {
+      status,
+      raw: apiData,
+      record: {
+        cnpj,
+        companyName: apiData.company?.name || '',
+        tradeName: apiData.alias || '',
+        cnae: formatCnae(apiData.mainActivity?.id),
+        cnaeDescription: apiData.mainActivity?.text || '',
+        secondaryCnaes: secondaryActivities(
+          (apiData.sideActivities || []).map(activity => ({ code: activity.id, description: activity.text }))
+        ),
+        capitalSocial: apiData.company?.equity || 0,
+        foundationDate: apiData.founded || '',
+        partners: apiData.company?.members?.map(member => ({
+          name: member.person?.name || '',
+          cpf: member.person?.taxId || '',
+          participation: 0, // API não fornece percentual
+          role: member.role?.text || '',
+        })) || [],
+        registrationStatus: formatRegistrationStatus(apiData.status?.text),
+        state: apiData.address?.state,
+        contacts: compactContacts([
+          ...(apiData.phones || []).map(phone => phoneContact(`${phone.area}${phone.number}`, CNPJA_PHONE_TYPES[phone.type] || 'unknown')),
+          ...(apiData.emails || []).map(email => emailContact(email.address, CNPJA_EMAIL_TYPES[email.ownership] || 'unknown')),
+        ]),
+      },
+    };
+  }
+}
+
+// Resposta da BrasilAPI (https://brasilapi.com.br/api/cnpj/v1/{cnpj}), só com os campos usados
+interface BrasilApiCnpjResponse {
+  cnpj: string;
+  razao_social: string;
+  nome_fantasia: string | null;
+  cnae_fiscal: number;
+  cnae_fiscal_descricao: string;
+  cnaes_secundarios: Array<{ codigo: number; descricao: string }>; // [{ codigo: 0, descricao: "" }] quando não há
+  capital_social: number;
+  data_inicio_atividade: string; // AAAA-MM-DD
+  descricao_situacao_cadastral: string;
+  uf: string;
+  ddd_telefone_1: string; // DDD e número juntos (ex.: "1133334444")
+  ddd_telefone_2: string;
+  ddd_fax: string;
+  email: string | null;
+  qsa: Array<{
+    nome_socio: string;
+    cnpj_cpf_do_socio: string;
+    qualificacao_socio: string;
+  }>;
+}
+
+/**
+ * BrasilAPI (dados abertos da Receita Federal)
+ */
+export class BrasilApiProvider implements CnpjProvider {
+  name: CnpjProviderName = 'brasilapi';
+
+  constructor(private timeoutMs = DEFAULT_TIMEOUT_MS) {}
+
+  async lookup(cnpj: string): Promise<CnpjProviderResponse> {
+    const { status, body } = await fetchJson(`https://brasilapi.com.br/api/cnpj/v1/${cnpj}`, this.timeoutMs);
+    if (!body) {
+      return { status };
+    }
+
+    const apiData = body as BrasilApiCnpjResponse;
+    return {
+      status,
+      raw: apiData,
+      record: {
+        cnpj,
+        companyName: apiData.razao_social || '',
+        tradeName: apiData.nome_fantasia || '',
+        cnae: formatCnae(apiData.cnae_fiscal),
+        cnaeDescription: apiData.cnae_fiscal_descricao || '',
+        secondaryCnaes: secondaryActivities(
+          (apiData.cnaes_secundarios || []).map(activity => ({ code: activity.codigo, description: activity.descricao }))
+        ),
+        capitalSocial: apiData.capital_social || 0,
+        foundationDate: apiData.data_inicio_atividade || '',
+        partners: (apiData.qsa || []).map(partner => ({
+          name: partner.nome_socio || '',
+          cpf: partner.cnpj_cpf_do_socio || '',
+          participation: 0,
+          role: partner.qualificacao_socio || '',
+        })),
+        registrationStatus: formatRegistrationStatus(apiData.descricao_situacao_cadastral),
+        state: apiData.uf,
+        contacts: compactContacts([
+          phoneContact(apiData.ddd_telefone_1),
+          phoneContact(apiData.ddd_telefone_2),
+          phoneContact(apiData.ddd_fax, 'fax'),
+          emailContact(apiData.email),
+        ]),
+      },
+    };
+  }
+}
+
+// Resposta da ReceitaWS (https://receitaws.com.br/v1/cnpj/{cnpj}), só com os campos usados
+interface ReceitaWsResponse {
+  status: 'OK' | 'ERROR';
+  message?: string;
+  nome: string;
+  fantasia: string;
+  abertura: string; // DD/MM/AAAA
+  situacao: string;
+  uf: string;
+  capital_social: string; // "10000.00"
+  telefone: string; // "(11) 3333-4444 / (11) 9999-8888"
+  email: string;
+  atividade_principal: Array<{ code: string; text: string }>;
+  atividades_secundarias: Array<{ code: string; text: string }>; // [{ code: "00.00-0-00", text: "Não informada" }] quando não há
+  qsa: Array<{ nome: string; qual: string }>; // qual: "49-Sócio-Administrador"
+}
+
+/**
+ * ReceitaWS (plano gratuito): 3 consultas por minuto; erros de CNPJ vêm com status 200 e status "ERROR"
+ */
+export class ReceitaWsProvider implements CnpjProvider {
+  name: CnpjProviderName = 'receitaws';
+
+  constructor(private timeoutMs = DEFAULT_TIMEOUT_MS) {}
+
+  async lookup(cnpj: string): Promise<CnpjProviderResponse> {
+    const { status, body } = await fetchJson(`https://receitaws.com.br/v1/cnpj/${cnpj}`, this.timeoutMs);
+    if (!body) {
+      return { status };
+    }
+
+    const apiData = body as ReceitaWsResponse;
+    if (apiData.status === 'ERROR') {
+      // "CNPJ inválido" equivale ao 400 das outras APIs; as demais mensagens, a CNPJ não encontrado
+      return { status: /inv[áa]lido/i.test(apiData.message || '') ? 400 : 404, raw: apiData };
+    }
+
+    const [day, month, year] = (apiData.abertura || '').split('/');
+    const mainActivity = apiData.atividade_principal?.[0];
+
+    return {
+      status,
+      raw: apiData,
+      record: {
+        cnpj,
+        companyName: apiData.nome || '',
+        tradeName: apiData.fantasia || '',
+        cnae: formatCnae(mainActivity?.code),
+        cnaeDescription: mainActivity?.text || '',
+        secondaryCnaes: secondaryActivities(
+          (apiData.atividades_secundarias || []).map(activity => ({ code: activity.code, description: activity.text }))
+        ),
+        capitalSocial: parseFloat(apiData.capital_social) || 0,
+        foundationDate: year && month && day ? `${year}-${month}-${day}` : '',
+        partners: (apiData.qsa || []).map(partner => ({
+          name: partner.nome || '',
+          cpf: '', // ReceitaWS não informa o documento do sócio
+          participation: 0,
+          role: (partner.qual || '').replace(/^\d+-/, ''),
+        })),
+        registrationStatus: formatRegistrationStatus(apiData.situacao),
+        state: apiData.uf,
+        contacts: compactContacts([
+          ...(apiData.telefone || '').split('/').map(phone => phoneContact(phone)),
+          emailContact(apiData.email),
+        ]),
+      },
+    };
+  }
+}
+
+// Situação cadastral nos Dados Abertos CNPJ
+const RECEITA_REGISTRATION_STATUS: Record<string, string> = {
+  '01': 'Nula',
+  '02': 'Ativa',
+  '03': 'Suspensa',
+  '04': 'Inapta',
+  '08': 'Baixada',
+};
+
+/**
+ * Dados Abertos CNPJ da Receita Federal, importados para as tabelas receita_* (npm run db:import-receita)
+ * CNPJ fora da base importada (ex.: UF não importada) fica sem resposta e a consulta segue para o próximo provedor
+ */
+export class ReceitaFederalProvider implements CnpjProvider {
+  name: CnpjProviderName = 'receita';
+  private prisma = new PrismaClient();
+
+  async lookup(cnpj: string): Promise<CnpjProviderResponse | null> {
+    const establishment = await this.prisma.receitaEstablishment.findUnique({ where: { cnpj } });
+    if (!establishment) {
+      return null;
+    }
+
+    const secondaryCodes = (establishment.secondaryCnaes || '').split(',').map(code => code.trim()).filter(Boolean);
+
+    const [company, partners, cnae, municipality, secondaryCnaes] = await Promise.all([
+      this.prisma.receitaCompany.findUnique({ where: { cnpjBasico: establishment.cnpjBasico } }),
+      this.prisma.receitaPartner.findMany({ where: { cnpjBasico: establishment.cnpjBasico }, orderBy: { name: 'asc' } }),
+      this.prisma.receitaCnae.findUnique({ where: { code: establishment.mainCnae } }),
+      establishment.municipalityCode
+        ? this.prisma.receitaMunicipality.findUnique({ where: { code: establishment.municipalityCode } })
+        : null,
+      secondaryCodes.length > 0 ? this.prisma.receitaCnae.findMany({ where: { code: { in: secondaryCodes } } }) : [],
+    ]);
+    const secondaryNames = new Map(secondaryCnaes.map(activity => [activity.code, activity.description]));
+
+    const qualificationCodes = [...new Set(partners.map(partner => partner.qualificationCode))];
+    const qualifications = qualificationCodes.length > 0
+      ? await this.prisma.receitaPartnerQualification.findMany({ where: { code: { in: qualificationCodes } } })
+      : [];
+    const qualificationNames = new Map(qualifications.map(qualification => [qualification.code, qualification.description]));
+
+    return {
+      status: 200,
+      raw: { establishment, company, partners, municipality },
+      record: {
+        cnpj,
+        companyName: company?.name || '',
+        tradeName: establishment.tradeName || '',
+        cnae: formatCnae(establishment.mainCnae),
+        cnaeDescription: cnae?.description || '',
+        secondaryCnaes: secondaryActivities(
+          secondaryCodes.map(code => ({ code, description: secondaryNames.get(code) }))
+        ),
+        capitalSocial: company?.capitalSocial || 0,
+        foundationDate: establishment.foundationDate ? establishment.foundationDate.toISOString().slice(0, 10) : '',
+        partners: partners.map(partner => ({
+          name: partner.name,
+          cpf: partner.document || '',
+          participation: 0, // Dados abertos não informam o percentual
+          role: qualificationNames.get(partner.qualificationCode) || '',
+        })),
+        registrationStatus: RECEITA_REGISTRATION_STATUS[establishment.registrationStatus],
+        state: establishment.state || undefined,
+        contacts: compactContacts([
+          phoneContact(establishment.phone1),
+          phoneContact(establishment.phone2),
+          emailContact(establishment.email),
+        ]),
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
+
+/**
+ * Provedor local para desenvolvimento e testes: lê os dados do arquivo JSON em CNPJ_FIXTURE_FILE
+ * (padrão fixtures/cnpj.json), um objeto { "<cnpj>": { ...campos de CompanyData, state } }
+ * O arquivo é lido na primeira consulta e mantido em memória (alterações valem ao reiniciar o worker)
+ * CNPJ fora do arquivo fica sem resposta e a consulta segue para o próximo provedor
+ */
+export class FixtureCnpjProvider implements CnpjProvider {
+  name: CnpjProviderName = 'fixture';
+  private filePath = path.resolve(process.env.CNPJ_FIXTURE_FILE || 'fixtures/cnpj.json');
+  private fixtures?: Promise<Record<string, Partial<CnpjProviderRecord>> | null>;
+
+  async lookup(cnpj: string): Promise<CnpjProviderResponse | null> {
+    if (!this.fixtures) {
+      this.fixtures = this.loadFixtures();
+    }
+
+    const fixtures = await this.fixtures;
+    const fixture = fixtures?.[cnpj];
+    if (!fixture) {
+      return null;
+    }
+
+    return {
+      status: 200,
+      raw: fixture,
+      record: {
+        companyName: '',
+        partners: [],
+        ...fixture,
+        cnpj,
+        cnae: formatCnae(fixture.cnae),
+        secondaryCnaes: secondaryActivities(fixture.secondaryCnaes || []),
+        registrationStatus: formatRegistrationStatus(fixture.registrationStatus),
+      },
+    };
+  }
+
+  private async loadFixtures(): Promise<Record<string, Partial<CnpjProviderRecord>> | null> {
+    if (!fs.existsSync(this.filePath)) {
+      console.warn(`⚠️ Arquivo de dados de CNPJ ${this.filePath} não encontrado`);
+      return null;
+    }
+
+    return JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8')) as Record<string, Partial<CnpjProviderRecord>>;
+  }
+}
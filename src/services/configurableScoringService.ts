@@ -1,5 +1,8 @@
 import { ScoringConfigRepository } from '../repositories/scoringConfigRepository';
-import { CompanyData, PotentialClassification } from '../types/lead';
+import { CnaeActivity, CompanyData, PotentialClassification } from '../types/lead';
+
+// Peso padrão das atividades secundárias nas categorias de CNAE com cnaeMatch weighted
+const DEFAULT_SECONDARY_CNAE_WEIGHT = 0.5;
 
 export class ConfigurableScoringService {
   private scoringConfigRepository: ScoringConfigRepository;
@@ -61,6 +64,28 @@ export class ConfigurableScoringService {
     };
   }
 
+  /**
+   * Pontuação das categorias de CNAE da configuração ativa, cada uma com o seu cnaeMatch
+   * (null = sem configuração ativa ou sem categoria de CNAE)
+   */
+  async analyzeCnaeScore(cnae?: string, secondaryCnaes?: CnaeActivity[]): Promise<{ score: number; factors: string[] } | null> {
+    const config = await this.scoringConfigRepository.findActive();
+    const categories = (config?.categories || []).filter(category => category.type === 'cnae');
+    if (categories.length === 0) {
+      return null;
+    }
+
+    let score = 0;
+    const factors: string[] = [];
+    for (const category of categories) {
+      const categoryScore = this.analyzeCategory(category, { cnae, secondaryCnaes } as CompanyData);
+      score += categoryScore.score;
+      factors.push(...categoryScore.factors);
+    }
+
+    return { score, factors };
+  }
+
   /**
    * Analisa uma categoria específica
    */
@@ -69,12 +94,14 @@ export class ConfigurableScoringService {
     let score = 0;
 
     switch (category.type) {
-      case 'cnae':
-        score = this.analyzeCnaeCategory(category, companyData.cnae);
+      case 'cnae': {
+        const cnaeMatch = this.analyzeCnaeCategory(category, companyData.cnae, companyData.secondaryCnaes);
+        score = cnaeMatch.score;
         if (score > 0) {
-          factors.push(`${category.name}: ${score} pontos`);
+          factors.push(`${category.name}: ${score} pontos${cnaeMatch.secondary ? ' (atividade secundária)' : ''}`);
         }
         break;
+      }
 
       case 'region':
         score = this.analyzeRegionCategory(category, companyData.region || companyData.validatedState);
@@ -121,18 +148,26 @@ export class ConfigurableScoringService {
 
   /**
    * Analisa categoria de CNAE
+   * cnaeMatch da categoria: main só pontua o CNAE principal; any pontua também as atividades secundárias;
+   * weighted pontua as secundárias com secondaryWeight dos pontos. Vale a maior pontuação encontrada
    */
-  private analyzeCnaeCategory(category: any, cnae?: string): number {
-    if (!cnae) return 0;
-
+  private analyzeCnaeCategory(category: any, cnae?: string, secondaryCnaes?: CnaeActivity[]): { score: number; secondary: boolean } {
     // Buscar critério que corresponde ao CNAE
-    const matchingCriteria = category.criteria.find((criteria: any) => criteria.value === cnae);
-    if (matchingCriteria) {
-      return matchingCriteria.points;
+    const matchingCriteria = cnae ? category.criteria.find((criteria: any) => criteria.value === cnae) : undefined;
+    const mainScore = matchingCriteria ? matchingCriteria.points : 0;
+
+    const cnaeMatch = category.cnaeMatch || 'main';
+    if (cnaeMatch === 'main' || !secondaryCnaes || secondaryCnaes.length === 0) {
+      return { score: mainScore, secondary: false };
     }
 
-    // Se não encontrou critério específico, retornar 0 (não pontuar)
-    return 0;
+    const secondaryPoints = category.criteria
+      .filter((criteria: any) => secondaryCnaes.some(activity => activity.code === criteria.value))
+      .map((criteria: any) => criteria.points as number);
+    const weight = cnaeMatch === 'weighted' ? category.secondaryWeight ?? DEFAULT_SECONDARY_CNAE_WEIGHT : 1;
+    const secondaryScore = Math.round(Math.max(0, ...secondaryPoints) * weight);
+
+    return secondaryScore > mainScore ? { score: secondaryScore, secondary: true } : { score: mainScore, secondary: false };
   }
 
   /**
@@ -305,6 +340,7 @@ export class ConfigurableScoringService {
     cnpj?: string;
     companyName?: string;
     cnae?: string;
+    secondaryCnaes?: CnaeActivity[];
     capitalSocial?: number;
     foundationDate?: string;
     partners?: any[];
@@ -450,6 +486,7 @@ export class ConfigurableScoringService {
           cnpj: true,
           cnae: true,
           cnaeDescription: true,
+          secondaryCnaes: { select: { code: true, description: true } },
           capitalSocial: true,
           foundationDate: true,
           validatedState: true,
@@ -477,6 +514,7 @@ export class ConfigurableScoringService {
               companyName: '', // Não usado no cálculo
               cnae: lead.cnae || '',
               cnaeDescription: lead.cnaeDescription || '',
+              secondaryCnaes: lead.secondaryCnaes.map(activity => ({ code: activity.code, description: activity.description || '' })),
               capitalSocial: lead.capitalSocial || 0,
               foundationDate: lead.foundationDate ? lead.foundationDate.toISOString().split('T')[0] : '',
               region: lead.validatedState || '',
@@ -0,0 +1,79 @@
+import { ExcelProcessingService, ImportRowBatch } from './excelProcessingService';
+
+const validRecord = {
+  CNPJ: '11.222.333/0001-81',
+  'Razão social': 'Coco Litorâneo Ltda',
+  Município: 'AL - Maceió',
+  CEP: '57000-000',
+  'Endereço cadastral': 'Rua A, 10',
+};
+
+describe('ExcelProcessingService.importRecord', () => {
+  const service = new ExcelProcessingService();
+
+  it('aceita a linha válida e grava o CNPJ só com dígitos', () => {
+    const { data, error } = service.importRecord(validRecord);
+    expect(error).toBeUndefined();
+    expect(data?.CNPJ).toBe('11222333000181');
+    expect(data?.['Razão social']).toBe('Coco Litorâneo Ltda');
+  });
+
+  it('recompõe os zeros à esquerda do CNPJ lido como número', () => {
+    const { data } = service.importRecord({ ...validRecord, CNPJ: 191 });
+    expect(data?.CNPJ).toBe('00000000000191');
+  });
+
+  it('rejeita CNPJ ausente', () => {
+    const { error } = service.importRecord({ ...validRecord, CNPJ: '' });
+    expect(error).toEqual({ reason: 'invalid_cnpj', message: 'CNPJ não informado' });
+  });
+
+  it('rejeita CNPJ com dígitos verificadores incorretos ou repetidos', () => {
+    expect(service.importRecord({ ...validRecord, CNPJ: '11222333000182' }).error?.reason).toBe('invalid_cnpj');
+    expect(service.importRecord({ ...validRecord, CNPJ: '11111111111111' }).error?.reason).toBe('invalid_cnpj');
+  });
+
+  it('rejeita CEP ausente ou sem dígitos', () => {
+    expect(service.importRecord({ ...validRecord, CEP: '' }).error?.reason).toBe('missing_cep');
+    expect(service.importRecord({ ...validRecord, CEP: '-' }).error?.reason).toBe('missing_cep');
+  });
+
+  it('rejeita registros sem os campos obrigatórios', () => {
+    const record: Record<string, unknown> = { ...validRecord };
+    delete record['Endereço cadastral'];
+    const { error, values } = service.importRecord(record);
+    expect(error).toEqual({ reason: 'parse_error', message: 'Campos obrigatórios ausentes: Endereço cadastral' });
+    expect(values[0]).toBe('11.222.333/0001-81');
+  });
+});
+
+describe('ExcelProcessingService.readImportRows', () => {
+  it('separa linhas aceitas e rejeitadas mantendo o número da linha e os valores originais', async () => {
+    const csv = [
+      'CNPJ;Razão social;Município;CEP;Endereço cadastral',
+      '11222333000181;Coco Ltda;AL - Maceió;57000000;Rua A',
+      '11222333000182;Praia Ltda;AL - Maceió;57000000;Rua B',
+      '',
+      '11222333000181;Sem CEP;AL - Maceió;;Rua C',
+    ].join('\n');
+    const batches: ImportRowBatch[] = [];
+
+    const result = await new ExcelProcessingService().readImportRows(
+      Buffer.from(csv),
+      { fileName: 'leads.csv' },
+      async batch => {
+        batches.push(batch);
+      }
+    );
+
+    expect(result).toMatchObject({ acceptedRows: 1, rejectedRows: 2 });
+    const rows = batches.flatMap(batch => batch.rows);
+    const rejected = batches.flatMap(batch => batch.rejected);
+    expect(rows.map(row => row.rowNumber)).toEqual([2]);
+    expect(rejected.map(row => [row.rowNumber, row.reason])).toEqual([
+      [3, 'invalid_cnpj'],
+      [5, 'missing_cep'],
+    ]);
+    expect(rejected[0].values).toEqual(['11222333000182', 'Praia Ltda', 'AL - Maceió', '57000000', 'Rua B']);
+  });
+});
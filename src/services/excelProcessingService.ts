@@ -1,143 +1,283 @@
 import * as XLSX from 'xlsx';
-import { DatloRawData } from '../types/lead';
+import {
+  DatloRawData,
+  DatloField,
+  ImportColumnTransform,
+  CreateImportProfileColumnRequest,
+  ImportedRow,
+  ImportRowError,
+  ImportRowErrorReason,
+  SpreadsheetSheetInfo,
+  SheetSelection,
+} from '../types/lead';
+import { normalizeCnpj, isValidCnpj } from '../utils/cnpj';
+import { SpreadsheetStreamReader, SpreadsheetFormat, SpreadsheetSource } from './spreadsheetStreamReader';
+
+export type ResolvedColumn = { field: DatloField; index: number; transform: ImportColumnTransform };
+
+// Aba com o cabeçalho detectado e as colunas do perfil já localizadas
+export interface AnalyzedSheet extends SpreadsheetSheetInfo {
+  resolved: ResolvedColumn[];
+}
+
+// Formato e abas encontrados na validação, reaproveitados na leitura das linhas sem percorrer o arquivo de novo
+export interface SpreadsheetAnalysis {
+  format: SpreadsheetFormat;
+  sheets: AnalyzedSheet[];
+}
+
+// Opções de leitura de uma planilha
+export interface SpreadsheetReadOptions {
+  fileName?: string;
+  columns?: CreateImportProfileColumnRequest[]; // Mapeamento do perfil de importação
+  sheets?: SheetSelection; // Abas a importar (padrão: a primeira)
+  analysis?: SpreadsheetAnalysis; // Resultado de validateExcelFormat para o mesmo arquivo e perfil
+}
+
+// Linhas lidas de uma vez e entregues ao consumidor durante a leitura em streaming
+export interface ImportRowBatch {
+  rows: ImportedRow[];
+  rejected: ImportRowError[];
+}
+
+// Quantas linhas não vazias do topo da aba são examinadas em busca do cabeçalho (há fornecedores que colocam título antes)
+const HEADER_SCAN_ROWS = 10;
+
+// Tamanho padrão dos lotes de linhas na leitura em streaming
+const DEFAULT_IMPORT_BATCH_SIZE = 500;
+
+// Campos de destino disponíveis para o mapeamento de colunas
+export const DATLO_FIELDS: DatloField[] = [
+  'CNPJ',
+  'Razão social',
+  'Nome Fantasia',
+  'Nome matriz',
+  'Município',
+  'Distrito',
+  'Subdistrito',
+  'CEP',
+  'Bairro',
+  'Endereço cadastral',
+  'Endereço sugerido',
+  'Coordenadas',
+  'Street View',
+];
+
+export const IMPORT_COLUMN_TRANSFORMS: ImportColumnTransform[] = [
+  'none',
+  'uppercase',
+  'lowercase',
+  'titlecase',
+  'digits_only',
+  'cep',
+  'coordinates',
+];
+
+// Mapeamento padrão da exportação do Datlo (usado quando não há perfil)
+export const DATLO_PROFILE_COLUMNS: CreateImportProfileColumnRequest[] = [
+  { field: 'CNPJ', aliases: ['CNPJ'], required: true },
+  { field: 'Razão social', aliases: ['Razão social'], required: true },
+  { field: 'Nome Fantasia', aliases: ['Nome Fantasia'] },
+  { field: 'Nome matriz', aliases: ['Nome matriz'] },
+  { field: 'Município', aliases: ['Município'], required: true },
+  { field: 'Distrito', aliases: ['Distrito'] },
+  { field: 'Subdistrito', aliases: ['Subdistrito'] },
+  { field: 'CEP', aliases: ['CEP'], required: true },
+  { field: 'Bairro', aliases: ['Bairro'] },
+  { field: 'Endereço cadastral', aliases: ['Endereço cadastral'], required: true },
+  { field: 'Endereço sugerido', aliases: ['Endereço sugerido'] },
+  { field: 'Coordenadas', aliases: ['Coordenadas'], transform: 'coordinates' },
+  { field: 'Street View', aliases: ['Street View'] },
+];
+
+// Descrição dos motivos de rejeição usada no relatório de erros
+export const IMPORT_ROW_ERROR_LABELS: Record<ImportRowErrorReason, string> = {
+  duplicate_cnpj: 'CNPJ duplicado',
+  invalid_cnpj: 'CNPJ inválido',
+  missing_cep: 'CEP ausente',
+  parse_error: 'Erro de leitura',
+  processing_error: 'Erro ao criar lead',
+};
 
 export class ExcelProcessingService {
+  private spreadsheetReader = new SpreadsheetStreamReader();
+
   /**
-   * Valida rapidamente o formato da planilha Excel (sem processar dados)
+   * Valida o formato da planilha Excel ou CSV sem importar dados
+   * Lista todas as abas com o cabeçalho detectado e a estimativa de leads de cada uma
+   * O arquivo é percorrido em streaming, então também serve para planilhas muito grandes
    */
-  async validateExcelFormat(buffer: Buffer): Promise<{
+  async validateExcelFormat(source: SpreadsheetSource, options: SpreadsheetReadOptions = {}): Promise<{
     isValid: boolean;
     error?: string;
     estimatedLeads: number;
     headers: string[];
+    format?: SpreadsheetFormat;
+    sheets: SpreadsheetSheetInfo[];
+    selectedSheets: string[];
+    analysis?: SpreadsheetAnalysis;
   }> {
-    try {
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0]; // Primeira planilha
-      const worksheet = workbook.Sheets[sheetName];
-      
-      if (!worksheet) {
-        return {
-          isValid: false,
-          error: 'Nenhuma planilha encontrada no arquivo',
-          estimatedLeads: 0,
-          headers: [],
-        };
-      }
-
-      // Converter apenas o cabeçalho para validação rápida
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-      
-      if (jsonData.length < 2) {
-        return {
-          isValid: false,
-          error: 'Planilha deve ter pelo menos cabeçalho e uma linha de dados',
-          estimatedLeads: 0,
-          headers: [],
-        };
-      }
+    let format: SpreadsheetFormat | undefined;
+    let sheets: AnalyzedSheet[];
 
-      // Primeira linha é o cabeçalho
-      const headers = jsonData[0] as string[];
-      const dataRows = jsonData.slice(1);
-
-      // Validar se os cabeçalhos obrigatórios estão presentes
-      const requiredHeaders = [
-        'CNPJ',
-        'Razão social',
-        'Município',
-        'CEP',
-        'Endereço cadastral'
-      ];
-
-      const missingHeaders = requiredHeaders.filter(required => 
-        !headers.some(header => header === required)
-      );
-
-      if (missingHeaders.length > 0) {
-        return {
-          isValid: false,
-          error: `Cabeçalhos obrigatórios ausentes: ${missingHeaders.join(', ')}`,
-          estimatedLeads: 0,
-          headers: [],
-        };
-      }
+    try {
+      format = await this.spreadsheetReader.detectFormat(source, options.fileName);
+      sheets = await this.analyzeSheets(source, options);
+    } catch (error) {
+      return {
+        isValid: false,
+        error: `Erro ao validar formato: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+        estimatedLeads: 0,
+        headers: [],
+        format,
+        sheets: [],
+        selectedSheets: [],
+      };
+    }
 
-      // Contar linhas de dados válidas (não vazias)
-      const validDataRows = dataRows.filter((row: any) => 
-        row && Array.isArray(row) && row.length > 0 && 
-        row.some((cell: any) => cell && String(cell).trim() !== '')
-      );
+    try {
+      const selected = this.selectSheets(sheets, options.sheets);
 
       return {
         isValid: true,
-        estimatedLeads: validDataRows.length,
-        headers: headers,
+        estimatedLeads: selected.reduce((total, sheet) => total + sheet.estimatedLeads, 0),
+        headers: this.mergeSheetHeaders(selected).headers,
+        format,
+        sheets: sheets.map(sheet => this.toSheetInfo(sheet)),
+        selectedSheets: selected.map(sheet => sheet.name),
+        analysis: { format, sheets },
       };
 
     } catch (error) {
+      // Seleção de abas inválida: a lista de abas volta para o usuário escolher outra
       return {
         isValid: false,
-        error: `Erro ao validar formato: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
         estimatedLeads: 0,
         headers: [],
+        format,
+        sheets: sheets.map(sheet => this.toSheetInfo(sheet)),
+        selectedSheets: [],
       };
     }
   }
 
   /**
-   * Extrai dados de uma planilha Excel
+   * Extrai dados de uma planilha Excel ou CSV
    */
-  async extractExcelData(buffer: Buffer): Promise<DatloRawData[]> {
+  async extractExcelData(source: SpreadsheetSource, options: SpreadsheetReadOptions = {}): Promise<DatloRawData[]> {
+    const { rows } = await this.extractImportRows(source, options);
+    return rows.map(row => row.data);
+  }
+
+  /**
+   * Extrai de uma vez as linhas das abas selecionadas, separando as aceitas das rejeitadas
+   * Para arquivos grandes prefira readImportRows, que entrega as linhas em lotes
+   */
+  async extractImportRows(source: SpreadsheetSource, options: SpreadsheetReadOptions = {}): Promise<{
+    headers: string[];
+    rows: ImportedRow[];
+    rejected: ImportRowError[];
+  }> {
+    const rows: ImportedRow[] = [];
+    const rejected: ImportRowError[] = [];
+
+    const { headers } = await this.readImportRows(source, options, async batch => {
+      rows.push(...batch.rows);
+      rejected.push(...batch.rejected);
+    });
+
+    return { headers, rows, rejected };
+  }
+
+  /**
+   * Converte e valida um registro JSON (ingestão via API) com as mesmas regras das linhas de planilha
+   * As chaves do objeto fazem o papel dos cabeçalhos, então os aliases do perfil também são aceitos;
+   * values traz os valores originais na ordem de DATLO_FIELDS, para o relatório de erros
+   */
+  importRecord(
+    record: Record<string, unknown>,
+    columns: CreateImportProfileColumnRequest[] = DATLO_PROFILE_COLUMNS
+  ): { data?: DatloRawData; error?: { reason: ImportRowErrorReason; message: string }; values: string[] } {
+    const keys = Object.keys(record);
+    const row = keys.map(key => record[key]);
+    const { resolved, missingHeaders } = this.resolveColumns(keys, columns);
+    const values = DATLO_FIELDS.map(field => {
+      const column = resolved.find(resolvedColumn => resolvedColumn.field === field);
+      return column ? this.safeGet(row, column.index) : '';
+    });
+
+    if (missingHeaders.length > 0) {
+      return {
+        values,
+        error: { reason: 'parse_error', message: `Campos obrigatórios ausentes: ${missingHeaders.join(', ')}` },
+      };
+    }
+
+    const imported = this.importRow(row, resolved);
+    return 'reason' in imported ? { values, error: imported } : { values, data: imported };
+  }
+
+  /**
+   * Lê as linhas das abas selecionadas em streaming e as entrega em lotes ao onBatch
+   * Cada linha mantém a aba, o número original na planilha e os valores brutos para o relatório de erros;
+   * a leitura só continua depois que o lote anterior foi processado, mantendo a memória limitada
+   * Com options.analysis (da validação), o arquivo é percorrido uma única vez, só para ler as linhas
+   */
+  async readImportRows(
+    source: SpreadsheetSource,
+    options: SpreadsheetReadOptions & { batchSize?: number },
+    onBatch: (batch: ImportRowBatch) => Promise<void>
+  ): Promise<{ headers: string[]; acceptedRows: number; rejectedRows: number }> {
     try {
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0]; // Primeira planilha
-      const worksheet = workbook.Sheets[sheetName];
-      
-      if (!worksheet) {
-        throw new Error('Nenhuma planilha encontrada no arquivo');
+      const format = options.analysis?.format || (await this.spreadsheetReader.detectFormat(source, options.fileName));
+      const sheets = options.analysis?.sheets || (await this.analyzeSheets(source, options));
+      const selected = this.selectSheets(sheets, options.sheets);
+      const batchSize = options.batchSize || DEFAULT_IMPORT_BATCH_SIZE;
+
+      // Abas com colunas em ordens diferentes são unificadas pelos nomes dos cabeçalhos
+      const { headers, columnMaps } = this.mergeSheetHeaders(selected);
+      const sheetIndexes = new Map(selected.map((sheet, index) => [sheet.name, index]));
+
+      let batch: ImportRowBatch = { rows: [], rejected: [] };
+      let acceptedRows = 0;
+      let rejectedRows = 0;
+
+      for await (const { sheetName: readSheetName, rowNumber, cells: row } of this.spreadsheetReader.readRows(source, options.fileName)) {
+        const sheetIndex = sheetIndexes.get(readSheetName);
+        // Linhas vazias, de abas não selecionadas ou acima do cabeçalho são ignoradas sem gerar erro
+        if (sheetIndex === undefined || rowNumber <= selected[sheetIndex].headerRow || this.isEmptyRow(row)) {
+          continue;
+        }
+
+        const sheet = selected[sheetIndex];
+        const columnMap = columnMaps[sheetIndex];
+        const sheetName = format === 'excel' ? sheet.name : undefined;
+        const values = headers.map((_header, column) =>
+          columnMap[column] === undefined ? '' : this.safeGet(row, columnMap[column])
+        );
+
+        const imported = this.importRow(row, sheet.resolved);
+        if ('reason' in imported) {
+          batch.rejected.push({ rowNumber, sheetName, ...imported, values });
+          rejectedRows++;
+        } else {
+          batch.rows.push({ rowNumber, sheetName, data: imported, values });
+          acceptedRows++;
+        }
+
+        if (batch.rows.length + batch.rejected.length >= batchSize) {
+          await onBatch(batch);
+          batch = { rows: [], rejected: [] };
+        }
       }
 
-      // Converter para JSON
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-      
-      if (jsonData.length < 2) {
-        throw new Error('Planilha deve ter pelo menos cabeçalho e uma linha de dados');
+      if (batch.rows.length + batch.rejected.length > 0) {
+        await onBatch(batch);
       }
 
-      // Primeira linha é o cabeçalho
-      const headers = jsonData[0] as string[];
-      const dataRows = jsonData.slice(1);
-
-      // Mapear dados para o formato DatloRawData
-      const leads: DatloRawData[] = dataRows
-        .filter((row: any) => row && Array.isArray(row) && row.length > 0) // Filtrar linhas vazias
-        .map((row: any, index: number) => {
-          try {
-            return {
-              CNPJ: this.safeGet(row, headers, 'CNPJ') || '',
-              'Razão social': this.safeGet(row, headers, 'Razão social') || '',
-              'Nome Fantasia': this.safeGet(row, headers, 'Nome Fantasia') || '',
-              'Nome matriz': this.safeGet(row, headers, 'Nome matriz') || '',
-              Município: this.safeGet(row, headers, 'Município') || '',
-              Distrito: this.safeGet(row, headers, 'Distrito') || '',
-              Subdistrito: this.safeGet(row, headers, 'Subdistrito') || '',
-              CEP: this.safeGet(row, headers, 'CEP') || '',
-              Bairro: this.safeGet(row, headers, 'Bairro') || '',
-              'Endereço cadastral': this.safeGet(row, headers, 'Endereço cadastral') || '',
-              'Endereço sugerido': this.safeGet(row, headers, 'Endereço sugerido') || '',
-              Coordenadas: this.safeGet(row, headers, 'Coordenadas') || '',
-              'Street View': this.safeGet(row, headers, 'Street View') || '',
-            };
-          } catch (error) {
-            console.warn(`⚠️ Erro ao processar linha ${index + 2}:`, error);
-            return null;
-          }
-        })
-        .filter(lead => lead !== null) as DatloRawData[];
-
-      console.log(`📊 ${leads.length} leads extraídos da planilha`);
-      return leads;
+      console.log(`📊 ${acceptedRows} leads extraídos de ${selected.length} aba(s) (${rejectedRows} linhas rejeitadas)`);
+      return { headers, acceptedRows, rejectedRows };
     } catch (error) {
       console.error('❌ Erro ao processar planilha Excel:', error);
       throw new Error(`Erro ao processar planilha: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
@@ -145,14 +285,357 @@ export class ExcelProcessingService {
   }
 
   /**
-   * Obtém valor seguro de uma linha baseado no cabeçalho
+   * Converte e valida uma linha; devolve os dados do lead ou o motivo da rejeição
+   */
+  private importRow(
+    row: any[],
+    resolved: ResolvedColumn[]
+  ): DatloRawData | { reason: ImportRowErrorReason; message: string } {
+    let data: DatloRawData;
+    try {
+      data = this.mapRow(row, resolved);
+    } catch (error) {
+      return {
+        reason: 'parse_error',
+        message: error instanceof Error ? error.message : 'Erro desconhecido',
+      };
+    }
+
+    const rowError = this.validateRow(data);
+    if (rowError) {
+      return rowError;
+    }
+
+    // CNPJ sempre segue para o sistema só com dígitos
+    data.CNPJ = normalizeCnpj(data.CNPJ);
+    return data;
+  }
+
+  /**
+   * Percorre o arquivo uma vez detectando o cabeçalho de cada aba (primeira linha com todos os
+   * cabeçalhos obrigatórios do perfil) e contando as linhas de dados
    */
-  private safeGet(row: any[], headers: string[], headerName: string): string {
-    const index = headers.findIndex(h => h === headerName);
+  private async analyzeSheets(source: SpreadsheetSource, options: SpreadsheetReadOptions): Promise<AnalyzedSheet[]> {
+    const columns = options.columns || DATLO_PROFILE_COLUMNS;
+    const sheets: AnalyzedSheet[] = [];
+
+    let current: {
+      name: string;
+      header?: { rowNumber: number; cells: any[] };
+      firstFilled?: { rowNumber: number; cells: any[] };
+      scannedRows: number;
+      dataRows: number;
+    } | null = null;
+
+    const finishSheet = () => {
+      if (!current) return;
+
+      // Sem cabeçalho completo, a primeira linha preenchida é tratada como cabeçalho para apontar o que falta
+      const headerRow = current.header || current.firstFilled;
+      const headers = (headerRow?.cells || []).map((header: any) => String(header ?? '').trim());
+      const { resolved, missingHeaders } = this.resolveColumns(headers, columns);
+
+      let error: string | undefined;
+      if (!headerRow) {
+        error = 'Aba vazia';
+      } else if (missingHeaders.length > 0) {
+        error = `Cabeçalhos obrigatórios ausentes: ${missingHeaders.join(', ')}`;
+      } else if (current.dataRows === 0) {
+        error = 'Planilha deve ter pelo menos cabeçalho e uma linha de dados';
+      }
+
+      sheets.push({
+        name: current.name,
+        headerRow: headerRow?.rowNumber || 1,
+        headers,
+        estimatedLeads: error ? 0 : current.dataRows,
+        isValid: !error,
+        error,
+        resolved,
+      });
+    };
+
+    for await (const { sheetName, rowNumber, cells } of this.spreadsheetReader.readRows(source, options.fileName)) {
+      if (!current || current.name !== sheetName) {
+        finishSheet();
+        current = { name: sheetName, scannedRows: 0, dataRows: 0 };
+      }
+
+      if (this.isEmptyRow(cells)) {
+        continue;
+      }
+
+      if (current.header) {
+        current.dataRows++;
+        continue;
+      }
+
+      if (current.scannedRows >= HEADER_SCAN_ROWS) {
+        continue;
+      }
+
+      current.scannedRows++;
+      current.firstFilled = current.firstFilled || { rowNumber, cells };
+      if (this.resolveColumns(cells, columns).missingHeaders.length === 0) {
+        current.header = { rowNumber, cells };
+      }
+    }
+    finishSheet();
+
+    return sheets;
+  }
+
+  /**
+   * Resolve a seleção de abas do upload
+   * Sem seleção vale a primeira aba; "all" importa todas as abas com os cabeçalhos do perfil
+   */
+  private selectSheets(sheets: AnalyzedSheet[], selection?: SheetSelection): AnalyzedSheet[] {
+    if (sheets.length === 0) {
+      throw new Error('Planilha deve ter pelo menos cabeçalho e uma linha de dados');
+    }
+
+    if (selection === 'all') {
+      const validSheets = sheets.filter(sheet => sheet.isValid);
+      if (validSheets.length === 0) {
+        throw new Error(`Nenhuma aba válida: ${sheets.map(sheet => `${sheet.name} (${sheet.error})`).join('; ')}`);
+      }
+      return validSheets;
+    }
+
+    const names = selection && selection.length > 0 ? selection : [sheets[0].name];
+
+    return names.map(name => {
+      const sheet = sheets.find(candidate => candidate.name === name);
+      if (!sheet) {
+        throw new Error(`Aba não encontrada: ${name}. Abas disponíveis: ${sheets.map(candidate => candidate.name).join(', ')}`);
+      }
+      if (!sheet.isValid) {
+        // Com uma única aba a mensagem continua a mesma de antes do suporte a várias abas
+        throw new Error(sheets.length === 1 ? sheet.error : `Aba ${sheet.name}: ${sheet.error}`);
+      }
+      return sheet;
+    });
+  }
+
+  /**
+   * Unifica os cabeçalhos das abas selecionadas, na ordem em que aparecem
+   * Para cada aba devolve, por coluna unificada, o índice da coluna de origem
+   */
+  private mergeSheetHeaders(sheets: AnalyzedSheet[]): { headers: string[]; columnMaps: Array<Record<number, number>> } {
+    const headers: string[] = [];
+
+    const columnMaps = sheets.map(sheet => {
+      const columnMap: Record<number, number> = {};
+
+      sheet.headers.forEach((header, sourceIndex) => {
+        // Cabeçalhos repetidos na mesma aba ocupam colunas unificadas distintas
+        let targetIndex = headers.findIndex((existing, index) => existing === header && columnMap[index] === undefined);
+        if (targetIndex === -1) {
+          targetIndex = headers.push(header) - 1;
+        }
+        columnMap[targetIndex] = sourceIndex;
+      });
+
+      return columnMap;
+    });
+
+    return { headers, columnMaps };
+  }
+
+  /**
+   * Dados públicos da aba (sem as colunas resolvidas)
+   */
+  private toSheetInfo(sheet: AnalyzedSheet): SpreadsheetSheetInfo {
+    return {
+      name: sheet.name,
+      headerRow: sheet.headerRow,
+      headers: sheet.headers,
+      estimatedLeads: sheet.estimatedLeads,
+      isValid: sheet.isValid,
+      error: sheet.error,
+    };
+  }
+
+  /**
+   * Verifica se a linha não tem nenhuma célula preenchida
+   */
+  private isEmptyRow(row: any): boolean {
+    return !row || !Array.isArray(row) || !row.some((cell: any) => cell !== undefined && cell !== null && String(cell).trim() !== '');
+  }
+
+  /**
+   * Verifica se a linha tem os dados mínimos para virar um lead
+   */
+  private validateRow(data: DatloRawData): { reason: ImportRowErrorReason; message: string } | null {
+    if (!data.CNPJ) {
+      return { reason: 'invalid_cnpj', message: 'CNPJ não informado' };
+    }
+
+    if (!isValidCnpj(data.CNPJ)) {
+      return { reason: 'invalid_cnpj', message: `CNPJ ${data.CNPJ} inválido (tamanho ou dígitos verificadores incorretos)` };
+    }
+
+    if (!data.CEP || data.CEP.replace(/\D/g, '') === '') {
+      return { reason: 'missing_cep', message: 'CEP não informado' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Normaliza coordenadas para "lat,lng" com ponto decimal
+   * Aceita vírgula decimal (ex.: "-23,533853;-46,65335") comum em exportações brasileiras
+   */
+  private normalizeCoordinates(value: string): string {
+    if (!value) return '';
+
+    const numbers = value.match(/-?\d+(?:[.,]\d+)?/g);
+    if (!numbers || numbers.length !== 2) {
+      return value;
+    }
+
+    const [latitude, longitude] = numbers.map(n => n.replace(',', '.'));
+    return `${latitude},${longitude}`;
+  }
+
+  /**
+   * Localiza na planilha a coluna de cada campo do perfil
+   * A comparação ignora maiúsculas, acentos e pontuação ("Razao Social" casa com "Razão social")
+   */
+  private resolveColumns(
+    headers: any[],
+    columns: CreateImportProfileColumnRequest[]
+  ): {
+    resolved: Array<{ field: DatloField; index: number; transform: ImportColumnTransform }>;
+    missingHeaders: string[];
+  } {
+    const normalizedHeaders = headers.map(header => this.normalizeHeader(header));
+    const resolved: Array<{ field: DatloField; index: number; transform: ImportColumnTransform }> = [];
+    const missingHeaders: string[] = [];
+
+    for (const column of columns) {
+      // O próprio nome do campo também é aceito como cabeçalho
+      const candidates = [...column.aliases, column.field].map(alias => this.normalizeHeader(alias));
+      let index = -1;
+
+      for (const candidate of candidates) {
+        index = normalizedHeaders.findIndex(header => header !== '' && header === candidate);
+        if (index !== -1) break;
+      }
+
+      if (index === -1) {
+        if (column.required) {
+          const accepted = column.aliases.length > 0 ? column.aliases.join(' / ') : column.field;
+          missingHeaders.push(accepted);
+        }
+        continue;
+      }
+
+      resolved.push({ field: column.field, index, transform: column.transform || 'none' });
+    }
+
+    return { resolved, missingHeaders };
+  }
+
+  /**
+   * Normaliza um cabeçalho para comparação (sem acentos, minúsculo, só letras e números)
+   */
+  private normalizeHeader(header: any): string {
+    return String(header ?? '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Converte uma linha da planilha para o formato DatloRawData usando as colunas resolvidas
+   */
+  private mapRow(
+    row: any[],
+    resolved: Array<{ field: DatloField; index: number; transform: ImportColumnTransform }>
+  ): DatloRawData {
+    const lead = DATLO_FIELDS.reduce((acc, field) => {
+      acc[field] = '';
+      return acc;
+    }, {} as Record<DatloField, string>);
+
+    for (const { field, index, transform } of resolved) {
+      lead[field] = this.applyTransform(this.safeGet(row, index), transform);
+    }
+
+    return lead as DatloRawData;
+  }
+
+  /**
+   * Aplica a transformação configurada no perfil ao valor da célula
+   */
+  private applyTransform(value: string, transform: ImportColumnTransform): string {
+    if (!value) return '';
+
+    switch (transform) {
+      case 'uppercase':
+        return value.toUpperCase();
+      case 'lowercase':
+        return value.toLowerCase();
+      case 'titlecase':
+        return value
+          .toLowerCase()
+          .replace(/(^|\s)(\S)/g, (_match, space: string, letter: string) => space + letter.toUpperCase());
+      case 'digits_only':
+        return value.replace(/\D/g, '');
+      case 'cep': {
+        // Planilhas Excel costumam perder o zero à esquerda do CEP
+        const digits = value.replace(/\D/g, '');
+        return digits.length > 0 && digits.length < 8 ? digits.padStart(8, '0') : digits;
+      }
+      case 'coordinates':
+        return this.normalizeCoordinates(value);
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Obtém valor seguro de uma célula pelo índice da coluna
+   */
+  private safeGet(row: any[], index: number): string {
     if (index === -1 || index >= row.length) {
       return '';
     }
-    return String(row[index] || '').trim();
+    return String(row[index] ?? '').trim();
+  }
+
+  /**
+   * Gera a planilha de linhas rejeitadas de um upload
+   * As colunas originais vêm primeiro para que a planilha corrigida possa ser reenviada com o mesmo perfil
+   */
+  async exportRowErrorsToExcel(headers: string[], errors: ImportRowError[]): Promise<Buffer> {
+    try {
+      // A aba de origem só aparece quando o upload veio de uma planilha Excel
+      const withSheet = errors.some(error => error.sheetName);
+      const annotationHeaders = [...(withSheet ? ['Aba'] : []), 'Linha original', 'Motivo', 'Detalhe'];
+      const rows = errors.map(error => [
+        ...headers.map((_header, index) => error.values[index] ?? ''),
+        ...(withSheet ? [error.sheetName || ''] : []),
+        error.rowNumber,
+        IMPORT_ROW_ERROR_LABELS[error.reason] || error.reason,
+        error.message,
+      ]);
+
+      const workbook = XLSX.utils.book_new();
+      const worksheet = XLSX.utils.aoa_to_sheet([[...headers, ...annotationHeaders], ...rows]);
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'Linhas com erro');
+
+      const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+      console.log(`📤 ${errors.length} linhas com erro exportadas para Excel`);
+      return buffer;
+    } catch (error) {
+      console.error('❌ Erro ao exportar linhas com erro:', error);
+      throw new Error(`Erro ao exportar linhas com erro: ${error instanceof Error ? error.message : 'Erro desconhecido'}`);
+    }
   }
 
   /**
@@ -171,6 +654,8 @@ export class ExcelProcessingService {
         'CEP': lead.validatedZipCode || lead.zipCode,
         'Endereço': lead.validatedStreet || lead.streetAddress,
         'Bairro': lead.validatedNeighborhood || lead.neighborhood,
+        'Telefone': lead.phone || '',
+        'E-mail': lead.email || '',
         'Score de Potencial': lead.potentialScore || 0,
         'Nível de Potencial': lead.potentialLevel || 'baixo',
         'Status': lead.status,
@@ -0,0 +1,123 @@
+import { ImportProfileRepository } from '../repositories/importProfileRepository';
+import {
+  ImportProfile,
+  CreateImportProfileRequest,
+  UpdateImportProfileRequest,
+} from '../types/lead';
+import { DATLO_FIELDS, IMPORT_COLUMN_TRANSFORMS } from './excelProcessingService';
+
+export class ImportProfileService {
+  private importProfileRepository: ImportProfileRepository;
+
+  constructor() {
+    this.importProfileRepository = new ImportProfileRepository();
+  }
+
+  /**
+   * Busca todos os perfis (cria o perfil do Datlo na primeira utilização)
+   */
+  async getAllProfiles(): Promise<ImportProfile[]> {
+    const profiles = await this.importProfileRepository.findAll();
+    if (profiles.length === 0) {
+      return [await this.importProfileRepository.createDefaultProfile()];
+    }
+    return profiles;
+  }
+
+  /**
+   * Busca um perfil específico
+   */
+  async getProfile(id: string): Promise<ImportProfile | null> {
+    return await this.importProfileRepository.findById(id);
+  }
+
+  /**
+   * Busca o perfil padrão usado quando o upload não informa um perfil
+   */
+  async getDefaultProfile(): Promise<ImportProfile> {
+    const profile = await this.importProfileRepository.findDefault();
+    if (profile) {
+      return profile;
+    }
+
+    // Se o perfil do Datlo existe mas perdeu a marcação de padrão, reaproveita
+    const datloProfile = await this.importProfileRepository.findByName('Datlo');
+    if (datloProfile) {
+      return datloProfile;
+    }
+
+    return await this.importProfileRepository.createDefaultProfile();
+  }
+
+  /**
+   * Cria um novo perfil
+   */
+  async createProfile(data: CreateImportProfileRequest, userId?: string): Promise<ImportProfile> {
+    return await this.importProfileRepository.create(data, userId);
+  }
+
+  /**
+   * Atualiza um perfil
+   */
+  async updateProfile(id: string, data: UpdateImportProfileRequest): Promise<ImportProfile | null> {
+    return await this.importProfileRepository.update(id, data);
+  }
+
+  /**
+   * Remove um perfil
+   */
+  async deleteProfile(id: string): Promise<boolean> {
+    return await this.importProfileRepository.delete(id);
+  }
+
+  /**
+   * Valida os dados de um perfil antes de salvar
+   * Retorna a mensagem de erro ou null se estiver válido
+   */
+  validateProfileData(data: Partial<CreateImportProfileRequest>, isUpdate = false): string | null {
+    if (!isUpdate && (!data.name || !String(data.name).trim())) {
+      return 'Nome do perfil é obrigatório';
+    }
+
+    if (data.columns === undefined) {
+      return isUpdate ? null : 'Colunas do perfil são obrigatórias';
+    }
+
+    if (!Array.isArray(data.columns) || data.columns.length === 0) {
+      return 'O perfil deve mapear pelo menos uma coluna';
+    }
+
+    const seenFields = new Set<string>();
+    for (const column of data.columns) {
+      if (!DATLO_FIELDS.includes(column.field)) {
+        return `Campo de destino inválido: ${column.field}`;
+      }
+      if (seenFields.has(column.field)) {
+        return `Campo de destino mapeado mais de uma vez: ${column.field}`;
+      }
+      seenFields.add(column.field);
+
+      if (!Array.isArray(column.aliases) || column.aliases.some(alias => typeof alias !== 'string')) {
+        return `Os cabeçalhos aceitos do campo ${column.field} devem ser uma lista de textos`;
+      }
+      if (column.transform && !IMPORT_COLUMN_TRANSFORMS.includes(column.transform)) {
+        return `Transformação inválida para o campo ${column.field}: ${column.transform}`;
+      }
+    }
+
+    // Sem CNPJ e razão social não é possível criar o lead
+    const missingEssential = (['CNPJ', 'Razão social'] as const).filter(field => !seenFields.has(field));
+    if (missingEssential.length > 0) {
+      return `O perfil deve mapear os campos: ${missingEssential.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.importProfileRepository.close();
+  }
+}
@@ -0,0 +1,137 @@
+import { PrismaClient } from '@prisma/client';
+import { CompanyContact, ContactChannel, ContactVerificationStatus, LeadContact } from '../types/lead';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Campo do lead que guarda o contato principal de cada canal
+const LEAD_FIELDS: Record<ContactChannel, 'phone' | 'email'> = {
+  phone: 'phone',
+  email: 'email',
+};
+
+/**
+ * Contatos dos leads (LeadContact): grava os telefones e e-mails do enriquecimento e mantém o principal de cada
+ * canal em Lead.phone / Lead.email, usados nas exportações e no feed do Salesforce
+ */
+export class LeadContactService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Grava os contatos informados pelo provedor de CNPJ
+   * Contato já gravado mantém a origem e a verificação; telefone fora do formato DDD + número e e-mail
+   * malformado ficam como invalid e não viram principais
+   */
+  async saveEnrichedContacts(leadId: string, contacts: CompanyContact[] | undefined, source: string): Promise<number> {
+    if (!contacts || contacts.length === 0) {
+      return 0;
+    }
+
+    for (const contact of contacts) {
+      await this.prisma.leadContact.upsert({
+        where: { leadId_channel_value: { leadId, channel: contact.channel, value: contact.value } },
+        update: { type: contact.type },
+        create: {
+          leadId,
+          channel: contact.channel,
+          type: contact.type,
+          value: contact.value,
+          source,
+          verificationStatus: this.isValidContact(contact) ? 'unverified' : 'invalid',
+        },
+      });
+    }
+
+    await this.refreshPrimaryContacts(leadId);
+    return contacts.length;
+  }
+
+  /**
+   * Atualiza a verificação de um contato ou o define como principal do canal (null = contato não encontrado)
+   * O principal escolhido substitui Lead.phone / Lead.email; contato marcado como invalid deixa de ser principal
+   */
+  async updateContact(
+    leadId: string,
+    contactId: string,
+    changes: { verificationStatus?: ContactVerificationStatus; isPrimary?: boolean }
+  ): Promise<LeadContact | null> {
+    const contact = await this.prisma.leadContact.findFirst({ where: { id: contactId, leadId } });
+    if (!contact) {
+      return null;
+    }
+
+    const channel = contact.channel as ContactChannel;
+    const verificationStatus = changes.verificationStatus || contact.verificationStatus;
+    const isPrimary = verificationStatus === 'invalid' ? false : changes.isPrimary ?? contact.isPrimary;
+
+    await this.prisma.$transaction([
+      ...(isPrimary && !contact.isPrimary
+        ? [
+            this.prisma.leadContact.updateMany({ where: { leadId, channel, isPrimary: true }, data: { isPrimary: false } }),
+            this.prisma.lead.update({ where: { id: leadId }, data: { [LEAD_FIELDS[channel]]: contact.value } }),
+          ]
+        : []),
+      this.prisma.leadContact.update({ where: { id: contactId }, data: { verificationStatus, isPrimary } }),
+    ]);
+
+    if (contact.isPrimary && !isPrimary) {
+      await this.refreshPrimaryContacts(leadId, { replaceLeadFields: true });
+    }
+
+    return (await this.prisma.leadContact.findUnique({ where: { id: contactId } })) as LeadContact | null;
+  }
+
+  /**
+   * Escolhe o principal dos canais que ainda não têm um: o contato igual ao já gravado no lead (ex.: telefone da
+   * planilha) ou o primeiro válido encontrado; o lead só recebe o valor quando o campo está vazio
+   * (ou, com replaceLeadFields, sempre: o principal anterior deixou de ser)
+   */
+  private async refreshPrimaryContacts(leadId: string, options: { replaceLeadFields?: boolean } = {}): Promise<void> {
+    const lead = await this.prisma.lead.findUnique({ where: { id: leadId }, select: { phone: true, email: true } });
+    if (!lead) return;
+
+    const contacts = await this.prisma.leadContact.findMany({ where: { leadId }, orderBy: { createdAt: 'asc' } });
+    const leadUpdate: { phone?: string | null; email?: string | null } = {};
+
+    for (const channel of Object.keys(LEAD_FIELDS) as ContactChannel[]) {
+      const channelContacts = contacts.filter(contact => contact.channel === channel);
+      if (channelContacts.some(contact => contact.isPrimary)) continue;
+
+      const field = LEAD_FIELDS[channel];
+      const current = this.normalizeValue(channel, lead[field] || '');
+      const valid = channelContacts.filter(contact => contact.verificationStatus !== 'invalid');
+      const primary = valid.find(contact => contact.value === current) || valid[0];
+
+      if (primary) {
+        await this.prisma.leadContact.update({ where: { id: primary.id }, data: { isPrimary: true } });
+        if (!lead[field] || options.replaceLeadFields) {
+          leadUpdate[field] = primary.value;
+        }
+      } else if (options.replaceLeadFields) {
+        leadUpdate[field] = null;
+      }
+    }
+
+    if (Object.keys(leadUpdate).length > 0) {
+      await this.prisma.lead.update({ where: { id: leadId }, data: leadUpdate });
+    }
+  }
+
+  private normalizeValue(channel: ContactChannel, value: string): string {
+    return channel === 'phone' ? value.replace(/\D/g, '') : value.trim().toLowerCase();
+  }
+
+  private isValidContact(contact: CompanyContact): boolean {
+    return contact.channel === 'phone' ? /^\d{10,11}$/.test(contact.value) : EMAIL_PATTERN.test(contact.value);
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
@@ -0,0 +1,83 @@
+import { LeadProcessingContext, LeadProcessingPipeline } from './leadProcessingPipeline';
+import { ProcessingStepResults } from '../types/lead';
+
+jest.mock('@prisma/client', () => ({ PrismaClient: jest.fn() }));
+jest.mock('./addressValidationService');
+jest.mock('./leadContactService');
+jest.mock('./potentialAnalysisService');
+jest.mock('./processingLogService');
+
+const context = { leadId: 'lead-1', jobId: 'job-1', leadData: { CNPJ: '11222333000181' } };
+
+// Resultados gravados de uma tentativa anterior que concluiu todos os passos padrão
+const completedSteps = (): ProcessingStepResults => Object.fromEntries(
+  new LeadProcessingPipeline().getStepNames().map(name => [
+    name,
+    { status: 'completed', result: { from: name }, attempts: 1, updatedAt: '2026-01-01T00:00:00.000Z' },
+  ])
+);
+
+describe('LeadProcessingPipeline.run', () => {
+  it('reaproveita os passos concluídos e executa só os pendentes', async () => {
+    const pipeline = new LeadProcessingPipeline();
+    const run = jest.fn(async ({ results }: LeadProcessingContext) => ({ seen: Object.keys(results) }));
+    pipeline.addStep({ name: 'facade_analysis', progress: 90, run });
+    const onStepStart = jest.fn(async () => undefined);
+    const onStepEnd = jest.fn(async (_records: ProcessingStepResults) => undefined);
+
+    const results = await pipeline.run(context, completedSteps(), { onStepStart, onStepEnd });
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(run.mock.calls[0][0]).toMatchObject(context);
+    expect(results.facade_analysis).toEqual({
+      seen: ['address_validation', 'company_data', 'cnpj_analysis', 'potential_calculation'],
+    });
+    expect(results.company_data).toEqual({ from: 'company_data' });
+    expect(results.lead_update).toEqual({ from: 'lead_update' });
+    expect(onStepStart).toHaveBeenCalledTimes(1);
+    expect(onStepEnd).toHaveBeenCalledTimes(1);
+
+    const records = onStepEnd.mock.calls[0][0];
+    expect(records.facade_analysis).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(records.address_validation).toEqual(completedSteps().address_validation);
+  });
+
+  it('repete o passo que falhou na tentativa anterior, somando as tentativas', async () => {
+    const pipeline = new LeadProcessingPipeline();
+    pipeline.addStep({ name: 'facade_analysis', progress: 90, run: async () => 'ok' });
+    const onStepEnd = jest.fn(async (_records: ProcessingStepResults) => undefined);
+    const stepResults: ProcessingStepResults = {
+      ...completedSteps(),
+      facade_analysis: { status: 'failed', error: 'timeout', attempts: 2, updatedAt: '2026-01-01T00:00:00.000Z' },
+    };
+
+    const results = await pipeline.run(context, stepResults, { onStepEnd });
+
+    expect(results.facade_analysis).toBe('ok');
+    expect(onStepEnd.mock.calls[0][0].facade_analysis).toMatchObject({ status: 'completed', result: 'ok', attempts: 3 });
+  });
+
+  it('marca o passo como failed, grava o resultado e repassa o erro sem executar os seguintes', async () => {
+    const pipeline = new LeadProcessingPipeline();
+    const next = jest.fn(async () => 'não deveria rodar');
+    pipeline.addStep({
+      name: 'facade_analysis',
+      progress: 90,
+      run: async () => {
+        throw new Error('API de imagens indisponível');
+      },
+    });
+    pipeline.addStep({ name: 'facade_report', progress: 95, run: next }, { after: 'facade_analysis' });
+    const onStepEnd = jest.fn(async (_records: ProcessingStepResults) => undefined);
+
+    await expect(pipeline.run(context, completedSteps(), { onStepEnd })).rejects.toThrow('API de imagens indisponível');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(onStepEnd).toHaveBeenCalledTimes(1);
+    expect(onStepEnd.mock.calls[0][0].facade_analysis).toMatchObject({
+      status: 'failed',
+      error: 'API de imagens indisponível',
+      attempts: 1,
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import { PrismaClient } from '@prisma/client';
+import { AddressValidationService } from './addressValidationService';
+import { LeadContactService } from './leadContactService';
+import { PotentialAnalysisService } from './potentialAnalysisService';
+import { ProcessingLogService } from './processingLogService';
+import {
+  Address,
+  CompanyLookupResult,
+  FailureClass,
+  PotentialClassification,
+  ProcessingStepResults,
+} from '../types/lead';
+import { createClassifiedError, isRetryableFailure } from '../utils/failureClassification';
+
+// Erro gravado no lead processado sem os dados cadastrais da API de CNPJ
+export const ENRICHMENT_FAILURE_MESSAGE = 'Falha no enriquecimento de dados cadastrais';
+
+// Dados do lead em processamento e saídas dos passos já concluídos (pelo nome do passo)
+export interface LeadProcessingContext {
+  leadId: string;
+  jobId: string;
+  leadData: any;
+  uploadBatchId?: string;
+  results: Record<string, unknown>;
+}
+
+export interface LeadProcessingStep {
+  name: string;
+  progress: number; // Progresso do job (0-100) informado quando o passo começa
+  run(context: LeadProcessingContext): Promise<unknown>;
+}
+
+// Acompanhamento da execução: início de cada passo e gravação dos resultados após cada passo
+export interface LeadProcessingHooks {
+  onStepStart?: (step: LeadProcessingStep) => Promise<void>;
+  onStepEnd?: (stepResults: ProcessingStepResults) => Promise<void>;
+}
+
+export class LeadProcessingPipeline {
+  private prisma: PrismaClient;
+  private addressValidationService: AddressValidationService;
+  private potentialAnalysisService: PotentialAnalysisService;
+  private processingLogService: ProcessingLogService;
+  private leadContactService: LeadContactService;
+  private steps: LeadProcessingStep[];
+
+  constructor() {
+    this.prisma = new PrismaClient();
+    this.addressValidationService = new AddressValidationService();
+    this.potentialAnalysisService = new PotentialAnalysisService();
+    this.processingLogService = new ProcessingLogService();
+    this.leadContactService = new LeadContactService();
+
+    this.steps = [
+      {
+        name: 'address_validation',
+        progress: 25,
+        run: context => this.validateAddress(context),
+      },
+      {
+        name: 'company_data',
+        progress: 40,
+        run: context => this.fetchCompanyData(context),
+      },
+      {
+        name: 'cnpj_analysis',
+        progress: 55,
+        run: async context => this.potentialAnalysisService.analyzePotentialFromCompanyData(
+          (context.results.company_data as CompanyLookupResult).companyData
+        ),
+      },
+      {
+        name: 'potential_calculation',
+        progress: 75,
+        run: async context => this.calculatePotential(context),
+      },
+      {
+        name: 'lead_update',
+        progress: 100,
+        run: context => this.updateLead(context),
+      },
+    ];
+  }
+
+  /**
+   * Nomes dos passos, na ordem de execução
+   */
+  getStepNames(): string[] {
+    return this.steps.map(step => step.name);
+  }
+
+  /**
+   * Inclui um novo passo no pipeline (ex.: análise de fachada)
+   * Sem "after", o passo entra antes da gravação do lead, para que seu resultado possa ser usado nela
+   */
+  addStep(step: LeadProcessingStep, options: { after?: string } = {}): void {
+    if (this.steps.some(existing => existing.name === step.name)) {
+      throw new Error(`Passo ${step.name} já registrado no pipeline`);
+    }
+
+    const anchor = options.after || this.steps[this.steps.length - 2].name;
+    const index = this.steps.findIndex(existing => existing.name === anchor);
+    if (index === -1) {
+      throw new Error(`Passo ${anchor} não encontrado no pipeline`);
+    }
+
+    this.steps.splice(index + 1, 0, step);
+  }
+
+  /**
+   * Executa os passos em ordem, pulando os que já foram concluídos em uma tentativa anterior
+   * O resultado de cada passo é entregue em onStepEnd antes do próximo começar; se um passo falha,
+   * ele fica marcado como failed e o erro é repassado para a fila tentar de novo a partir dele
+   */
+  async run(
+    context: Omit<LeadProcessingContext, 'results'>,
+    stepResults: ProcessingStepResults,
+    hooks: LeadProcessingHooks = {}
+  ): Promise<Record<string, unknown>> {
+    const results: Record<string, unknown> = {};
+    const records: ProcessingStepResults = { ...stepResults };
+    const logContext = { leadId: context.leadId, jobId: context.jobId };
+
+    for (const step of this.steps) {
+      const previous = records[step.name];
+
+      if (previous?.status === 'completed') {
+        console.log(`⏭️ Lead ${context.leadId}: passo ${step.name} já concluído, resultado reaproveitado`);
+        await this.processingLogService.info(`Passo ${step.name} reaproveitado da tentativa anterior`, logContext, {
+          step: step.name,
+        });
+        results[step.name] = previous.result;
+        continue;
+      }
+
+      await hooks.onStepStart?.(step);
+      const startedAt = Date.now();
+
+      try {
+        const result = await step.run({ ...context, results });
+        await this.processingLogService.info(`Passo ${step.name} concluído`, logContext, {
+          step: step.name,
+          durationMs: Date.now() - startedAt,
+        });
+        results[step.name] = result;
+        records[step.name] = {
+          status: 'completed',
+          result: result ?? null,
+          attempts: (previous?.attempts || 0) + 1,
+          updatedAt: new Date().toISOString(),
+        };
+        await hooks.onStepEnd?.(records);
+      } catch (error) {
+        await this.processingLogService.error(`Passo ${step.name} falhou`, logContext, {
+          step: step.name,
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : 'Erro desconhecido',
+        });
+        records[step.name] = {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Erro desconhecido',
+          attempts: (previous?.attempts || 0) + 1,
+          updatedAt: new Date().toISOString(),
+        };
+        await hooks.onStepEnd?.(records);
+        throw error;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Passo address_validation: valida o endereço pelo CEP
+   */
+  private async validateAddress({ leadId, jobId, leadData }: LeadProcessingContext): Promise<Address> {
+    if (!leadData.Município) {
+      throw createClassifiedError('validation', 'Município não informado no lead');
+    }
+
+    return await this.addressValidationService.validateAddress(
+      {
+        street: leadData['Endereço cadastral'],
+        zipCode: leadData.CEP,
+        city: leadData.Município,
+        state: leadData.Município.split(' - ')[0] || '',
+      },
+      { leadId, jobId }
+    );
+  }
+
+  /**
+   * Passo company_data: única consulta à API de CNPJ do processamento
+   * CNPJ inexistente, rejeitado ou de empresa inativa falha o job; limite de requisições e indisponibilidade
+   * da API deixam o lead sem dados cadastrais (companyData null), com a classe da falha para o reprocessamento
+   */
+  private async fetchCompanyData({ leadId, jobId, leadData }: LeadProcessingContext): Promise<CompanyLookupResult> {
+    const lookup = await this.potentialAnalysisService.lookupCompanyData(leadData.CNPJ, { leadId, jobId });
+    const { companyData } = lookup;
+
+    if (lookup.failureClass && !isRetryableFailure(lookup.failureClass)) {
+      throw createClassifiedError(lookup.failureClass, lookup.error || 'Falha na consulta à API de CNPJ');
+    }
+
+    if (companyData?.registrationStatus && companyData.registrationStatus.toLowerCase() !== 'ativa') {
+      throw createClassifiedError(
+        'cnpj_inactive',
+        `CNPJ ${leadData.CNPJ} com situação cadastral ${companyData.registrationStatus} na Receita Federal`
+      );
+    }
+
+    if (companyData) {
+      console.log(`✅ Dados enriquecidos para CNPJ ${leadData.CNPJ}: CNAE ${companyData.cnae}, Capital R$ ${companyData.capitalSocial}`);
+    } else {
+      console.log(`⚠️ Falha no enriquecimento para CNPJ ${leadData.CNPJ} (${lookup.failureClass}) - usando dados básicos`);
+    }
+
+    return lookup;
+  }
+
+  /**
+   * Passo potential_calculation: potencial final e detalhes da pontuação
+   */
+  private async calculatePotential({ leadData, results }: LeadProcessingContext) {
+    const validatedAddress = results.address_validation as Address;
+    const { companyData } = results.company_data as CompanyLookupResult;
+
+    const finalPotential = this.potentialAnalysisService.calculateFinalPotential(
+      validatedAddress,
+      results.cnpj_analysis as PotentialClassification
+    );
+
+    const details = await this.potentialAnalysisService.getPotentialScoreDetails({
+      cnpj: leadData.CNPJ,
+      cnae: companyData?.cnae || undefined,
+      secondaryCnaes: companyData?.secondaryCnaes,
+      capitalSocial: companyData?.capitalSocial || undefined,
+      region: validatedAddress.state || undefined,
+      foundationDate: companyData?.foundationDate || undefined,
+      addressValidated: true,
+      coordinates: leadData.Coordenadas || (validatedAddress.coordinates ? 'disponível' : undefined),
+      partners: companyData?.partners || undefined,
+      validatedState: validatedAddress.state || undefined,
+      validatedCoordinates: (leadData.Coordenadas || validatedAddress.coordinates) ? true : false,
+    });
+
+    return { finalPotential, details };
+  }
+
+  /**
+   * Passo lead_update: grava no lead o endereço validado, o potencial e os dados cadastrais
+   * Sem dados cadastrais, o lead guarda a classe da falha do enriquecimento; com eles, a data da consulta
+   * (enrichedAt), usada pela política de reenriquecimento, e os telefones e e-mails encontrados (LeadContact)
+   */
+  private async updateLead({ leadId, results }: LeadProcessingContext): Promise<{ enriched: boolean; failureClass?: FailureClass }> {
+    const validatedAddress = results.address_validation as Address;
+    const { companyData, failureClass, provider } = results.company_data as CompanyLookupResult;
+    const { details: potentialDetails } = results.potential_calculation as Awaited<ReturnType<LeadProcessingPipeline['calculatePotential']>>;
+
+    await this.prisma.lead.update({
+      where: { id: leadId },
+      data: {
+        // Endereço validado
+        validatedStreet: validatedAddress.street,
+        validatedNumber: validatedAddress.number,
+        validatedComplement: validatedAddress.complement,
+        validatedNeighborhood: validatedAddress.neighborhood,
+        validatedCity: validatedAddress.city,
+        validatedState: validatedAddress.state,
+        validatedZipCode: validatedAddress.zipCode,
+        validatedCoordinates: validatedAddress.coordinates,
+        addressValidated: true,
+        addressValidationDate: new Date(),
+        addressValidationSource: 'viacep',
+
+        // Potencial calculado usando a nova função centralizada
+        potentialScore: potentialDetails.totalScore,
+        potentialLevel: potentialDetails.level,
+        potentialFactors: potentialDetails.factors, // Agora são fatores estruturados
+        potentialConfidence: potentialDetails.confidence,
+
+        // Dados cadastrais da empresa (com fallback para dados básicos)
+        cnae: companyData?.cnae || null,
+        cnaeDescription: companyData?.cnaeDescription || null,
+        secondaryCnaes: {
+          deleteMany: {},
+          create: (companyData?.secondaryCnaes || []).map(activity => ({
+            code: activity.code,
+            description: activity.description || null,
+          })),
+        },
+        capitalSocial: companyData?.capitalSocial || null,
+        foundationDate: companyData?.foundationDate ? new Date(companyData.foundationDate) : null,
+        partners: companyData?.partners ? JSON.parse(JSON.stringify(companyData.partners)) : null,
+        registrationStatus: companyData?.registrationStatus || null,
+        enrichedAt: companyData ? new Date() : null,
+
+        // Status (sempre processado, mesmo sem enriquecimento)
+        status: 'processado',
+        // Campo adicional para indicar se foi enriquecido
+        processingError: companyData ? null : ENRICHMENT_FAILURE_MESSAGE,
+        failureClass: companyData ? null : failureClass || 'internal',
+      },
+    });
+
+    await this.leadContactService.saveEnrichedContacts(leadId, companyData?.contacts, provider || 'unknown');
+
+    return companyData ? { enriched: true } : { enriched: false, failureClass: failureClass || 'internal' };
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+    await this.addressValidationService.close();
+    await this.potentialAnalysisService.close();
+    await this.processingLogService.close();
+    await this.leadContactService.close();
+  }
+}
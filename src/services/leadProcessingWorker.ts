@@ -0,0 +1,436 @@
+import { Queue, Worker, Job, UnrecoverableError } from 'bullmq';
+import Redis from 'ioredis';
+import { PrismaClient } from '@prisma/client';
+import { LeadProcessingPipeline, ENRICHMENT_FAILURE_MESSAGE } from './leadProcessingPipeline';
+import { UploadBatchService } from './uploadBatchService';
+import { ProcessingEventsService } from './processingEventsService';
+import { ProcessingLogService } from './processingLogService';
+import { LeadReenrichmentService } from './leadReenrichmentService';
+import { getCnpjApiRequestsPerMinute } from './cnpjApiRateLimiter';
+import { DeadLetterEntry, FailureClass, ProcessingStepResults, ReenrichmentResult } from '../types/lead';
+import { classifyFailure, isRetryableFailure } from '../utils/failureClassification';
+import {
+  LEAD_PROCESSING_QUEUE_NAME,
+  DEAD_LETTER_QUEUE_NAME,
+  WORKER_CONCURRENCY,
+  WORKER_SETTINGS_CHANNEL,
+  createQueueConnection,
+  getDeadLetterJobId,
+  readWorkerConcurrency,
+} from '../config/queue';
+import { REENRICHMENT_JOB_NAME } from '../config/reenrichment';
+
+// Consultas à API de CNPJ feitas no processamento de cada lead (passo company_data do pipeline)
+const CNPJ_REQUESTS_PER_LEAD = 1;
+
+/**
+ * Consome a fila de processamento de leads (roda só no processo worker, src/worker.ts)
+ * O limitador da fila é global no Redis: vários workers juntos respeitam o mesmo orçamento da API de CNPJ
+ */
+export class LeadProcessingWorker {
+  private redis: Redis;
+  private settingsSubscriber: Redis;
+  private prisma: PrismaClient;
+  private leadProcessingPipeline: LeadProcessingPipeline;
+  private processingLogService: ProcessingLogService;
+  private leadReenrichmentService: LeadReenrichmentService;
+  private uploadBatchService: UploadBatchService;
+  private processingEventsService: ProcessingEventsService;
+
+  private leadProcessingWorker!: Worker;
+  private deadLetterQueue!: Queue;
+
+  constructor() {
+    this.redis = createQueueConnection();
+    this.settingsSubscriber = createQueueConnection();
+    this.prisma = new PrismaClient();
+    this.leadProcessingPipeline = new LeadProcessingPipeline();
+    this.processingLogService = new ProcessingLogService();
+    this.leadReenrichmentService = new LeadReenrichmentService();
+    this.uploadBatchService = new UploadBatchService();
+    this.processingEventsService = new ProcessingEventsService();
+
+    this.initializeWorker();
+    this.subscribeToSettings();
+  }
+
+  /**
+   * Inicializa o worker e a fila de dead-letter
+   */
+  private initializeWorker(): void {
+    // Jobs com falha definitiva, com o contexto completo para análise
+    this.deadLetterQueue = new Queue(DEAD_LETTER_QUEUE_NAME, { connection: this.redis });
+
+    // Worker para processar leads (pipeline completo ou reenriquecimento, pelo nome do job)
+    this.leadProcessingWorker = new Worker(
+      LEAD_PROCESSING_QUEUE_NAME,
+      async (job: Job) => {
+        return job.name === REENRICHMENT_JOB_NAME ? await this.reenrichLead(job) : await this.processLead(job);
+      },
+      {
+        connection: this.redis,
+        concurrency: WORKER_CONCURRENCY, // Ajustada pelo console de operação (applyStoredConcurrency)
+        // Ritmo ditado pelo orçamento da API de CNPJ (soma dos provedores): cada lead consome CNPJ_REQUESTS_PER_LEAD consultas
+        limiter: {
+          max: Math.max(1, Math.floor(getCnpjApiRequestsPerMinute() / CNPJ_REQUESTS_PER_LEAD)),
+          duration: 60000,
+        },
+        lockDuration: 30000, // 30 segundos de lock
+        stalledInterval: 30000, // Verifica jobs travados a cada 30 segundos
+        maxStalledCount: 1, // Máximo 1 tentativa para jobs travados
+      }
+    );
+
+    // Eventos do worker
+    // Lead processado sem enriquecimento mantém o erro e a classe da falha gravados pelo pipeline
+    this.leadProcessingWorker.on('completed', async (job: Job, result: any) => {
+      if (job.name === REENRICHMENT_JOB_NAME) {
+        console.log(`✅ Job ${job.id} de reenriquecimento completado para lead ${result.leadId}`);
+        return;
+      }
+
+      console.log(`✅ Job ${job.id} completado para lead ${result.leadId}`);
+      await this.updateLeadStatus(
+        result.leadId,
+        'processado',
+        result.enriched ? undefined : ENRICHMENT_FAILURE_MESSAGE,
+        job.data.uploadBatchId,
+        result.failureClass
+      );
+    });
+
+    // Sem novas tentativas (esgotadas ou falha de dados), o lead fica com erro e o job vai para a fila de dead-letter;
+    // com nova tentativa pela frente, o lead volta a aguardar, sem erro nem classe de falha
+    // Falha no reenriquecimento não muda o lead: ele continua com os dados anteriores e volta na próxima execução
+    this.leadProcessingWorker.on('failed', async (job: Job | undefined, err: Error) => {
+      if (job?.name === REENRICHMENT_JOB_NAME) {
+        console.error(`❌ Job ${job.id} de reenriquecimento falhou para lead ${job.data.leadId}:`, err.message);
+        return;
+      }
+
+      if (job) {
+        const failureClass = classifyFailure(err);
+        console.error(`❌ Job ${job.id} falhou para lead ${job.data.leadId} (${failureClass}):`, err.message);
+
+        if (err instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts || 1)) {
+          await this.updateLeadStatus(job.data.leadId, 'erro', err.message, job.data.uploadBatchId, failureClass);
+          await this.moveToDeadLetter(job, err, failureClass);
+        } else {
+          await this.updateLeadStatus(job.data.leadId, 'aguardando', undefined, job.data.uploadBatchId);
+        }
+      }
+    });
+
+    // O progresso é informado no início de cada passo do pipeline: { progress, step }
+    this.leadProcessingWorker.on('progress', async (job: Job, progress: any) => {
+      const value = typeof progress === 'number' ? progress : progress?.progress || 0;
+      const currentStep = progress?.step || 'address_validation';
+      console.log(`📊 Job ${job.id} progresso: ${value}% (${currentStep})`);
+      await this.updateJobProgress(job.id as string, value, currentStep);
+      await this.processingEventsService.publish({
+        type: 'job_progress',
+        jobId: job.id as string,
+        leadId: job.data.leadId,
+        companyName: job.data.leadData?.['Razão social'],
+        uploadBatchId: job.data.uploadBatchId,
+        progress: value,
+        currentStep,
+      });
+    });
+  }
+
+  /**
+   * Aplica a concorrência definida pelo console de operação: a gravada ao iniciar e as alterações seguintes
+   */
+  private subscribeToSettings(): void {
+    this.applyStoredConcurrency();
+
+    this.settingsSubscriber.subscribe(WORKER_SETTINGS_CHANNEL).catch(error => {
+      console.error('Erro ao assinar as configurações do worker:', error);
+    });
+    this.settingsSubscriber.on('message', () => {
+      this.applyStoredConcurrency();
+    });
+  }
+
+  /**
+   * Lê a concorrência gravada no Redis e a aplica ao worker
+   */
+  private async applyStoredConcurrency(): Promise<void> {
+    try {
+      const concurrency = await readWorkerConcurrency(this.redis);
+      if (concurrency !== this.leadProcessingWorker.concurrency) {
+        this.leadProcessingWorker.concurrency = concurrency;
+        console.log(`⚙️ Concorrência do worker alterada para ${concurrency}`);
+      }
+    } catch (error) {
+      console.error('Erro ao aplicar a concorrência do worker:', error);
+    }
+  }
+
+  /**
+   * Processa um lead pelos passos do pipeline (endereço, dados cadastrais, análise, potencial e gravação)
+   * O resultado de cada passo fica no ProcessingJob; numa nova tentativa do mesmo job os passos concluídos
+   * são reaproveitados e o processamento recomeça pelo passo que falhou
+   */
+  private async processLead(job: Job): Promise<any> {
+    const { leadId, leadData, uploadBatchId } = job.data;
+    const jobId = job.id as string;
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts || 1;
+
+    try {
+      console.log(`🔄 Processando lead ${leadId}...`);
+      await this.processingLogService.info('Processamento iniciado', { leadId, jobId }, { attempt, maxAttempts, uploadBatchId });
+
+      // Atualizar status para "processando"
+      await this.updateLeadStatus(leadId, 'processando', undefined, uploadBatchId);
+      await this.updateJobStatus(jobId, 'processing');
+
+      const processingJob = await this.prisma.processingJob.findUnique({
+        where: { id: jobId },
+        select: { stepResults: true },
+      });
+      const stepResults = (processingJob?.stepResults || {}) as unknown as ProcessingStepResults;
+
+      const results = await this.leadProcessingPipeline.run({ leadId, jobId, leadData, uploadBatchId }, stepResults, {
+        onStepStart: step => job.updateProgress({ progress: step.progress, step: step.name }),
+        onStepEnd: records => this.saveStepResults(jobId, records),
+      });
+
+      // Atualizar job como completado
+      await this.updateJobStatus(jobId, 'completed');
+
+      const { enriched, failureClass } = results.lead_update as { enriched: boolean; failureClass?: FailureClass };
+      console.log(`✅ Lead ${leadId} processado com sucesso`);
+      await this.processingLogService.info('Lead processado com sucesso', { leadId, jobId }, {
+        attempt,
+        enriched,
+        failureClass,
+      });
+
+      return {
+        leadId,
+        success: true,
+        enriched,
+        failureClass,
+        validatedAddress: results.address_validation,
+        potentialAnalysis: (results.potential_calculation as { finalPotential: unknown }).finalPotential,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      const failureClass = classifyFailure(error);
+      const retryable = isRetryableFailure(failureClass);
+
+      console.error(`❌ Erro ao processar lead ${leadId} (${failureClass}):`, error);
+      await this.processingLogService.error(
+        !retryable
+          ? 'Processamento falhou por problema nos dados do lead; o job não será tentado de novo'
+          : attempt < maxAttempts ? 'Tentativa de processamento falhou; o job será tentado de novo' : 'Processamento falhou após todas as tentativas',
+        { leadId, jobId },
+        { attempt, maxAttempts, failureClass, error: message }
+      );
+
+      // Job que ainda será tentado de novo continua pendente, com o erro da última tentativa
+      await this.updateJobStatus(jobId, retryable && attempt < maxAttempts ? 'pending' : 'failed', message, failureClass);
+
+      // Falhas de dados vão direto para a dead-letter, sem gastar as tentativas restantes
+      if (!retryable) {
+        throw Object.assign(new UnrecoverableError(message), { failureClass });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Reconsulta os dados cadastrais de um lead já processado (política de reenriquecimento)
+   */
+  private async reenrichLead(job: Job): Promise<ReenrichmentResult> {
+    const { leadId } = job.data;
+    const jobId = job.id as string;
+    const attempt = job.attemptsMade + 1;
+    const maxAttempts = job.opts.attempts || 1;
+
+    try {
+      await this.updateJobStatus(jobId, 'processing');
+      const result = await this.leadReenrichmentService.reenrichLead(leadId, jobId);
+      await this.updateJobStatus(jobId, 'completed');
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      const failureClass = classifyFailure(error);
+
+      console.error(`❌ Erro ao reenriquecer lead ${leadId} (${failureClass}):`, error);
+      await this.processingLogService.error(
+        attempt < maxAttempts ? 'Tentativa de reenriquecimento falhou; o job será tentado de novo' : 'Reenriquecimento falhou após todas as tentativas',
+        { leadId, jobId },
+        { attempt, maxAttempts, failureClass, error: message }
+      );
+      await this.updateJobStatus(jobId, 'failed', message, failureClass);
+
+      if (!isRetryableFailure(failureClass)) {
+        throw Object.assign(new UnrecoverableError(message), { failureClass });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Grava o resultado dos passos do pipeline no job (jobs anteriores ao pipeline não têm registro)
+   */
+  private async saveStepResults(jobId: string, stepResults: ProcessingStepResults): Promise<void> {
+    const { count } = await this.prisma.processingJob.updateMany({
+      where: { id: jobId },
+      data: { stepResults: JSON.parse(JSON.stringify(stepResults)) },
+    });
+
+    if (count === 0) {
+      console.warn(`⚠️ Job ${jobId} não encontrado no banco de dados, resultado dos passos não gravado`);
+    }
+  }
+
+  /**
+   * Atualiza status do lead e avisa quem acompanha o processamento (lead e lote)
+   */
+  private async updateLeadStatus(
+    leadId: string,
+    status: string,
+    error?: string,
+    uploadBatchId?: string,
+    failureClass?: FailureClass
+  ): Promise<void> {
+    try {
+      await this.prisma.lead.update({
+        where: { id: leadId },
+        data: {
+          status,
+          processingError: error || null,
+          failureClass: failureClass || null,
+          updatedAt: new Date(),
+        },
+      });
+
+      await this.processingEventsService.publish({ type: 'lead_status', leadId, uploadBatchId, status, error });
+      if (uploadBatchId) {
+        await this.uploadBatchService.publishProgress(uploadBatchId);
+      }
+    } catch (error) {
+      console.error(`Erro ao atualizar status do lead ${leadId}:`, error);
+    }
+  }
+
+  /**
+   * Atualiza status do job
+   */
+  private async updateJobStatus(jobId: string, status: string, error?: string, failureClass?: FailureClass): Promise<void> {
+    try {
+      // Verificar se o job existe antes de atualizar
+      const existingJob = await this.prisma.processingJob.findUnique({
+        where: { id: jobId },
+      });
+
+      if (!existingJob) {
+        console.warn(`⚠️ Job ${jobId} não encontrado no banco de dados, ignorando atualização de status`);
+        return;
+      }
+
+      await this.prisma.processingJob.update({
+        where: { id: jobId },
+        data: {
+          status,
+          error: error || null,
+          failureClass: failureClass || null,
+          startedAt: status === 'processing' ? new Date() : undefined,
+          completedAt: status === 'completed' || status === 'failed' ? new Date() : undefined,
+        },
+      });
+    } catch (error) {
+      console.error(`Erro ao atualizar status do job ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Atualiza progresso e passo atual do job
+   */
+  private async updateJobProgress(jobId: string, progress: number, currentStep: string): Promise<void> {
+    try {
+      // Verificar se o job existe antes de atualizar
+      const existingJob = await this.prisma.processingJob.findUnique({
+        where: { id: jobId },
+      });
+
+      if (!existingJob) {
+        console.warn(`⚠️ Job ${jobId} não encontrado no banco de dados, ignorando atualização de progresso`);
+        return;
+      }
+
+      await this.prisma.processingJob.update({
+        where: { id: jobId },
+        data: {
+          progress,
+          currentStep,
+        },
+      });
+    } catch (error) {
+      console.error(`Erro ao atualizar progresso do job ${jobId}:`, error);
+    }
+  }
+
+  /**
+   * Guarda na fila de dead-letter o job que não será mais tentado, com dados do lead, passos e erro
+   * Cada lead tem no máximo uma entrada (a da última falha), removida quando o lead é reenfileirado
+   */
+  private async moveToDeadLetter(job: Job, err: Error, failureClass: FailureClass): Promise<void> {
+    const { leadId, leadData, uploadBatchId } = job.data;
+
+    try {
+      const processingJob = await this.prisma.processingJob.findUnique({
+        where: { id: job.id as string },
+        select: { stepResults: true },
+      });
+
+      const entry: DeadLetterEntry = {
+        jobId: job.id as string,
+        leadId,
+        uploadBatchId,
+        leadData: leadData || {},
+        failureClass,
+        error: err.message,
+        stacktrace: job.stacktrace || [],
+        attemptsMade: job.attemptsMade,
+        stepResults: (processingJob?.stepResults || {}) as unknown as ProcessingStepResults,
+        failedAt: new Date().toISOString(),
+      };
+
+      const deadLetterJobId = getDeadLetterJobId(leadId);
+      await this.deadLetterQueue.remove(deadLetterJobId);
+      await this.deadLetterQueue.add('dead-letter', entry, { jobId: deadLetterJobId });
+
+      console.log(`🪦 Job ${job.id} do lead ${leadId} movido para a dead-letter (${failureClass})`);
+      await this.processingLogService.warn('Job movido para a fila de dead-letter', { leadId, jobId: job.id as string }, {
+        failureClass,
+        attemptsMade: job.attemptsMade,
+      });
+    } catch (error) {
+      console.error(`Erro ao mover job ${job.id} para a dead-letter:`, error);
+    }
+  }
+
+  /**
+   * Fecha conexões; o worker espera os jobs em andamento terminarem
+   */
+  async close(): Promise<void> {
+    await this.leadProcessingWorker.close();
+    await this.deadLetterQueue.close();
+    await this.settingsSubscriber.quit();
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+    await this.uploadBatchService.close();
+    await this.processingEventsService.close();
+    await this.leadProcessingPipeline.close();
+    await this.leadReenrichmentService.close();
+    await this.processingLogService.close();
+  }
+}
@@ -0,0 +1,226 @@
+import { LeadSecondaryCnae, PrismaClient } from '@prisma/client';
+import { LeadContactService } from './leadContactService';
+import { PotentialAnalysisService } from './potentialAnalysisService';
+import { ProcessingLogService } from './processingLogService';
+import { CompanyData, EnrichmentChanges, EnrichmentField, ReenrichmentResult } from '../types/lead';
+import { createClassifiedError, isRetryableFailure } from '../utils/failureClassification';
+
+// Campos usados na pontuação: quando algum muda, o potencial do lead é recalculado
+const SCORING_FIELDS: EnrichmentField[] = ['cnae', 'secondaryCnaes', 'capitalSocial', 'foundationDate', 'partners'];
+
+/**
+ * Reconsulta os dados cadastrais de um lead já processado (jobs reenrich-lead, executados pelo worker)
+ * Grava os dados novos, registra o que mudou em LeadEnrichmentChange e recalcula o potencial quando preciso;
+ * contatos novos são acrescentados aos do lead; endereço, status e demais campos do lead não são alterados
+ */
+export class LeadReenrichmentService {
+  private prisma: PrismaClient;
+  private potentialAnalysisService: PotentialAnalysisService;
+  private processingLogService: ProcessingLogService;
+  private leadContactService: LeadContactService;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+    this.potentialAnalysisService = new PotentialAnalysisService();
+    this.processingLogService = new ProcessingLogService();
+    this.leadContactService = new LeadContactService();
+  }
+
+  /**
+   * Consulta a API de CNPJ e atualiza o lead
+   * Limite de requisições e indisponibilidade da API lançam erro classificado, para a fila tentar de novo;
+   * CNPJ inexistente ou rejeitado só fica registrado (a consulta conta como feita e o lead sai da política até vencer de novo)
+   */
+  async reenrichLead(leadId: string, jobId: string): Promise<ReenrichmentResult> {
+    const logContext = { leadId, jobId };
+    const lead = await this.prisma.lead.findUnique({ where: { id: leadId }, include: { secondaryCnaes: true } });
+
+    // O lead pode ter sido removido ou reenfileirado depois do agendamento
+    if (!lead || lead.status !== 'processado') {
+      console.log(`⏭️ Reenriquecimento do lead ${leadId} ignorado: ${lead ? `status ${lead.status}` : 'lead não encontrado'}`);
+      return { leadId, skipped: true, changedFields: [], rescored: false };
+    }
+
+    // Sem o cache de CNPJ: o objetivo é justamente buscar os dados atuais
+    const lookup = await this.potentialAnalysisService.lookupCompanyData(lead.cnpj, logContext, { refresh: true });
+    const { companyData } = lookup;
+
+    if (!companyData) {
+      const failureClass = lookup.failureClass || 'internal';
+      if (isRetryableFailure(failureClass)) {
+        throw createClassifiedError(failureClass, lookup.error || 'Falha na consulta à API de CNPJ');
+      }
+
+      await this.prisma.lead.update({ where: { id: leadId }, data: { enrichedAt: new Date() } });
+      await this.processingLogService.warn('Reenriquecimento sem dados cadastrais', logContext, {
+        failureClass,
+        error: lookup.error,
+      });
+      return { leadId, changedFields: [], rescored: false, failureClass };
+    }
+
+    const changes = this.diffCompanyData(lead, companyData);
+    const changedFields = Object.keys(changes) as EnrichmentField[];
+    const rescored = changedFields.some(field => SCORING_FIELDS.includes(field));
+
+    const potentialDetails = rescored
+      ? await this.potentialAnalysisService.getPotentialScoreDetails({
+          cnpj: lead.cnpj,
+          cnae: companyData.cnae || undefined,
+          secondaryCnaes: companyData.secondaryCnaes,
+          capitalSocial: companyData.capitalSocial || undefined,
+          region: lead.validatedState || undefined,
+          foundationDate: companyData.foundationDate || undefined,
+          addressValidated: lead.addressValidated,
+          coordinates: lead.coordinates || (lead.validatedCoordinates ? 'disponível' : undefined),
+          partners: companyData.partners || undefined,
+          validatedState: lead.validatedState || undefined,
+          validatedCoordinates: !!(lead.coordinates || lead.validatedCoordinates),
+        })
+      : undefined;
+
+    await this.prisma.lead.update({
+      where: { id: leadId },
+      data: {
+        cnae: companyData.cnae || null,
+        cnaeDescription: companyData.cnaeDescription || null,
+        secondaryCnaes: {
+          deleteMany: {},
+          create: (companyData.secondaryCnaes || []).map(activity => ({
+            code: activity.code,
+            description: activity.description || null,
+          })),
+        },
+        capitalSocial: companyData.capitalSocial || null,
+        foundationDate: companyData.foundationDate ? new Date(companyData.foundationDate) : null,
+        partners: companyData.partners ? JSON.parse(JSON.stringify(companyData.partners)) : null,
+        registrationStatus: companyData.registrationStatus || null,
+        enrichedAt: new Date(),
+        // Lead processado antes sem enriquecimento agora tem os dados cadastrais
+        processingError: null,
+        failureClass: null,
+        ...(potentialDetails && {
+          potentialScore: potentialDetails.totalScore,
+          potentialLevel: potentialDetails.level,
+          potentialFactors: potentialDetails.factors,
+          potentialConfidence: potentialDetails.confidence,
+        }),
+      },
+    });
+
+    await this.leadContactService.saveEnrichedContacts(leadId, companyData.contacts, lookup.provider || 'unknown');
+
+    if (changedFields.length > 0) {
+      await this.prisma.leadEnrichmentChange.create({
+        data: {
+          leadId,
+          jobId,
+          changes: JSON.parse(JSON.stringify(changes)),
+          rescored,
+          previousScore: potentialDetails ? lead.potentialScore : null,
+          newScore: potentialDetails?.totalScore ?? null,
+          previousLevel: potentialDetails ? lead.potentialLevel : null,
+          newLevel: potentialDetails?.level ?? null,
+        },
+      });
+    }
+
+    // Empresa que deixou de estar ativa continua como lead, mas fica em destaque no histórico
+    if (changes.registrationStatus && companyData.registrationStatus && companyData.registrationStatus.toLowerCase() !== 'ativa') {
+      await this.processingLogService.warn(
+        `Situação cadastral alterada para ${companyData.registrationStatus} na Receita Federal`,
+        logContext,
+        { previousStatus: changes.registrationStatus.before }
+      );
+    }
+
+    console.log(`🔄 Lead ${leadId} reenriquecido: ${changedFields.length > 0 ? changedFields.join(', ') : 'sem alterações'}`);
+    await this.processingLogService.info(
+      changedFields.length > 0 ? 'Dados cadastrais atualizados no reenriquecimento' : 'Reenriquecimento sem alterações nos dados cadastrais',
+      logContext,
+      {
+        changedFields,
+        rescored,
+        previousScore: potentialDetails ? lead.potentialScore : undefined,
+        newScore: potentialDetails?.totalScore,
+        registrationStatus: companyData.registrationStatus,
+      }
+    );
+
+    return {
+      leadId,
+      changedFields,
+      rescored,
+      previousScore: potentialDetails ? lead.potentialScore : undefined,
+      newScore: potentialDetails?.totalScore,
+    };
+  }
+
+  /**
+   * Compara os dados gravados no lead com os da nova consulta (datas pelo dia, sócios pelo nome e qualificação,
+   * atividades secundárias pelos códigos)
+   */
+  private diffCompanyData(lead: any, companyData: CompanyData): EnrichmentChanges {
+    const formatDate = (value: Date | string | null | undefined): string | null => {
+      if (!value) return null;
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+    };
+    const partnerKeys = (partners: unknown): string =>
+      (Array.isArray(partners) ? partners : [])
+        .map((partner: any) => `${partner.name || ''}|${partner.role || ''}`)
+        .sort()
+        .join(';');
+    const cnaeCodes = (activities: unknown): string =>
+      (Array.isArray(activities) ? activities : [])
+        .map((activity: any) => activity.code)
+        .sort()
+        .join(';');
+
+    const current: Record<EnrichmentField, unknown> = {
+      cnae: lead.cnae || null,
+      cnaeDescription: lead.cnaeDescription || null,
+      capitalSocial: lead.capitalSocial || null,
+      foundationDate: formatDate(lead.foundationDate),
+      partners: lead.partners || null,
+      registrationStatus: lead.registrationStatus || null,
+      secondaryCnaes: lead.secondaryCnaes.length > 0
+        ? lead.secondaryCnaes.map((activity: LeadSecondaryCnae) => ({ code: activity.code, description: activity.description || '' }))
+        : null,
+    };
+    const fetched: Record<EnrichmentField, unknown> = {
+      cnae: companyData.cnae || null,
+      cnaeDescription: companyData.cnaeDescription || null,
+      capitalSocial: companyData.capitalSocial || null,
+      foundationDate: formatDate(companyData.foundationDate),
+      partners: companyData.partners || null,
+      registrationStatus: companyData.registrationStatus || null,
+      secondaryCnaes: companyData.secondaryCnaes && companyData.secondaryCnaes.length > 0 ? companyData.secondaryCnaes : null,
+    };
+
+    const changes: EnrichmentChanges = {};
+    for (const field of Object.keys(current) as EnrichmentField[]) {
+      const changed = field === 'partners'
+        ? partnerKeys(current.partners) !== partnerKeys(fetched.partners)
+        : field === 'secondaryCnaes'
+          ? cnaeCodes(current.secondaryCnaes) !== cnaeCodes(fetched.secondaryCnaes)
+          : current[field] !== fetched[field];
+
+      if (changed) {
+        changes[field] = { before: current[field], after: fetched[field] };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+    await this.potentialAnalysisService.close();
+    await this.processingLogService.close();
+    await this.leadContactService.close();
+  }
+}
@@ -0,0 +1,177 @@
+import { Queue } from 'bullmq';
+import Redis from 'ioredis';
+import { PrismaClient } from '@prisma/client';
+import { MaintenanceRun, MaintenanceTaskName, MaintenanceTaskStatus } from '../types/lead';
+import { MAINTENANCE_QUEUE_NAME, createQueueConnection } from '../config/queue';
+
+// Tarefas de manutenção e agendamento padrão (cron); MAINTENANCE_SCHEDULE_<TAREFA> substitui o padrão e "off" desativa
+export const MAINTENANCE_TASKS: Record<MaintenanceTaskName, { description: string; defaultPattern: string }> = {
+  cleanup_jobs: {
+    description: 'Remove jobs concluídos há mais de 7 dias e marca como falhos os jobs travados',
+    defaultPattern: '0 3 * * *',
+  },
+  sync_orphan_jobs: {
+    description: 'Sincroniza os jobs do Redis com os registros do banco',
+    defaultPattern: '*/30 * * * *',
+  },
+  recover_stuck_leads: {
+    description: 'Reenfileira leads parados em processamento sem job ativo',
+    defaultPattern: '*/15 * * * *',
+  },
+  clear_address_cache: {
+    description: 'Remove CEPs expirados do cache de endereços',
+    defaultPattern: '30 3 * * *',
+  },
+  delete_expired_logs: {
+    description: 'Remove logs de processamento fora do período de retenção',
+    defaultPattern: '0 4 * * *',
+  },
+  reenrich_stale_leads: {
+    description: 'Agenda a nova consulta dos dados cadastrais vencidos pela política de reenriquecimento',
+    defaultPattern: '0 2 * * *',
+  },
+  fail_stale_uploads: {
+    description: 'Marca como falhos os uploads interrompidos no meio da leitura da planilha',
+    defaultPattern: '*/15 * * * *',
+  },
+};
+
+// Execuções recentes listadas por padrão no histórico
+const DEFAULT_RUNS_LIMIT = 50;
+
+export class MaintenanceService {
+  private redis: Redis;
+  private prisma: PrismaClient;
+  private maintenanceQueue: Queue;
+
+  constructor() {
+    this.redis = createQueueConnection();
+    this.prisma = new PrismaClient();
+    this.maintenanceQueue = new Queue(MAINTENANCE_QUEUE_NAME, {
+      connection: this.redis,
+      defaultJobOptions: {
+        removeOnComplete: 50,
+        removeOnFail: 50,
+      },
+    });
+  }
+
+  /**
+   * Cria ou atualiza os jobs repetíveis de cada tarefa conforme o agendamento configurado
+   * Chamado na inicialização do worker; vários workers podem chamar, o agendamento é único por tarefa
+   */
+  async scheduleTasks(): Promise<void> {
+    for (const task of Object.keys(MAINTENANCE_TASKS) as MaintenanceTaskName[]) {
+      const pattern = this.getConfiguredPattern(task);
+
+      if (!pattern) {
+        await this.maintenanceQueue.removeJobScheduler(task);
+        console.log(`⏸️ Manutenção ${task} desativada`);
+        continue;
+      }
+
+      await this.maintenanceQueue.upsertJobScheduler(task, { pattern }, { name: task, data: { task } });
+      console.log(`🗓️ Manutenção ${task} agendada (${pattern})`);
+    }
+  }
+
+  /**
+   * Agendamento de cada tarefa com a próxima execução e o resultado da última
+   */
+  async getStatus(): Promise<MaintenanceTaskStatus[]> {
+    const schedulers = await this.maintenanceQueue.getJobSchedulers();
+
+    return Promise.all(
+      (Object.keys(MAINTENANCE_TASKS) as MaintenanceTaskName[]).map(async task => {
+        const scheduler = schedulers.find(item => (item.id || item.key) === task);
+        const lastRun = await this.prisma.maintenanceRun.findFirst({
+          where: { task },
+          orderBy: { startedAt: 'desc' },
+        });
+
+        return {
+          task,
+          description: MAINTENANCE_TASKS[task].description,
+          enabled: !!scheduler,
+          pattern: scheduler?.pattern || undefined,
+          nextRunAt: scheduler?.next ? new Date(scheduler.next).toISOString() : undefined,
+          lastRun: lastRun ? this.mapToMaintenanceRun(lastRun) : undefined,
+        };
+      })
+    );
+  }
+
+  /**
+   * Histórico das execuções (mais recentes primeiro), opcionalmente de uma tarefa
+   */
+  async getRuns(task?: MaintenanceTaskName, limit = DEFAULT_RUNS_LIMIT): Promise<MaintenanceRun[]> {
+    const runs = await this.prisma.maintenanceRun.findMany({
+      where: task ? { task } : {},
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+
+    return runs.map(run => this.mapToMaintenanceRun(run));
+  }
+
+  /**
+   * Registra o resultado de uma execução
+   */
+  async recordRun(
+    task: MaintenanceTaskName,
+    startedAt: Date,
+    outcome: { result: Record<string, number> } | { error: string }
+  ): Promise<void> {
+    const finishedAt = new Date();
+
+    await this.prisma.maintenanceRun.create({
+      data: {
+        task,
+        status: 'error' in outcome ? 'failed' : 'completed',
+        result: 'result' in outcome ? outcome.result : undefined,
+        error: 'error' in outcome ? outcome.error : null,
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+      },
+    });
+  }
+
+  /**
+   * Agendamento da tarefa: variável MAINTENANCE_SCHEDULE_<TAREFA> ou o padrão (null = desativada)
+   */
+  private getConfiguredPattern(task: MaintenanceTaskName): string | null {
+    const configured = process.env[`MAINTENANCE_SCHEDULE_${task.toUpperCase()}`]?.trim();
+
+    if (configured === 'off') {
+      return null;
+    }
+
+    return configured || MAINTENANCE_TASKS[task].defaultPattern;
+  }
+
+  /**
+   * Mapeia dados do Prisma para interface TypeScript
+   */
+  private mapToMaintenanceRun(data: any): MaintenanceRun {
+    return {
+      id: data.id,
+      task: data.task,
+      status: data.status,
+      result: (data.result as Record<string, number>) || undefined,
+      error: data.error || undefined,
+      startedAt: data.startedAt.toISOString(),
+      finishedAt: data.finishedAt.toISOString(),
+      durationMs: data.durationMs,
+    };
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.maintenanceQueue.close();
+    await this.redis.quit();
+    await this.prisma.$disconnect();
+  }
+}
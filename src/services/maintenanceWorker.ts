@@ -0,0 +1,108 @@
+import { Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import { MaintenanceService } from './maintenanceService';
+import { QueueService } from './queueService';
+import { AddressValidationService } from './addressValidationService';
+import { ProcessingLogService } from './processingLogService';
+import { UploadBatchService } from './uploadBatchService';
+import { MaintenanceTaskName } from '../types/lead';
+import { MAINTENANCE_QUEUE_NAME, createQueueConnection } from '../config/queue';
+
+/**
+ * Executa as tarefas de manutenção agendadas (roda só no processo worker, src/worker.ts)
+ * Cada execução fica registrada em MaintenanceRun, com os contadores ou o erro
+ */
+export class MaintenanceWorker {
+  private redis: Redis;
+  private maintenanceService: MaintenanceService;
+  private queueService: QueueService;
+  private addressValidationService: AddressValidationService;
+  private processingLogService: ProcessingLogService;
+  private uploadBatchService: UploadBatchService;
+  private maintenanceWorker: Worker;
+
+  constructor() {
+    this.redis = createQueueConnection();
+    this.maintenanceService = new MaintenanceService();
+    this.queueService = new QueueService();
+    this.addressValidationService = new AddressValidationService();
+    this.processingLogService = new ProcessingLogService();
+    this.uploadBatchService = new UploadBatchService();
+
+    // Uma tarefa por vez: as tarefas mexem nos mesmos jobs e leads
+    this.maintenanceWorker = new Worker(
+      MAINTENANCE_QUEUE_NAME,
+      async (job: Job) => {
+        return await this.runTask(job.data.task);
+      },
+      {
+        connection: this.redis,
+        concurrency: 1,
+      }
+    );
+
+    this.maintenanceWorker.on('failed', (job: Job | undefined, err: Error) => {
+      console.error(`❌ Manutenção ${job?.data.task} falhou:`, err.message);
+    });
+  }
+
+  /**
+   * Agenda as tarefas conforme a configuração
+   */
+  async start(): Promise<void> {
+    await this.maintenanceService.scheduleTasks();
+  }
+
+  /**
+   * Executa a tarefa e registra o resultado
+   */
+  private async runTask(task: MaintenanceTaskName): Promise<Record<string, number>> {
+    const startedAt = new Date();
+    console.log(`🧰 Executando manutenção ${task}...`);
+
+    try {
+      const result = await this.executeTask(task);
+      await this.maintenanceService.recordRun(task, startedAt, { result });
+      return result;
+    } catch (error) {
+      await this.maintenanceService.recordRun(task, startedAt, {
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+      });
+      throw error;
+    }
+  }
+
+  private async executeTask(task: MaintenanceTaskName): Promise<Record<string, number>> {
+    switch (task) {
+      case 'cleanup_jobs':
+        return await this.queueService.cleanupOldJobs();
+      case 'sync_orphan_jobs':
+        return await this.queueService.syncOrphanJobs();
+      case 'recover_stuck_leads':
+        return await this.queueService.recoverStuckLeads();
+      case 'clear_address_cache':
+        return { deleted: await this.addressValidationService.clearExpiredCache() };
+      case 'delete_expired_logs':
+        return { deleted: await this.processingLogService.deleteExpired() };
+      case 'reenrich_stale_leads':
+        return await this.queueService.scheduleReenrichment();
+      case 'fail_stale_uploads':
+        return await this.uploadBatchService.failStaleBatches();
+      default:
+        throw new Error(`Tarefa de manutenção desconhecida: ${task}`);
+    }
+  }
+
+  /**
+   * Fecha conexões; a tarefa em andamento termina antes
+   */
+  async close(): Promise<void> {
+    await this.maintenanceWorker.close();
+    await this.redis.quit();
+    await this.maintenanceService.close();
+    await this.queueService.close();
+    await this.addressValidationService.close();
+    await this.processingLogService.close();
+    await this.uploadBatchService.close();
+  }
+}
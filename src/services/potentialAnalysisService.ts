@@ -1,101 +1,45 @@
+import { PrismaClient } from '@prisma/client';
 import {
+  CnaeActivity,
   CompanyData,
+  CompanyLookupResult,
+  CnpjProviderName,
+  CnpjRawRecord,
+  FailureClass,
   PotentialClassification,
   FacadeAnalysis,
+  ProcessingLogContext,
+  ProcessingLogLevel,
 } from '../types/lead';
 import { CnpjApiRateLimiter } from './cnpjApiRateLimiter';
-
-// Interface para a resposta da API CNPJA
-interface CnpjaApiResponse {
-  updated: string;
-  taxId: string;
-  alias: string | null;
-  founded: string;
-  head: boolean;
-  company: {
-    members: Array<{
-      since: string;
-      person: {
-        id: string;
-        type: string;
-        name: string;
-        taxId: string;
-        age: string;
-      };
-      role: {
-        id: number;
-        text: string;
-      };
-    }>;
-    id: number;
-    name: string;
-    equity: number;
-    nature: {
-      id: number;
-      text: string;
-    };
-    size: {
-      id: number;
-      acronym: string;
-      text: string;
-    };
-    simples: {
-      optant: boolean;
-      since: string | null;
-    };
-    simei: {
-      optant: boolean;
-      since: string | null;
-    };
-  };
-  statusDate: string;
-  status: {
-    id: number;
-    text: string;
-  };
-  address: {
-    municipality: number;
-    street: string;
-    number: string;
-    district: string;
-    city: string;
-    state: string;
-    details: string;
-    zip: string;
-    country: {
-      id: number;
-      name: string;
-    };
-  };
-  mainActivity: {
-    id: number;
-    text: string;
-  };
-  phones: any[];
-  emails: any[];
-  sideActivities: any[];
-  registrations: Array<{
-    number: string;
-    state: string;
-    enabled: boolean;
-    statusDate: string;
-    status: {
-      id: number;
-      text: string;
-    };
-    type: {
-      id: number;
-      text: string;
-    };
-  }>;
-  suframe: any[];
-}
+import {
+  CnpjProvider,
+  CnpjProviderRecord,
+  CnpjProviderResponse,
+  createCnpjProviders,
+  getCnpjProviderSettings,
+} from './cnpjProviders';
+import { ProcessingLogService } from './processingLogService';
+import { ConfigurableScoringService } from './configurableScoringService';
+import { classifyFailure } from '../utils/failureClassification';
+
+// Dias em que os dados do cache de CNPJ são usados sem nova consulta
+const CNPJ_CACHE_TTL_DAYS = 30;
 
 export class PotentialAnalysisService {
+  private prisma: PrismaClient;
+  private cnpjProviders: CnpjProvider[];
   private cnpjApiRateLimiter: CnpjApiRateLimiter;
+  private processingLogService: ProcessingLogService;
+  private configurableScoringService: ConfigurableScoringService;
 
   constructor() {
-    this.cnpjApiRateLimiter = new CnpjApiRateLimiter();
+    const cnpjProviderSettings = getCnpjProviderSettings();
+    this.prisma = new PrismaClient();
+    this.cnpjProviders = createCnpjProviders(cnpjProviderSettings);
+    this.cnpjApiRateLimiter = new CnpjApiRateLimiter(cnpjProviderSettings);
+    this.processingLogService = new ProcessingLogService();
+    this.configurableScoringService = new ConfigurableScoringService();
   }
 
   /**
@@ -609,18 +553,8 @@ export class PotentialAnalysisService {
       
       // Buscar dados da empresa (implementar integração com Receita Federal ou similar)
       const companyData = await this.fetchCompanyData(cleanCnpj);
-      
-      if (!companyData) {
-        return {
-          score: 0,
-          level: 'baixo',
-          factors: ['CNPJ não encontrado ou inválido'],
-          confidence: 0,
-        };
-      }
 
-      // Analisar potencial baseado nos dados obtidos
-      return this.analyzePotentialByCompanyData(companyData);
+      return this.analyzePotentialFromCompanyData(companyData);
     } catch (error) {
       console.error(`❌ Erro ao analisar CNPJ ${cnpj}:`, error);
       
@@ -633,6 +567,33 @@ export class PotentialAnalysisService {
     }
   }
 
+  /**
+   * Analisa o potencial a partir dos dados cadastrais já consultados (null = CNPJ não encontrado)
+   */
+  analyzePotentialFromCompanyData(companyData: CompanyData | null): PotentialClassification {
+    if (!companyData) {
+      return {
+        score: 0,
+        level: 'baixo',
+        factors: ['CNPJ não encontrado ou inválido'],
+        confidence: 0,
+      };
+    }
+
+    try {
+      return this.analyzePotentialByCompanyData(companyData);
+    } catch (error) {
+      console.error(`❌ Erro ao analisar CNPJ ${companyData.cnpj}:`, error);
+
+      return {
+        score: 0,
+        level: 'baixo',
+        factors: ['Erro na análise do CNPJ'],
+        confidence: 0,
+      };
+    }
+  }
+
   /**
    * Calcula potencial final combinando validação de endereço e análise de CNPJ
    */
@@ -674,112 +635,264 @@ export class PotentialAnalysisService {
   }
 
   /**
-   * Busca dados da empresa por CNPJ usando API gratuita
+   * Busca dados da empresa por CNPJ nos provedores configurados (CNPJ_PROVIDERS), em ordem de prioridade
    * 
-   * IMPLEMENTAÇÃO DE RETRY INTELIGENTE:
-   * - Máximo de 5 tentativas 
-   * - Backoff exponencial: 90s, 180s, 360s, 720s, 1440s
-   * - Tratamento específico para rate limit (429)
-   * - Retry automático para erros de servidor (5xx)
-   * - Logs detalhados de cada tentativa
+   * FALLBACK E RETRY:
+   * - Provedor no limite de consultas, com 429, 5xx ou erro de rede: passa na hora para o próximo provedor
+   * - Todos os provedores no limite local: aguarda o primeiro liberar (não conta como tentativa)
+   * - Todos falharam: nova rodada com backoff exponencial (90s, 180s, 360s, 720s), máximo de 5 rodadas
+   * - CNPJ inexistente (404) ou rejeitado (400) é resposta definitiva: não consulta os demais provedores
+   * - Logs detalhados de cada consulta
+   * 
+   * CACHE: dados consultados nos últimos CNPJ_CACHE_TTL_DAYS dias vêm da tabela cnpj_cache, sem consultar a API;
+   * refresh ignora o cache (reenriquecimento), mas a resposta nova é gravada nele
    * 
    * GARANTIA: Todos os leads serão processados, mesmo com falhas temporárias da API
+   *
+   * Com logContext, cada tentativa e o resultado ficam registrados nos logs de processamento do lead
    */
-  public async fetchCompanyData(cnpj: string): Promise<CompanyData | null> {
+  public async fetchCompanyData(cnpj: string, logContext?: ProcessingLogContext): Promise<CompanyData | null> {
+    return (await this.lookupCompanyData(cnpj, logContext)).companyData;
+  }
+
+  /**
+   * Consulta os dados cadastrais (mesmas tentativas de fetchCompanyData) e, sem dados, informa a classe da falha
+   */
+  public async lookupCompanyData(
+    cnpj: string,
+    logContext?: ProcessingLogContext,
+    options: { refresh?: boolean } = {}
+  ): Promise<CompanyLookupResult> {
+    const log = (level: ProcessingLogLevel, message: string, details: Record<string, unknown>) =>
+      logContext ? this.processingLogService.log(level, message, logContext, { cnpj, ...details }) : Promise.resolve();
+
     const maxRetries = 5;
     const baseDelay = 90000;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`🔍 Tentativa ${attempt}/${maxRetries} - Buscando dados da empresa ${cnpj} na API...`);
-        
-        // Verificar rate limit antes de fazer a consulta
-        if (!(await this.cnpjApiRateLimiter.canMakeRequest())) {
-          console.log(`⏳ Rate limit atingido para CNPJ ${cnpj}, aguardando...`);
-          await this.cnpjApiRateLimiter.waitForAvailability();
+
+    // Limpar CNPJ (remover caracteres especiais)
+    const cleanCnpj = cnpj.replace(/\D/g, '');
+    let attempt = 1;
+
+    // Verifica cache primeiro
+    if (!options.refresh) {
+      const cached = await this.prisma.cnpjCache.findFirst({
+        where: {
+          cnpj: cleanCnpj,
+          expiresAt: {
+            gt: new Date(),
+          },
+        },
+      });
+
+      if (cached) {
+        console.log(`📋 CNPJ ${cleanCnpj} encontrado no cache do banco (${cached.provider})`);
+        await log('info', 'Dados cadastrais encontrados no cache de CNPJ', {
+          provider: cached.provider,
+          fetchedAt: cached.fetchedAt.toISOString(),
+        });
+        return {
+          companyData: this.buildCompanyData(cached.record as unknown as CnpjProviderRecord),
+          provider: cached.provider as CnpjProviderName,
+          cached: true,
+        };
+      }
+    }
+
+    while (attempt <= maxRetries) {
+      // Falhas temporárias da rodada, por provedor, e menor espera entre os provedores no limite local
+      const failures: Array<{ provider: CnpjProviderName; failureClass: FailureClass; detail: string }> = [];
+      let waitMs = 0;
+
+      for (const provider of this.cnpjProviders) {
+        const msBeforeNext = await this.cnpjApiRateLimiter.consume(provider.name);
+        if (msBeforeNext > 0) {
+          console.log(`⏳ Limite de consultas do provedor ${provider.name} atingido para CNPJ ${cnpj}`);
+          waitMs = waitMs > 0 ? Math.min(waitMs, msBeforeNext) : msBeforeNext;
+          continue;
         }
-        
-        // Limpar CNPJ (remover caracteres especiais)
-        const cleanCnpj = cnpj.replace(/\D/g, '');
-        
-        // Fazer requisição para a API gratuita
-        const response = await fetch(`https://open.cnpja.com/office/${cleanCnpj}`, {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'CocoLitoraneoLeads/1.0'
+
+        try {
+          console.log(`🔍 Tentativa ${attempt}/${maxRetries} - Buscando dados da empresa ${cnpj} em ${provider.name}...`);
+          const response = await provider.lookup(cleanCnpj);
+
+          // Provedor sem resposta para o CNPJ (ex.: fora do arquivo local)
+          if (!response) {
+            continue;
           }
-        });
-        
-        // Verificar se é rate limit (429) - precisa de retry
-        if (response.status === 429) {
-          const delay = baseDelay * Math.pow(2, attempt - 1); // Backoff exponencial: 90s, 180s, 360s, 720s, 1440s
-          console.log(`⚠️ Rate limit (429) para CNPJ ${cnpj}. Tentativa ${attempt}/${maxRetries}. Aguardando ${delay/1000}s...`);
-          
-          if (attempt < maxRetries) {
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue; // Tentar novamente
-          } else {
-            console.error(`❌ Rate limit persistente após ${maxRetries} tentativas para CNPJ ${cnpj}`);
-            return null;
+
+          if (response.record) {
+            const companyData = this.buildCompanyData(response.record);
+            await this.saveToCnpjCache(cleanCnpj, provider.name, response);
+
+            console.log(`📊 Dados recebidos de ${provider.name}: CNAE ${companyData.cnae}, Capital R$ ${companyData.capitalSocial}`);
+            await log('info', 'Dados cadastrais recebidos da API de CNPJ', {
+              attempt,
+              provider: provider.name,
+              cnae: companyData.cnae,
+              capitalSocial: companyData.capitalSocial,
+            });
+            return { companyData, provider: provider.name };
           }
-        }
-        
-        // Verificar outros erros HTTP
-        if (!response.ok) {
-          console.warn(`⚠️ API retornou status ${response.status} para CNPJ ${cnpj}`);
-          if (attempt < maxRetries && response.status >= 500) {
-            // Erros de servidor podem ser temporários
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-            console.log(`🔄 Erro de servidor (${response.status}). Tentativa ${attempt}/${maxRetries}. Aguardando ${delay/1000}s...`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+
+          // Limite (429), indisponibilidade (5xx) ou recusa do provedor: segue para o próximo
+          if (response.status !== 404 && response.status !== 400) {
+            console.warn(`⚠️ Provedor ${provider.name} retornou status ${response.status} para CNPJ ${cnpj}`);
+            await log('warn', `API de CNPJ ${provider.name} retornou status ${response.status}`, {
+              attempt,
+              provider: provider.name,
+              status: response.status,
+            });
+            failures.push({
+              provider: provider.name,
+              failureClass: response.status === 429 ? 'rate_limited' : this.classifyHttpFailure(cleanCnpj, response.status).failureClass!,
+              detail: `status ${response.status}`,
+            });
             continue;
           }
-          return null;
+
+          // CNPJ inexistente ou rejeitado: resposta definitiva
+          console.warn(`⚠️ Provedor ${provider.name} retornou status ${response.status} para CNPJ ${cnpj}`);
+          await log('error', `API de CNPJ ${provider.name} retornou status ${response.status}`, {
+            attempt,
+            provider: provider.name,
+            status: response.status,
+          });
+          return { companyData: null, provider: provider.name, ...this.classifyHttpFailure(cleanCnpj, response.status) };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`❌ Erro na consulta ao provedor ${provider.name} para CNPJ ${cnpj}:`, error);
+          await log('warn', 'Erro de rede na consulta à API de CNPJ', { attempt, provider: provider.name, error: message });
+          failures.push({ provider: provider.name, failureClass: classifyFailure(error), detail: message });
         }
+      }
 
-        // Sucesso! Processar dados
-        const apiData = await response.json() as CnpjaApiResponse;
-        console.log(`✅ Dados recebidos da API para CNPJ ${cnpj} na tentativa ${attempt}`);
+      if (failures.length === 0) {
+        if (waitMs > 0) {
+          // Todos os provedores no limite local: aguarda sem gastar tentativa
+          console.log(`⏳ Todos os provedores de CNPJ no limite, aguardando ${Math.ceil(waitMs / 1000)}s...`);
+          await log('info', 'Aguardando limite de consultas da API de CNPJ', { attempt, waitMs });
+          await new Promise(resolve => setTimeout(resolve, waitMs));
+          continue;
+        }
 
-        // Mapear dados da API para nosso formato
-        const companyData: CompanyData = {
-          cnpj: cleanCnpj,
-          companyName: apiData.company?.name || '',
-          tradeName: apiData.alias || '',
-          cnae: apiData.mainActivity?.id?.toString() || '',
-          cnaeDescription: apiData.mainActivity?.text || '',
-          capitalSocial: apiData.company?.equity || 0,
-          foundationDate: apiData.founded || '',
-          partners: apiData.company?.members?.map((member) => ({
-            name: member.person?.name || '',
-            cpf: member.person?.taxId || '',
-            participation: 0, // API não fornece percentual
-            role: member.role?.text || ''
-          })) || [],
-          region: this.extractRegionFromState(apiData.address?.state),
-          marketSegment: this.extractMarketSegment(apiData.mainActivity?.text || ''),
+        // Nenhum provedor tinha o CNPJ (só provedores locais configurados)
+        await log('error', 'CNPJ sem dados nos provedores configurados', { attempt });
+        return {
+          companyData: null,
+          failureClass: 'cnpj_not_found',
+          error: `CNPJ ${cleanCnpj} sem dados nos provedores de CNPJ configurados`,
         };
+      }
 
-        console.log(`📊 Dados mapeados: CNAE ${companyData.cnae}, Capital R$ ${companyData.capitalSocial}`);
-        return companyData;
+      const summary = failures.map(failure => `${failure.provider}: ${failure.detail}`).join('; ');
 
-      } catch (error) {
-        console.error(`❌ Erro na tentativa ${attempt}/${maxRetries} para CNPJ ${cnpj}:`, error);
-        
-        if (attempt < maxRetries) {
-          const delay = baseDelay * Math.pow(2, attempt - 1);
-          console.log(`🔄 Erro de rede. Tentativa ${attempt}/${maxRetries}. Aguardando ${delay/1000}s...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        } else {
-          console.error(`❌ Falha definitiva após ${maxRetries} tentativas para CNPJ ${cnpj}`);
-          return null;
-        }
+      if (attempt < maxRetries) {
+        const delay = baseDelay * Math.pow(2, attempt - 1); // Backoff exponencial: 90s, 180s, 360s, 720s
+        console.log(`🔄 Provedores de CNPJ indisponíveis (${summary}). Tentativa ${attempt}/${maxRetries}. Aguardando ${delay / 1000}s...`);
+        await log('warn', 'Provedores de CNPJ indisponíveis, nova tentativa agendada', { attempt, retryInMs: delay, failures });
+        await new Promise(resolve => setTimeout(resolve, delay));
+        attempt++;
+        continue;
       }
+
+      console.error(`❌ Falha definitiva após ${maxRetries} tentativas para CNPJ ${cnpj} (${summary})`);
+      await log('error', 'Enriquecimento desistiu: provedores de CNPJ indisponíveis', { attempts: maxRetries, failures });
+      return {
+        companyData: null,
+        // Só limite de requisições = rate_limited; qualquer indisponibilidade = network
+        failureClass: failures.every(failure => failure.failureClass === 'rate_limited')
+          ? 'rate_limited'
+          : failures.find(failure => failure.failureClass !== 'rate_limited')!.failureClass,
+        error: `Provedores de CNPJ indisponíveis após ${maxRetries} tentativas (${summary})`,
+      };
     }
-    
-    return null; // Nunca deve chegar aqui, mas por segurança
+
+    return { companyData: null, failureClass: 'internal', error: 'Consulta à API de CNPJ sem resultado' }; // Nunca deve chegar aqui, mas por segurança
+  }
+
+  /**
+   * Completa os dados do provedor com região e segmento de mercado
+   */
+  private buildCompanyData(providerRecord: CnpjProviderRecord): CompanyData {
+    const { state, ...record } = providerRecord;
+    return {
+      ...record,
+      region: this.extractRegionFromState(state || ''),
+      marketSegment: this.extractMarketSegment(record.cnaeDescription || ''),
+    };
+  }
+
+  /**
+   * Salva a resposta do provedor no cache do banco (expira em CNPJ_CACHE_TTL_DAYS dias)
+   * Os provedores locais (fixture e receita) não são cacheados: a consulta já é local, e os dados de teste não
+   * ficam no lugar dos dados reais ao trocar de provedor
+   * Falhas de gravação não interrompem a consulta
+   */
+  private async saveToCnpjCache(cnpj: string, provider: CnpjProviderName, response: CnpjProviderResponse): Promise<void> {
+    if (provider === 'fixture' || provider === 'receita') {
+      return;
+    }
+
+    try {
+      const ttlDays = parseInt(process.env.CNPJ_CACHE_TTL_DAYS || '') || CNPJ_CACHE_TTL_DAYS;
+      const fetchedAt = new Date();
+      const expiresAt = new Date(fetchedAt.getTime() + ttlDays * 24 * 60 * 60 * 1000);
+      const data = {
+        provider,
+        data: JSON.parse(JSON.stringify(response.raw ?? null)),
+        record: JSON.parse(JSON.stringify(response.record)),
+        fetchedAt,
+        expiresAt,
+      };
+
+      await this.prisma.cnpjCache.upsert({
+        where: { cnpj },
+        update: data,
+        create: { cnpj, ...data },
+      });
+      console.log(`✅ CNPJ ${cnpj} cacheado no banco (${provider})`);
+    } catch (error) {
+      console.error(`Erro ao gravar o CNPJ ${cnpj} no cache:`, error);
+    }
+  }
+
+  /**
+   * Resposta original do provedor guardada no cache para o CNPJ (inclusive vencida), ou null
+   */
+  public async getCnpjRawRecord(cnpj: string): Promise<CnpjRawRecord | null> {
+    const cached = await this.prisma.cnpjCache.findUnique({ where: { cnpj: cnpj.replace(/\D/g, '') } });
+    if (!cached) {
+      return null;
+    }
+
+    return {
+      cnpj: cached.cnpj,
+      provider: cached.provider as CnpjProviderName,
+      fetchedAt: cached.fetchedAt.toISOString(),
+      expiresAt: cached.expiresAt.toISOString(),
+      expired: cached.expiresAt <= new Date(),
+      data: cached.data,
+    };
+  }
+
+  /**
+   * Classe da falha para as respostas HTTP de erro da API de CNPJ
+   * 404 = CNPJ inexistente; 400 = CNPJ rejeitado; 5xx após as tentativas = API indisponível
+   */
+  private classifyHttpFailure(cnpj: string, status: number): Pick<CompanyLookupResult, 'failureClass' | 'error'> {
+    if (status === 404) {
+      return { failureClass: 'cnpj_not_found', error: `CNPJ ${cnpj} não encontrado na API de CNPJ` };
+    }
+
+    if (status === 400) {
+      return { failureClass: 'validation', error: `CNPJ ${cnpj} rejeitado pela API de CNPJ (status 400)` };
+    }
+
+    if (status >= 500) {
+      return { failureClass: 'network', error: `API de CNPJ indisponível (status ${status})` };
+    }
+
+    return { failureClass: 'internal', error: `API de CNPJ retornou status ${status}` };
   }
 
   /**
@@ -817,31 +930,34 @@ export class PotentialAnalysisService {
   }
 
   /**
-   * Obtém informações sobre o rate limit da API de CNPJ
+   * Obtém informações sobre o limite de consultas de cada provedor de CNPJ, na ordem de prioridade
    */
-  public async getCnpjApiRateLimitInfo(): Promise<{
-    remaining: number;
-    resetTime: number;
-    isBlocked: boolean;
-  }> {
+  public async getCnpjApiRateLimitInfo(): ReturnType<CnpjApiRateLimiter['getRateLimitInfo']> {
     return await this.cnpjApiRateLimiter.getRateLimitInfo();
   }
 
   /**
-   * Fecha conexões do rate limiter
+   * Fecha conexões (banco, provedores e rate limiter)
    */
   public async close(): Promise<void> {
+    await this.prisma.$disconnect();
+    await Promise.all(this.cnpjProviders.map(provider => provider.close?.()));
     await this.cnpjApiRateLimiter.close();
+    await this.processingLogService.close();
+    await this.configurableScoringService.close();
   }
 
   /**
    * Retorna os detalhes da pontuação para exibição no frontend
    * Centraliza toda a lógica de pontuação para evitar duplicação
+   * O CNAE é pontuado pelas categorias de CNAE da configuração ativa (que, conforme o cnaeMatch, pontuam também
+   * as atividades secundárias); sem elas, vale a tabela fixa de analyzeCnae, só com o CNAE principal
    */
-  getPotentialScoreDetails(data: {
+  async getPotentialScoreDetails(data: {
     cnpj?: string;
     companyName?: string;
     cnae?: string;
+    secondaryCnaes?: CnaeActivity[];
     capitalSocial?: number;
     foundationDate?: string;
     partners?: any[];
@@ -850,17 +966,19 @@ export class PotentialAnalysisService {
     coordinates?: string;
     validatedState?: string; // Adicionado para suportar a nova lógica
     validatedCoordinates?: boolean; // Adicionado para suportar a nova lógica
-  }): {
+  }): Promise<{
     totalScore: number;
     level: 'baixo' | 'médio' | 'alto';
     factors: Array<{ factor: string; points: number; description: string }>;
     confidence: number;
-  } {
+  }> {
     const factors: Array<{ factor: string; points: number; description: string }> = [];
     let totalScore = 0;
 
-    if (data.cnae) {
-      const cnaeScore = this.analyzeCnae(data.cnae);
+    const cnaeScore =
+      (await this.configurableScoringService.analyzeCnaeScore(data.cnae, data.secondaryCnaes)) ||
+      (data.cnae ? this.analyzeCnae(data.cnae) : null);
+    if (cnaeScore && (data.cnae || cnaeScore.score > 0)) {
       totalScore += cnaeScore.score;
       factors.push({
         factor: 'CNAE',
@@ -0,0 +1,67 @@
+import Redis from 'ioredis';
+import { ProcessingEvent } from '../types/lead';
+
+// Canal do Redis usado para levar os eventos do worker até os clientes conectados na API
+const PROCESSING_EVENTS_CHANNEL = 'processing-events';
+
+type ProcessingEventListener = (event: ProcessingEvent) => void;
+
+export class ProcessingEventsService {
+  private publisher?: Redis;
+  private subscriber?: Redis;
+  private listeners = new Set<ProcessingEventListener>();
+
+  /**
+   * Publica um evento de processamento para todos os processos da API
+   * Falhas de publicação não interrompem o processamento
+   */
+  async publish(event: ProcessingEvent): Promise<void> {
+    try {
+      if (!this.publisher) {
+        this.publisher = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+      }
+
+      await this.publisher.publish(PROCESSING_EVENTS_CHANNEL, JSON.stringify(event));
+    } catch (error) {
+      console.error(`Erro ao publicar evento ${event.type}:`, error);
+    }
+  }
+
+  /**
+   * Registra um ouvinte dos eventos; devolve a função que cancela a inscrição
+   * A conexão de inscrição no Redis só é aberta quando o primeiro ouvinte se registra
+   */
+  subscribe(listener: ProcessingEventListener): () => void {
+    if (!this.subscriber) {
+      this.subscriber = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+      this.subscriber.subscribe(PROCESSING_EVENTS_CHANNEL).catch(error => {
+        console.error('Erro ao assinar eventos de processamento:', error);
+      });
+      this.subscriber.on('message', (_channel: string, message: string) => {
+        let event: ProcessingEvent;
+        try {
+          event = JSON.parse(message);
+        } catch (error) {
+          console.warn('⚠️ Evento de processamento inválido ignorado:', message);
+          return;
+        }
+
+        for (const registered of this.listeners) {
+          registered(event);
+        }
+      });
+    }
+
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await Promise.all([this.publisher?.quit(), this.subscriber?.quit()]);
+  }
+}
@@ -0,0 +1,93 @@
+import { PrismaClient } from '@prisma/client';
+import { ProcessingLogContext, ProcessingLogEntry, ProcessingLogLevel } from '../types/lead';
+
+export class ProcessingLogService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+  }
+
+  /**
+   * Grava um log de processamento
+   * Falhas de gravação não interrompem o processamento
+   */
+  async log(
+    level: ProcessingLogLevel,
+    message: string,
+    context: ProcessingLogContext = {},
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      await this.prisma.processingLog.create({
+        data: {
+          leadId: context.leadId,
+          jobId: context.jobId,
+          level,
+          message,
+          details: details ? JSON.parse(JSON.stringify(details)) : undefined,
+        },
+      });
+    } catch (error) {
+      console.error(`Erro ao gravar log de processamento "${message}":`, error);
+    }
+  }
+
+  async info(message: string, context?: ProcessingLogContext, details?: Record<string, unknown>): Promise<void> {
+    await this.log('info', message, context, details);
+  }
+
+  async warn(message: string, context?: ProcessingLogContext, details?: Record<string, unknown>): Promise<void> {
+    await this.log('warn', message, context, details);
+  }
+
+  async error(message: string, context?: ProcessingLogContext, details?: Record<string, unknown>): Promise<void> {
+    await this.log('error', message, context, details);
+  }
+
+  /**
+   * Busca os logs de um lead, do mais antigo para o mais recente
+   * Com mais registros que o limite, ficam os mais recentes
+   */
+  async findByLead(leadId: string, limit = 500): Promise<ProcessingLogEntry[]> {
+    const logs = await this.prisma.processingLog.findMany({
+      where: { leadId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return logs.reverse().map(log => ({
+      id: log.id,
+      leadId: log.leadId || undefined,
+      jobId: log.jobId || undefined,
+      level: log.level as ProcessingLogLevel,
+      message: log.message,
+      details: (log.details as Record<string, unknown>) || undefined,
+      createdAt: log.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Remove os logs mais antigos que o período de retenção (PROCESSING_LOG_RETENTION_DAYS, padrão 30 dias)
+   * Usado pela tarefa de manutenção delete_expired_logs
+   */
+  async deleteExpired(): Promise<number> {
+    const retentionDays = parseInt(process.env.PROCESSING_LOG_RETENTION_DAYS || '30');
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const { count } = await this.prisma.processingLog.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+
+    if (count > 0) {
+      console.log(`🧹 ${count} logs de processamento com mais de ${retentionDays} dias removidos`);
+    }
+    return count;
+  }
+
+  /**
+   * Fecha conexão com o banco
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
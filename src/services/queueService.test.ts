@@ -0,0 +1,90 @@
+import { mergeSourceFields, normalizeSourceValue, readUserEditedFields } from './queueService';
+
+const existingLead = {
+  companyName: 'Coco Litorâneo Ltda',
+  tradeName: '',
+  city: 'AL - Maceió',
+  zipCode: '57000-000',
+  streetAddress: 'Rua A, 10',
+  phone: null,
+  userEditedFields: ['streetAddress'],
+};
+
+describe('normalizeSourceValue', () => {
+  it('ignora espaços extras e maiúsculas', () => {
+    expect(normalizeSourceValue('companyName', '  Coco   LITORÂNEO ltda ')).toBe('coco litorâneo ltda');
+  });
+
+  it('compara CEP e telefone só pelos dígitos', () => {
+    expect(normalizeSourceValue('zipCode', '57000-000')).toBe('57000000');
+    expect(normalizeSourceValue('phone', '(82) 99999-0000')).toBe('82999990000');
+  });
+
+  it('trata valores ausentes como vazios', () => {
+    expect(normalizeSourceValue('tradeName', null)).toBe('');
+    expect(normalizeSourceValue('tradeName', undefined)).toBe('');
+  });
+});
+
+describe('readUserEditedFields', () => {
+  it('mantém só os campos da fonte', () => {
+    expect(readUserEditedFields(['city', 'userNotes', 'zipCode', 1])).toEqual(['city', 'zipCode']);
+  });
+
+  it('devolve lista vazia para valores que não são lista', () => {
+    expect(readUserEditedFields(null)).toEqual([]);
+    expect(readUserEditedFields(undefined)).toEqual([]);
+    expect(readUserEditedFields({ city: true })).toEqual([]);
+  });
+});
+
+describe('mergeSourceFields', () => {
+  it('no overwrite atualiza os campos alterados e preenche os vazios', () => {
+    const changes = mergeSourceFields(
+      existingLead,
+      { companyName: 'Coco Praia Ltda', tradeName: 'Coco Praia', phone: '82 99999-0000' },
+      'overwrite'
+    );
+    expect(changes).toEqual({ companyName: 'Coco Praia Ltda', tradeName: 'Coco Praia', phone: '82 99999-0000' });
+  });
+
+  it('no fill_empty só preenche os campos vazios', () => {
+    const changes = mergeSourceFields(
+      existingLead,
+      { companyName: 'Coco Praia Ltda', tradeName: 'Coco Praia' },
+      'fill_empty'
+    );
+    expect(changes).toEqual({ tradeName: 'Coco Praia' });
+  });
+
+  it('nunca apaga dados com células vazias', () => {
+    expect(mergeSourceFields(existingLead, { companyName: '  ', city: '' }, 'overwrite')).toEqual({});
+  });
+
+  it('ignora diferenças só de formatação', () => {
+    const changes = mergeSourceFields(
+      existingLead,
+      { companyName: ' COCO LITORÂNEO  LTDA', zipCode: '57000000', city: 'al - maceió' },
+      'overwrite'
+    );
+    expect(changes).toEqual({});
+  });
+
+  it('mantém os campos corrigidos pelo usuário no overwrite', () => {
+    const changes = mergeSourceFields(
+      existingLead,
+      { streetAddress: 'Rua B, 20', city: 'AL - Marechal Deodoro' },
+      'overwrite'
+    );
+    expect(changes).toEqual({ city: 'AL - Marechal Deodoro' });
+  });
+
+  it('preenche campo marcado como editado pelo usuário quando ele está vazio', () => {
+    const changes = mergeSourceFields(
+      { ...existingLead, streetAddress: '' },
+      { streetAddress: 'Rua B, 20' },
+      'overwrite'
+    );
+    expect(changes).toEqual({ streetAddress: 'Rua B, 20' });
+  });
+});
@@ -1,37 +1,150 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, JobType } from 'bullmq';
 import Redis from 'ioredis';
-import { PrismaClient } from '@prisma/client';
-import { AddressValidationService } from './addressValidationService';
-import { PotentialAnalysisService } from './potentialAnalysisService';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { ENRICHMENT_FAILURE_MESSAGE } from './leadProcessingPipeline';
+import { UploadBatchService } from './uploadBatchService';
+import { ProcessingEventsService } from './processingEventsService';
+import { ProcessingLogService } from './processingLogService';
+import {
+  ImportRowErrorReason,
+  ReimportMode,
+  QueueJobState,
+  QueueJobSummary,
+  QueueStatus,
+  FailureClass,
+  DeadLetterEntry,
+  FailureReport,
+} from '../types/lead';
+import { normalizeCnpj, isValidCnpj } from '../utils/cnpj';
+import { FAILURE_ACTIONS, FAILURE_CLASSES } from '../utils/failureClassification';
+import {
+  LEAD_PROCESSING_QUEUE_NAME,
+  DEAD_LETTER_QUEUE_NAME,
+  MAX_WORKER_CONCURRENCY,
+  WORKER_CONCURRENCY_KEY,
+  WORKER_SETTINGS_CHANNEL,
+  createQueueConnection,
+  getDeadLetterJobId,
+  readWorkerConcurrency,
+} from '../config/queue';
+import { REENRICHMENT_JOB_NAME, REENRICHMENT_JOB_PRIORITY, getReenrichmentPolicy } from '../config/reenrichment';
+
+// Campos do lead preenchidos a partir da planilha ou da API bulk (os únicos alterados por uma reimportação)
+export const SOURCE_FIELDS = [
+  'companyName',
+  'tradeName',
+  'matrixName',
+  'city',
+  'district',
+  'subdistrict',
+  'zipCode',
+  'neighborhood',
+  'streetAddress',
+  'suggestedAddress',
+  'coordinates',
+  'streetViewUrl',
+  'phone',
+  'email',
+  'website',
+] as const;
+
+export type SourceField = typeof SOURCE_FIELDS[number];
+
+/**
+ * Valor de um campo da fonte na forma usada para comparar planilha, lead gravado e edição do usuário:
+ * sem espaços extras e sem diferença de maiúsculas; CEP e telefone só com dígitos
+ */
+export function normalizeSourceValue(field: SourceField, value: unknown): string {
+  const text = String(value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+  return field === 'zipCode' || field === 'phone' ? text.replace(/\D/g, '') : text;
+}
+
+/**
+ * Campos da fonte editados pelo usuário, gravados em Lead.userEditedFields
+ */
+export function readUserEditedFields(value: Prisma.JsonValue | undefined): SourceField[] {
+  return Array.isArray(value)
+    ? SOURCE_FIELDS.filter(field => value.includes(field))
+    : [];
+}
+
+/**
+ * Calcula as alterações da reimportação
+ * Só campos da fonte são considerados; campos editados pelo usuário (userNotes etc.) nunca são tocados
+ * Células vazias na planilha nunca apagam dados existentes, e o overwrite mantém os campos da fonte que o
+ * usuário corrigiu na tabela (userEditedFields)
+ */
+export function mergeSourceFields(
+  existingLead: Partial<Record<SourceField, string | null>> & { userEditedFields?: Prisma.JsonValue },
+  incoming: Partial<Record<SourceField, string>>,
+  mode: ReimportMode
+): Partial<Record<SourceField, string>> {
+  const changes: Partial<Record<SourceField, string>> = {};
+  const userEditedFields = readUserEditedFields(existingLead.userEditedFields);
+
+  for (const field of SOURCE_FIELDS) {
+    const newValue = (incoming[field] || '').trim();
+    const currentValue = existingLead[field] ?? '';
+
+    if (!newValue || normalizeSourceValue(field, newValue) === normalizeSourceValue(field, currentValue)) continue;
+    if (currentValue !== '' && (mode === 'fill_empty' || userEditedFields.includes(field))) continue;
+
+    changes[field] = newValue;
+  }
+
+  return changes;
+}
+
+// Erro gravado no lead e no job quando o job pendente é cancelado
+const CANCELLED_MESSAGE = 'Processamento cancelado pelo usuário';
 
+// Erro gravado quando o job é removido ao esvaziar a fila
+const DRAINED_MESSAGE = 'Job removido da fila pelo administrador';
+
+// Estados da fila consultados para cada estado exibido no console (jobs com prioridade ficam em prioritized)
+const QUEUE_STATE_TYPES: Record<QueueJobState, JobType[]> = {
+  waiting: ['waiting', 'prioritized', 'paused'],
+  active: ['active'],
+  failed: ['failed'],
+  delayed: ['delayed'],
+};
+
+// Leads nesses status já têm um job ativo e não são reenfileirados
+const ACTIVE_LEAD_STATUSES = ['aguardando', 'processando'];
+
+// Exemplos de mensagens de erro por classe no relatório de falhas
+const FAILURE_REPORT_SAMPLE_SIZE = 3;
+
+/**
+ * Produz os jobs de processamento de leads e opera a fila; o consumo fica com o worker (src/worker.ts)
+ */
 export class QueueService {
   private redis: Redis;
   private prisma: PrismaClient;
-  private addressValidationService: AddressValidationService;
-  private potentialAnalysisService: PotentialAnalysisService;
+  private processingLogService: ProcessingLogService;
+  private uploadBatchService: UploadBatchService;
+  private processingEventsService: ProcessingEventsService;
   
   // Filas
   private leadProcessingQueue!: Queue;
-  private leadProcessingWorker!: Worker;
+  private deadLetterQueue!: Queue;
 
   constructor() {
-    // Configuração específica para BullMQ - sem opções que causam conflito
-    this.redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379', {
-      maxRetriesPerRequest: null,
-    });
+    this.redis = createQueueConnection();
     this.prisma = new PrismaClient();
-    this.addressValidationService = new AddressValidationService();
-    this.potentialAnalysisService = new PotentialAnalysisService();
+    this.processingLogService = new ProcessingLogService();
+    this.uploadBatchService = new UploadBatchService();
+    this.processingEventsService = new ProcessingEventsService();
     
     this.initializeQueues();
   }
 
   /**
-   * Inicializa as filas e workers
+   * Inicializa as filas
    */
   private initializeQueues(): void {
     // Fila para processamento de leads
-    this.leadProcessingQueue = new Queue('lead-processing', {
+    this.leadProcessingQueue = new Queue(LEAD_PROCESSING_QUEUE_NAME, {
       connection: this.redis,
       defaultJobOptions: {
         removeOnComplete: 100,
@@ -44,141 +157,147 @@ export class QueueService {
       },
     });
 
-    // Worker para processar leads
-    this.leadProcessingWorker = new Worker(
-      'lead-processing',
-      async (job: Job) => {
-        return await this.processLead(job);
-      },
-      {
-        connection: this.redis,
-        concurrency: 3, // Reduzido para 3 leads simultaneamente
-        lockDuration: 30000, // 30 segundos de lock
-        stalledInterval: 30000, // Verifica jobs travados a cada 30 segundos
-        maxStalledCount: 1, // Máximo 1 tentativa para jobs travados
-      }
-    );
-
-    // Eventos do worker
-    this.leadProcessingWorker.on('completed', async (job: Job, result: any) => {
-      console.log(`✅ Job ${job.id} completado para lead ${result.leadId}`);
-      await this.updateLeadStatus(result.leadId, 'processado');
-    });
-
-    this.leadProcessingWorker.on('failed', async (job: Job | undefined, err: Error) => {
-      if (job) {
-        console.error(`❌ Job ${job.id} falhou para lead ${job.data.leadId}:`, err.message);
-        await this.updateLeadStatus(job.data.leadId, 'erro', err.message);
-      }
-    });
-
-    this.leadProcessingWorker.on('progress', async (job: Job, progress: any) => {
-      console.log(`📊 Job ${job.id} progresso: ${progress}%`);
-      await this.updateJobProgress(job.id as string, typeof progress === 'number' ? progress : 0);
-    });
+    // Jobs com falha definitiva, com o contexto completo para análise
+    this.deadLetterQueue = new Queue(DEAD_LETTER_QUEUE_NAME, { connection: this.redis });
   }
 
   /**
    * Adiciona leads à fila de processamento
+   * Quando informado, o lote de upload é vinculado aos leads/jobs e tem seus contadores atualizados
+   * CNPJs já cadastrados são ignorados ou mesclados no lead existente conforme o reimportMode
+   * sourceSheets traz a aba de origem de cada lead, na mesma ordem do array de leads
+   * source identifica a origem dos leads criados (padrão: datlo)
+   * As linhas não enfileiradas são retornadas em rowErrors pelo índice no array recebido
    */
-  async addLeadsToQueue(leads: any[]): Promise<{ created: number; skipped: number; total: number }> {
+  async addLeadsToQueue(
+    leads: any[],
+    options: {
+      uploadBatchId?: string;
+      reimportMode?: ReimportMode;
+      reenqueue?: boolean;
+      sourceSheets?: Array<string | undefined>;
+      source?: string;
+    } = {}
+  ): Promise<{
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+    total: number;
+    rowErrors: Array<{ index: number; reason: ImportRowErrorReason; message: string }>;
+  }> {
+    const { uploadBatchId, reimportMode = 'skip', reenqueue = false, sourceSheets = [], source } = options;
+
     try {
       console.log(`🚀 Adicionando ${leads.length} leads à fila de processamento...`);
 
       let created = 0;
+      let updated = 0;
       let skipped = 0;
+      let failed = 0;
+      const rowErrors: Array<{ index: number; reason: ImportRowErrorReason; message: string }> = [];
+
+      // Leads e jobs são criados de uma vez; o ritmo das consultas à API de CNPJ fica com o limitador da fila
+      for (const [index, rawLeadData] of leads.entries()) {
+        // CNPJ é gravado e comparado só com dígitos
+        const leadData = { ...rawLeadData, CNPJ: normalizeCnpj(rawLeadData.CNPJ) };
+        try {
+          if (!isValidCnpj(leadData.CNPJ)) {
+            console.log(`⚠️ CNPJ inválido ${rawLeadData.CNPJ}, pulando...`);
+            failed++;
+            rowErrors.push({
+              index,
+              reason: 'invalid_cnpj',
+              message: `CNPJ ${rawLeadData.CNPJ} inválido (tamanho ou dígitos verificadores incorretos)`,
+            });
+            continue;
+          }
 
-      // Processar leads em lotes para respeitar rate limit da API
-      const batchSize = 3; // Reduzido de 3 para 2 leads por lote
-      const batches = [];
-      
-      for (let i = 0; i < leads.length; i += batchSize) {
-        batches.push(leads.slice(i, i + batchSize));
-      }
-
-      console.log(`📦 Processando ${leads.length} leads em ${batches.length} lotes de ${batchSize}`);
-
-      for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-        const batch = batches[batchIndex];
-        console.log(`📦 Processando lote ${batchIndex + 1}/${batches.length} com ${batch.length} leads`);
+          // Verificar se já existe um lead com este CNPJ
+          const existingLead = await this.prisma.lead.findUnique({
+            where: { cnpj: leadData.CNPJ }
+          });
 
-        for (const leadData of batch) {
-          try {
-            // Verificar se já existe um lead com este CNPJ
-            const existingLead = await this.prisma.lead.findFirst({
-              where: { cnpj: leadData.CNPJ }
+          if (existingLead && reimportMode === 'skip') {
+            console.log(`⚠️ Lead com CNPJ ${leadData.CNPJ} já existe, pulando...`);
+            skipped++;
+            rowErrors.push({
+              index,
+              reason: 'duplicate_cnpj',
+              message: `CNPJ já cadastrado no lead ${existingLead.companyName} (${existingLead.id})`,
             });
+            continue;
+          }
+
+          if (existingLead) {
+            // Reimportação: mescla apenas os campos que vêm da planilha
+            const changes = mergeSourceFields(existingLead, this.mapSourceFields(leadData), reimportMode);
 
-            if (existingLead) {
-              console.log(`⚠️ Lead com CNPJ ${leadData.CNPJ} já existe, pulando...`);
+            if (Object.keys(changes).length === 0) {
+              console.log(`ℹ️ Lead ${existingLead.id} (CNPJ ${leadData.CNPJ}) sem alterações na reimportação`);
               skipped++;
               continue;
             }
 
-            // Criar lead no banco com status "aguardando"
-            const lead = await this.prisma.lead.create({
+            // Leads já aguardando ou em processamento não são enfileirados de novo
+            const shouldReenqueue = reenqueue && !ACTIVE_LEAD_STATUSES.includes(existingLead.status);
+            const updatedLead = await this.prisma.lead.update({
+              where: { id: existingLead.id },
               data: {
-                cnpj: leadData.CNPJ,
-                companyName: leadData['Razão social'],
-                tradeName: leadData['Nome Fantasia'] || null,
-                matrixName: leadData['Nome matriz'],
-                city: leadData.Município,
-                district: leadData.Distrito,
-                subdistrict: leadData.Subdistrito,
-                zipCode: leadData.CEP,
-                neighborhood: leadData.Bairro,
-                streetAddress: leadData['Endereço cadastral'],
-                suggestedAddress: leadData['Endereço sugerido'],
-                coordinates: leadData.Coordenadas,
-                streetViewUrl: leadData['Street View'],
-                status: 'aguardando',
-                // Campos obrigatórios com valores padrão
-                potentialFactors: [],
-                potentialScore: 0,
-                potentialLevel: 'baixo',
-                potentialConfidence: 0,
+                ...changes,
+                ...(shouldReenqueue && { status: 'aguardando', processingError: null }),
               },
             });
 
-            // Delay progressivo para respeitar rate limit
-            const delay = batchIndex * 30000; // 30 segundos
-            
-            // Criar job de processamento
-            const job = await this.leadProcessingQueue.add(
-              'process-lead',
-              { leadId: lead.id, leadData },
-              {
-                priority: 1,
-                delay: 1000 + delay, // Delay base + delay progressivo
-              }
-            );
-
-            // Criar registro de job no banco
-            await this.prisma.processingJob.create({
-              data: {
-                leadId: lead.id,
-                status: 'pending',
-                redisJobId: job.id as string,
-              },
-            });
+            if (shouldReenqueue) {
+              await this.enqueueLead(updatedLead.id, this.mapLeadToRawData(updatedLead), uploadBatchId);
+            }
 
-            created++;
-            console.log(`✅ Lead ${lead.id} criado e adicionado à fila (delay: ${delay}ms)`);
-          } catch (error) {
-            console.error(`❌ Erro ao processar lead ${leadData.CNPJ}:`, error);
-            skipped++;
+            updated++;
+            console.log(`🔁 Lead ${existingLead.id} atualizado (${Object.keys(changes).join(', ')})${shouldReenqueue ? ' e reenfileirado' : ''}`);
+            continue;
           }
-        }
 
-        // Aguardar entre lotes para respeitar rate limit
-        if (batchIndex < batches.length - 1) {
-          console.log(`⏳ Aguardando 30 segundos antes do próximo lote...`);
-          await new Promise(resolve => setTimeout(resolve, 30000)); // Aumentado de 15s para 30s
+          // Criar lead no banco com status "aguardando"
+          const lead = await this.prisma.lead.create({
+            data: {
+              cnpj: leadData.CNPJ,
+              source,
+              ...this.mapSourceFields(leadData),
+              tradeName: leadData['Nome Fantasia'] || null,
+              status: 'aguardando',
+              uploadBatchId,
+              sourceSheet: sourceSheets[index],
+              // Campos obrigatórios com valores padrão
+              potentialFactors: [],
+              potentialScore: 0,
+              potentialLevel: 'baixo',
+              potentialConfidence: 0,
+            },
+          });
+
+          await this.enqueueLead(lead.id, leadData, uploadBatchId);
+
+          created++;
+          console.log(`✅ Lead ${lead.id} criado e adicionado à fila`);
+        } catch (error) {
+          console.error(`❌ Erro ao processar lead ${leadData.CNPJ}:`, error);
+          failed++;
+          rowErrors.push({
+            index,
+            reason: 'processing_error',
+            message: error instanceof Error ? error.message : 'Erro desconhecido',
+          });
         }
       }
 
-      console.log(`✅ ${created} leads criados, ${skipped} pulados, total: ${leads.length}`);
-      return { created, skipped, total: leads.length };
+      // Atualizar contadores do lote para acompanhamento
+      if (uploadBatchId) {
+        await this.incrementUploadBatchCounts(uploadBatchId, { created, updated, skipped, failed });
+      }
+
+      console.log(`✅ ${created} leads criados, ${updated} atualizados, ${skipped} pulados, ${failed} com erro, total: ${leads.length}`);
+      return { created, updated, skipped, failed, total: leads.length, rowErrors };
     } catch (error) {
       console.error('❌ Erro ao adicionar leads à fila:', error);
       throw error;
@@ -186,208 +305,267 @@ export class QueueService {
   }
 
   /**
-   * Processa um lead individual
+   * Reenfileira um lead que terminou com erro ou sem enriquecimento
+   * Devolve null quando o lead não existe e requeued: false quando ele já tem um job ativo
    */
-  private async processLead(job: Job): Promise<any> {
-    const { leadId, leadData } = job.data;
-    
-    try {
-      console.log(`🔄 Processando lead ${leadId}...`);
-      
-      // Atualizar status para "processando"
-      await this.updateLeadStatus(leadId, 'processando');
-      await this.updateJobStatus(job.id as string, 'processing');
-
-      // 1. Validação de endereço (25%)
-      await job.updateProgress(25);
-      const validatedAddress = await this.addressValidationService.validateAddress({
-        street: leadData['Endereço cadastral'],
-        zipCode: leadData.CEP,
-        city: leadData.Município,
-        state: leadData.Município.split(' - ')[0] || '',
-      });
+  async retryLead(leadId: string): Promise<{ requeued: boolean; status: string } | null> {
+    const lead = await this.prisma.lead.findUnique({ where: { id: leadId } });
 
-      // 2. Análise de potencial por CNPJ (50%)
-      await job.updateProgress(50);
-      const potentialAnalysis = await this.potentialAnalysisService.analyzePotentialByCnpj(
-        leadData.CNPJ
-      );
+    if (!lead) {
+      return null;
+    }
 
-      // 3. Cálculo de potencial final (75%)
-      await job.updateProgress(75);
-      const finalPotential = this.potentialAnalysisService.calculateFinalPotential(
-        validatedAddress,
-        potentialAnalysis
-      );
+    if (ACTIVE_LEAD_STATUSES.includes(lead.status)) {
+      return { requeued: false, status: lead.status };
+    }
 
-      // 4. Buscar dados cadastrais da empresa (85%)
-      await job.updateProgress(85);
-      const companyData = await this.potentialAnalysisService.fetchCompanyData(leadData.CNPJ);
+    await this.requeueLead(lead);
+    if (lead.uploadBatchId) {
+      await this.uploadBatchService.publishProgress(lead.uploadBatchId);
+    }
 
-      // Log do resultado do enriquecimento
-      if (companyData) {
-        console.log(`✅ Dados enriquecidos para CNPJ ${leadData.CNPJ}: CNAE ${companyData.cnae}, Capital R$ ${companyData.capitalSocial}`);
-      } else {
-        console.log(`⚠️ Falha no enriquecimento para CNPJ ${leadData.CNPJ} - usando dados básicos`);
-      }
+    console.log(`🔁 Lead ${leadId} reenfileirado`);
+    return { requeued: true, status: 'aguardando' };
+  }
 
-      // 5. Calcular detalhes da pontuação usando a nova função centralizada
-      const potentialDetails = this.potentialAnalysisService.getPotentialScoreDetails({
-        cnpj: leadData.CNPJ,
-        cnae: companyData?.cnae || undefined,
-        capitalSocial: companyData?.capitalSocial || undefined,
-        region: validatedAddress.state || undefined,
-        foundationDate: companyData?.foundationDate || undefined,
-        addressValidated: true,
-        coordinates: leadData.Coordenadas || (validatedAddress.coordinates ? 'disponível' : undefined),
-        partners: companyData?.partners || undefined,
-        validatedState: validatedAddress.state || undefined,
-        validatedCoordinates: (leadData.Coordenadas || validatedAddress.coordinates) ? true : false,
-      });
+  /**
+   * Reenfileira os leads com falha, de um lote ou de todos
+   * failure: 'error' para leads com status erro; 'enrichment' para leads processados sem os dados cadastrais
+   */
+  async retryFailedLeads(options: { failure: 'error' | 'enrichment'; uploadBatchId?: string }): Promise<{ requeued: number }> {
+    const leads = await this.prisma.lead.findMany({
+      where: {
+        ...(options.failure === 'error'
+          ? { status: 'erro' }
+          : { status: 'processado', processingError: ENRICHMENT_FAILURE_MESSAGE }),
+        ...(options.uploadBatchId && { uploadBatchId: options.uploadBatchId }),
+      },
+    });
 
-      // 6. Atualizar lead com dados processados (100%)
-      await job.updateProgress(100);
-      await this.prisma.lead.update({
-        where: { id: leadId },
-        data: {
-          // Endereço validado
-          validatedStreet: validatedAddress.street,
-          validatedNumber: validatedAddress.number,
-          validatedComplement: validatedAddress.complement,
-          validatedNeighborhood: validatedAddress.neighborhood,
-          validatedCity: validatedAddress.city,
-          validatedState: validatedAddress.state,
-          validatedZipCode: validatedAddress.zipCode,
-          validatedCoordinates: validatedAddress.coordinates,
-          addressValidated: true,
-          addressValidationDate: new Date(),
-          addressValidationSource: 'viacep',
-          
-          // Potencial calculado usando a nova função centralizada
-          potentialScore: potentialDetails.totalScore,
-          potentialLevel: potentialDetails.level,
-          potentialFactors: potentialDetails.factors, // Agora são fatores estruturados
-          potentialConfidence: potentialDetails.confidence,
-          
-          // Dados cadastrais da empresa (com fallback para dados básicos)
-          cnae: companyData?.cnae || null,
-          cnaeDescription: companyData?.cnaeDescription || null,
-          capitalSocial: companyData?.capitalSocial || null,
-          foundationDate: companyData?.foundationDate ? new Date(companyData.foundationDate) : null,
-          partners: companyData?.partners ? JSON.parse(JSON.stringify(companyData.partners)) : null,
-          
-          // Status (sempre processado, mesmo sem enriquecimento)
-          status: 'processado',
-          // Campo adicional para indicar se foi enriquecido
-          processingError: companyData ? null : 'Falha no enriquecimento de dados cadastrais',
-        },
-      });
+    const uploadBatchIds = new Set<string>();
+    for (const lead of leads) {
+      await this.requeueLead(lead);
+      if (lead.uploadBatchId) uploadBatchIds.add(lead.uploadBatchId);
+    }
 
-      // Atualizar job como completado
-      await this.updateJobStatus(job.id as string, 'completed');
+    for (const uploadBatchId of uploadBatchIds) {
+      await this.uploadBatchService.publishProgress(uploadBatchId);
+    }
 
-      console.log(`✅ Lead ${leadId} processado com sucesso`);
-      
-      return {
-        leadId,
-        success: true,
-        validatedAddress,
-        potentialAnalysis: finalPotential,
-      };
-    } catch (error) {
-      console.error(`❌ Erro ao processar lead ${leadId}:`, error);
-      
-      // Atualizar job como falhou
-      await this.updateJobStatus(job.id as string, 'failed', error instanceof Error ? error.message : 'Erro desconhecido');
-      
-      throw error;
+    console.log(`🔁 ${leads.length} leads reenfileirados (${options.failure === 'error' ? 'com erro' : 'sem enriquecimento'})`);
+    return { requeued: leads.length };
+  }
+
+  /**
+   * Cancela os jobs ainda pendentes de um lead ou de um lote
+   * Jobs que já começaram a ser processados não são interrompidos; o lead cancelado fica com status erro,
+   * para que possa ser reenfileirado depois
+   */
+  async cancelPendingJobs(options: { leadId?: string; uploadBatchId?: string }): Promise<{ cancelled: number; skipped: number }> {
+    const processingJobs = await this.prisma.processingJob.findMany({
+      where: {
+        status: 'pending',
+        ...(options.leadId && { leadId: options.leadId }),
+        ...(options.uploadBatchId && { uploadBatchId: options.uploadBatchId }),
+      },
+    });
+
+    let cancelled = 0;
+    let skipped = 0;
+    const uploadBatchIds = new Set<string>();
+
+    for (const processingJob of processingJobs) {
+      try {
+        const job = await this.leadProcessingQueue.getJob(processingJob.redisJobId || processingJob.id);
+        if (job) {
+          if ((await job.getState()) === 'active') {
+            skipped++;
+            continue;
+          }
+          await job.remove();
+        }
+      } catch (error) {
+        // O worker pegou o job entre a consulta e a remoção
+        console.warn(`⚠️ Job ${processingJob.id} não pôde ser cancelado:`, error);
+        skipped++;
+        continue;
+      }
+
+      await this.markJobCancelled(processingJob, CANCELLED_MESSAGE);
+      if (processingJob.uploadBatchId) uploadBatchIds.add(processingJob.uploadBatchId);
+      cancelled++;
     }
+
+    for (const uploadBatchId of uploadBatchIds) {
+      await this.uploadBatchService.publishProgress(uploadBatchId);
+    }
+
+    console.log(`⏹️ ${cancelled} jobs pendentes cancelados, ${skipped} já em processamento`);
+    return { cancelled, skipped };
   }
 
   /**
-   * Atualiza status do lead
+   * Marca o job como cancelado; o lead que ainda aguardava fica com status erro
    */
-  private async updateLeadStatus(leadId: string, status: string, error?: string): Promise<void> {
-    try {
-      await this.prisma.lead.update({
-        where: { id: leadId },
-        data: {
-          status,
-          processingError: error || null,
-          updatedAt: new Date(),
-        },
+  private async markJobCancelled(
+    processingJob: { id: string; leadId: string; uploadBatchId: string | null },
+    message: string
+  ): Promise<void> {
+    await this.prisma.processingJob.update({
+      where: { id: processingJob.id },
+      data: { status: 'cancelled', error: message, completedAt: new Date() },
+    });
+    await this.processingLogService.warn(message, { leadId: processingJob.leadId, jobId: processingJob.id });
+
+    const { count } = await this.prisma.lead.updateMany({
+      where: { id: processingJob.leadId, status: 'aguardando' },
+      data: { status: 'erro', processingError: message },
+    });
+    if (count > 0) {
+      await this.processingEventsService.publish({
+        type: 'lead_status',
+        leadId: processingJob.leadId,
+        uploadBatchId: processingJob.uploadBatchId || undefined,
+        status: 'erro',
+        error: message,
       });
-    } catch (error) {
-      console.error(`Erro ao atualizar status do lead ${leadId}:`, error);
     }
   }
 
   /**
-   * Atualiza status do job
+   * Volta o lead para "aguardando" e cria um novo job a partir dos dados gravados
    */
-  private async updateJobStatus(jobId: string, status: string, error?: string): Promise<void> {
-    try {
-      // Verificar se o job existe antes de atualizar
-      const existingJob = await this.prisma.processingJob.findUnique({
-        where: { id: jobId },
-      });
+  private async requeueLead(lead: any): Promise<void> {
+    await this.prisma.lead.update({
+      where: { id: lead.id },
+      data: { status: 'aguardando', processingError: null, failureClass: null },
+    });
+    await this.deadLetterQueue.remove(getDeadLetterJobId(lead.id));
 
-      if (!existingJob) {
-        console.warn(`⚠️ Job ${jobId} não encontrado no banco de dados, ignorando atualização de status`);
-        return;
-      }
+    await this.enqueueLead(lead.id, this.mapLeadToRawData(lead), lead.uploadBatchId || undefined);
+    await this.processingLogService.info('Lead reenfileirado para reprocessamento', { leadId: lead.id }, {
+      previousStatus: lead.status,
+      previousError: lead.processingError || undefined,
+      previousFailureClass: lead.failureClass || undefined,
+    });
+    await this.processingEventsService.publish({
+      type: 'lead_status',
+      leadId: lead.id,
+      uploadBatchId: lead.uploadBatchId || undefined,
+      status: 'aguardando',
+    });
+  }
 
-      await this.prisma.processingJob.update({
-        where: { id: jobId },
-        data: {
-          status,
-          error: error || null,
-          startedAt: status === 'processing' ? new Date() : undefined,
-          completedAt: status === 'completed' || status === 'failed' ? new Date() : undefined,
-        },
-      });
+  /**
+   * Cria o job de processamento completo do lead (pipeline)
+   */
+  private async enqueueLead(leadId: string, leadData: any, uploadBatchId: string | undefined): Promise<void> {
+    await this.createJob({ leadId, type: 'processing', uploadBatchId }, 'process-lead', { leadId, leadData, uploadBatchId }, 1);
+  }
+
+  /**
+   * Cria o registro do job no banco e o job correspondente no Redis
+   * O job do BullMQ usa o id do ProcessingJob, para que status e progresso do worker atualizem o registro certo
+   * O job fica aguardando no Redis até o limitador da fila liberar, então sobrevive a reinícios da API
+   */
+  private async createJob(
+    record: { leadId: string; type: string; uploadBatchId?: string },
+    jobName: string,
+    jobData: Record<string, unknown>,
+    priority: number
+  ): Promise<void> {
+    const processingJob = await this.prisma.processingJob.create({
+      data: {
+        ...record,
+        status: 'pending',
+      },
+    });
+
+    try {
+      await this.leadProcessingQueue.add(jobName, jobData, { priority, jobId: processingJob.id });
     } catch (error) {
-      console.error(`Erro ao atualizar status do job ${jobId}:`, error);
+      await this.prisma.processingJob.delete({ where: { id: processingJob.id } });
+      throw error;
     }
+
+    await this.prisma.processingJob.update({
+      where: { id: processingJob.id },
+      data: { redisJobId: processingJob.id },
+    });
   }
 
   /**
-   * Atualiza progresso do job
+   * Converte a linha da planilha nos campos do lead que vêm da fonte (Datlo)
+   * Os dados de contato só vêm da ingestão via API (Email, Telefone, Site)
    */
-  private async updateJobProgress(jobId: string, progress: number): Promise<void> {
-    try {
-      // Verificar se o job existe antes de atualizar
-      const existingJob = await this.prisma.processingJob.findUnique({
-        where: { id: jobId },
-      });
+  private mapSourceFields(leadData: any): Record<SourceField, string> {
+    return {
+      companyName: leadData['Razão social'],
+      tradeName: leadData['Nome Fantasia'],
+      matrixName: leadData['Nome matriz'],
+      city: leadData.Município,
+      district: leadData.Distrito,
+      subdistrict: leadData.Subdistrito,
+      zipCode: leadData.CEP,
+      neighborhood: leadData.Bairro,
+      streetAddress: leadData['Endereço cadastral'],
+      suggestedAddress: leadData['Endereço sugerido'],
+      coordinates: leadData.Coordenadas,
+      streetViewUrl: leadData['Street View'],
+      phone: leadData.Telefone,
+      email: leadData.Email,
+      website: leadData.Site,
+    };
+  }
 
-      if (!existingJob) {
-        console.warn(`⚠️ Job ${jobId} não encontrado no banco de dados, ignorando atualização de progresso`);
-        return;
-      }
+  /**
+   * Monta a linha no formato da planilha a partir de um lead gravado (usado no reenfileiramento)
+   */
+  private mapLeadToRawData(lead: any): any {
+    return {
+      CNPJ: lead.cnpj,
+      'Razão social': lead.companyName,
+      'Nome Fantasia': lead.tradeName || '',
+      'Nome matriz': lead.matrixName || '',
+      Município: lead.city,
+      Distrito: lead.district,
+      Subdistrito: lead.subdistrict,
+      CEP: lead.zipCode,
+      Bairro: lead.neighborhood,
+      'Endereço cadastral': lead.streetAddress,
+      'Endereço sugerido': lead.suggestedAddress || '',
+      Coordenadas: lead.coordinates || '',
+      'Street View': lead.streetViewUrl || '',
+      Telefone: lead.phone || '',
+      Email: lead.email || '',
+      Site: lead.website || '',
+    };
+  }
 
-      await this.prisma.processingJob.update({
-        where: { id: jobId },
+  /**
+   * Soma contadores ao lote de upload
+   */
+  private async incrementUploadBatchCounts(
+    uploadBatchId: string,
+    counts: { created: number; updated: number; skipped: number; failed: number }
+  ): Promise<void> {
+    try {
+      await this.prisma.uploadBatch.update({
+        where: { id: uploadBatchId },
         data: {
-          progress,
-          currentStep: this.getCurrentStep(progress),
+          createdCount: { increment: counts.created },
+          updatedCount: { increment: counts.updated },
+          skippedCount: { increment: counts.skipped },
+          failedCount: { increment: counts.failed },
         },
       });
+
+      await this.uploadBatchService.publishProgress(uploadBatchId);
     } catch (error) {
-      console.error(`Erro ao atualizar progresso do job ${jobId}:`, error);
+      console.error(`Erro ao atualizar contadores do lote ${uploadBatchId}:`, error);
     }
   }
 
-  /**
-   * Determina o passo atual baseado no progresso
-   */
-  private getCurrentStep(progress: number): string {
-    if (progress <= 25) return 'address_validation';
-    if (progress <= 50) return 'cnpj_analysis';
-    if (progress <= 75) return 'potential_calculation';
-    return 'finalizing';
-  }
-
   /**
    * Obtém estatísticas da fila
    */
@@ -397,12 +575,14 @@ export class QueueService {
       const active = await this.leadProcessingQueue.getActive();
       const completed = await this.leadProcessingQueue.getCompleted();
       const failed = await this.leadProcessingQueue.getFailed();
+      const deadLetter = await this.deadLetterQueue.count();
 
       return {
         waiting: waiting.length,
         active: active.length,
         completed: completed.length,
         failed: failed.length,
+        deadLetter,
         total: waiting.length + active.length + completed.length + failed.length,
       };
     } catch (error) {
@@ -412,114 +592,361 @@ export class QueueService {
   }
 
   /**
-   * Limpa filas antigas e jobs travados
+   * Situação da fila para o console de operação
    */
-  async cleanupOldJobs(): Promise<void> {
-    try {
-      // Limpar jobs completados com mais de 7 dias
-      const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-      
-      await this.prisma.processingJob.deleteMany({
-        where: {
-          status: 'completed',
-          completedAt: {
-            lt: sevenDaysAgo,
-          },
+  async getQueueStatus(): Promise<QueueStatus> {
+    const counts = await this.leadProcessingQueue.getJobCounts(
+      'waiting', 'prioritized', 'paused', 'active', 'failed', 'delayed', 'completed'
+    );
+
+    return {
+      paused: await this.leadProcessingQueue.isPaused(),
+      workers: await this.leadProcessingQueue.getWorkersCount(),
+      concurrency: await readWorkerConcurrency(this.redis),
+      maxConcurrency: MAX_WORKER_CONCURRENCY,
+      counts: {
+        waiting: (counts.waiting || 0) + (counts.prioritized || 0) + (counts.paused || 0),
+        active: counts.active || 0,
+        failed: counts.failed || 0,
+        delayed: counts.delayed || 0,
+        completed: counts.completed || 0,
+      },
+    };
+  }
+
+  /**
+   * Pausa a fila: os jobs em andamento terminam, mas nenhum novo job é iniciado
+   */
+  async pauseQueue(): Promise<void> {
+    await this.leadProcessingQueue.pause();
+    console.log('⏸️ Fila de processamento pausada');
+  }
+
+  /**
+   * Retoma a fila pausada
+   */
+  async resumeQueue(): Promise<void> {
+    await this.leadProcessingQueue.resume();
+    console.log('▶️ Fila de processamento retomada');
+  }
+
+  /**
+   * Esvazia a fila: remove os jobs aguardando e agendados (jobs em andamento continuam)
+   * Os jobs removidos ficam cancelados no banco e seus leads com status erro, prontos para reprocessar
+   */
+  async drainQueue(): Promise<{ removed: number }> {
+    await this.leadProcessingQueue.drain(true);
+
+    // Jobs pegos pelo worker antes da limpeza ainda constam como pendentes no banco
+    const activeJobIds = await this.getActiveJobIds();
+    const pendingJobs = await this.prisma.processingJob.findMany({ where: { status: 'pending' } });
+    const removedJobs = pendingJobs.filter(
+      processingJob => ![processingJob.id, processingJob.redisJobId].some(id => id && activeJobIds.has(id))
+    );
+
+    const uploadBatchIds = new Set<string>();
+    for (const processingJob of removedJobs) {
+      await this.markJobCancelled(processingJob, DRAINED_MESSAGE);
+      if (processingJob.uploadBatchId) uploadBatchIds.add(processingJob.uploadBatchId);
+    }
+
+    for (const uploadBatchId of uploadBatchIds) {
+      await this.uploadBatchService.publishProgress(uploadBatchId);
+    }
+
+    console.log(`🧹 Fila esvaziada: ${removedJobs.length} jobs removidos`);
+    return { removed: removedJobs.length };
+  }
+
+  /**
+   * Altera quantos leads cada worker processa em paralelo
+   * O valor fica gravado no Redis (vale também para workers iniciados depois) e os workers em execução são avisados
+   * O ritmo continua limitado pelo orçamento da API de CNPJ, compartilhado por todos os workers
+   */
+  async setConcurrency(concurrency: number): Promise<number> {
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_WORKER_CONCURRENCY) {
+      throw new Error(`Concorrência deve ser um inteiro entre 1 e ${MAX_WORKER_CONCURRENCY}`);
+    }
+
+    await this.redis.set(WORKER_CONCURRENCY_KEY, String(concurrency));
+    await this.redis.publish(WORKER_SETTINGS_CHANNEL, JSON.stringify({ concurrency }));
+    console.log(`⚙️ Concorrência dos workers alterada para ${concurrency}`);
+    return concurrency;
+  }
+
+  /**
+   * Lista os jobs da fila em um estado, com o payload completo
+   */
+  async getJobs(state: QueueJobState, offset = 0, limit = 50): Promise<QueueJobSummary[]> {
+    const jobs = await this.leadProcessingQueue.getJobs(QUEUE_STATE_TYPES[state], offset, offset + limit - 1);
+
+    return jobs.slice(0, limit).map(job => ({
+      id: job.id as string,
+      state,
+      leadId: job.data?.leadId,
+      uploadBatchId: job.data?.uploadBatchId,
+      data: job.data || {},
+      progress: typeof job.progress === 'number' ? job.progress : 0,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason || undefined,
+      createdAt: new Date(job.timestamp).toISOString(),
+      processedAt: job.processedOn ? new Date(job.processedOn).toISOString() : undefined,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn).toISOString() : undefined,
+      delayedUntil: state === 'delayed' ? new Date(job.timestamp + job.delay).toISOString() : undefined,
+    }));
+  }
+
+  /**
+   * Lista os jobs da fila de dead-letter (mais recentes primeiro), opcionalmente de uma classe de falha
+   */
+  async getDeadLetterJobs(
+    options: { failureClass?: FailureClass; offset?: number; limit?: number } = {}
+  ): Promise<{ jobs: DeadLetterEntry[]; total: number }> {
+    const { failureClass, offset = 0, limit = 50 } = options;
+    const entries = (await this.deadLetterQueue.getJobs(['waiting'])).map(job => job.data as DeadLetterEntry);
+    const filtered = entries
+      .filter(entry => !failureClass || entry.failureClass === failureClass)
+      .sort((a, b) => b.failedAt.localeCompare(a.failedAt));
+
+    return { jobs: filtered.slice(offset, offset + limit), total: filtered.length };
+  }
+
+  /**
+   * Relatório das falhas por classe: leads com erro, leads sem enriquecimento e jobs na dead-letter,
+   * com a ação indicada para cada classe (aguardar, corrigir os dados ou abrir um bug)
+   */
+  async getFailureReport(): Promise<FailureReport> {
+    const [leadGroups, deadLetterJobs] = await Promise.all([
+      this.prisma.lead.groupBy({
+        by: ['failureClass', 'status'],
+        where: { failureClass: { not: null } },
+        _count: { _all: true },
+      }),
+      this.deadLetterQueue.getJobs(['waiting']),
+    ]);
+
+    const countLeads = (failureClass: FailureClass, status: string) =>
+      leadGroups.find(group => group.failureClass === failureClass && group.status === status)?._count._all || 0;
+
+    const classes = await Promise.all(
+      FAILURE_CLASSES.map(async failureClass => {
+        const samples = await this.prisma.lead.findMany({
+          where: { failureClass, processingError: { not: null } },
+          distinct: ['processingError'],
+          select: { processingError: true },
+          orderBy: { updatedAt: 'desc' },
+          take: FAILURE_REPORT_SAMPLE_SIZE,
+        });
+
+        return {
+          failureClass,
+          ...FAILURE_ACTIONS[failureClass],
+          failedLeads: countLeads(failureClass, 'erro'),
+          unenrichedLeads: countLeads(failureClass, 'processado'),
+          deadLetterJobs: deadLetterJobs.filter(job => job.data?.failureClass === failureClass).length,
+          sampleErrors: samples.map(sample => sample.processingError as string),
+        };
+      })
+    );
+
+    return { classes, deadLetterTotal: deadLetterJobs.length };
+  }
+
+  /**
+   * Limpa jobs antigos e jobs travados (tarefa de manutenção cleanup_jobs)
+   * Remove do banco os jobs concluídos há mais de 7 dias e marca como falhos os que estão processando há mais de 30 minutos
+   */
+  async cleanupOldJobs(): Promise<{ deletedJobs: number; stuckJobs: number }> {
+    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+    const { count: deletedJobs } = await this.prisma.processingJob.deleteMany({
+      where: {
+        status: 'completed',
+        completedAt: {
+          lt: sevenDaysAgo,
         },
-      });
+      },
+    });
 
-      // Limpar jobs travados (processando há mais de 30 minutos)
-      const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
-      const stuckJobs = await this.prisma.processingJob.findMany({
+    // Jobs ainda ativos no Redis (ex.: aguardando a API de CNPJ) não são considerados travados
+    const activeJobIds = await this.getActiveJobIds();
+    const thirtyMinutesAgo = new Date(Date.now() - 30 * 60 * 1000);
+    const stuckJobs = (
+      await this.prisma.processingJob.findMany({
         where: {
           status: 'processing',
           startedAt: {
             lt: thirtyMinutesAgo,
           },
         },
+      })
+    ).filter(job => !activeJobIds.has(job.redisJobId || job.id));
+
+    for (const job of stuckJobs) {
+      await this.prisma.processingJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'failed',
+          error: 'Job travado - timeout de processamento',
+          failureClass: 'internal',
+          completedAt: new Date(),
+        },
       });
+    }
 
-      for (const job of stuckJobs) {
-        await this.prisma.processingJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'failed',
-            error: 'Job travado - timeout de processamento',
-            completedAt: new Date(),
-          },
-        });
-      }
+    console.log(`🧹 ${deletedJobs} jobs antigos removidos, ${stuckJobs.length} jobs travados marcados como falhos`);
+    return { deletedJobs, stuckJobs: stuckJobs.length };
+  }
 
-      if (stuckJobs.length > 0) {
-        console.log(`🧹 ${stuckJobs.length} jobs travados limpos`);
+  /**
+   * Sincroniza jobs órfãos entre Redis e banco de dados (tarefa de manutenção sync_orphan_jobs)
+   * Jobs no Redis sem registro no banco são removidos; jobs pendentes no banco que não estão em nenhum estado
+   * da fila (aguardando, agendado ou ativo) são marcados como falhos e seus leads ficam com status erro
+   */
+  async syncOrphanJobs(): Promise<{ removedRedisJobs: number; failedDbJobs: number }> {
+    const redisJobs = await this.leadProcessingQueue.getJobs(['waiting', 'prioritized', 'paused', 'delayed', 'active']);
+    const redisJobIds = new Set(redisJobs.map(job => job.id as string));
+
+    // Registros do banco dos jobs que estão no Redis (o id do job é o id do ProcessingJob)
+    const knownJobs = await this.prisma.processingJob.findMany({
+      where: { OR: [{ id: { in: [...redisJobIds] } }, { redisJobId: { in: [...redisJobIds] } }] },
+      select: { id: true, redisJobId: true },
+    });
+    const knownJobIds = new Set(knownJobs.flatMap(job => [job.id, job.redisJobId]));
+
+    let removedRedisJobs = 0;
+    for (const job of redisJobs.filter(redisJob => !knownJobIds.has(redisJob.id as string))) {
+      try {
+        await job.remove();
+        removedRedisJobs++;
+        console.log(`🧹 Job órfão ${job.id} removido do Redis`);
+      } catch (error) {
+        // Jobs ativos ficam travados pelo worker até terminarem
+        console.warn(`⚠️ Job órfão ${job.id} não pôde ser removido do Redis:`, error);
       }
+    }
 
-      // Sincronizar jobs órfãos
-      await this.syncOrphanJobs();
+    // Jobs recém-criados podem ainda não ter chegado ao Redis
+    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
+    const orphanDbJobs = (
+      await this.prisma.processingJob.findMany({
+        where: { status: { in: ['pending', 'processing'] }, createdAt: { lt: fiveMinutesAgo } },
+      })
+    ).filter(job => !redisJobIds.has(job.redisJobId || job.id));
 
-      console.log('🧹 Jobs antigos limpos com sucesso');
-    } catch (error) {
-      console.error('Erro ao limpar jobs antigos:', error);
+    const message = 'Job órfão - não encontrado no Redis';
+    for (const job of orphanDbJobs) {
+      await this.prisma.processingJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: message, failureClass: 'internal', completedAt: new Date() },
+      });
+      await this.prisma.lead.updateMany({
+        where: { id: job.leadId, status: { in: ACTIVE_LEAD_STATUSES } },
+        data: { status: 'erro', processingError: message, failureClass: 'internal' },
+      });
+      await this.processingLogService.error(message, { leadId: job.leadId, jobId: job.id });
+      console.log(`🧹 Job órfão ${job.id} marcado como falhado no banco`);
     }
+
+    console.log(`🔄 Sincronização concluída: ${removedRedisJobs} jobs órfãos do Redis removidos, ${orphanDbJobs.length} jobs órfãos do banco marcados como falhados`);
+    return { removedRedisJobs, failedDbJobs: orphanDbJobs.length };
   }
 
   /**
-   * Sincroniza jobs órfãos entre Redis e banco de dados
+   * Reenfileira leads parados em "processando" sem job na fila (tarefa de manutenção recover_stuck_leads)
+   * Acontece quando o worker é encerrado no meio do processamento e o job não volta para a fila; leads com job
+   * aguardando, agendado, pausado ou ativo não estão parados, só esperam a vez
    */
-  private async syncOrphanJobs(): Promise<void> {
-    try {
-      // Buscar todos os jobs ativos no Redis
-      const redisJobs = await this.leadProcessingQueue.getActive();
-      const redisJobIds = new Set(redisJobs.map(job => job.id));
-
-      // Buscar todos os jobs no banco de dados
-      const dbJobs = await this.prisma.processingJob.findMany({
-        where: {
-          status: {
-            in: ['pending', 'processing']
-          }
+  async recoverStuckLeads(): Promise<{ recovered: number }> {
+    const stuckMinutes = parseInt(process.env.MAINTENANCE_STUCK_LEAD_MINUTES || '30');
+    const cutoff = new Date(Date.now() - stuckMinutes * 60 * 1000);
+
+    const queuedJobs = await this.leadProcessingQueue.getJobs(['waiting', 'prioritized', 'paused', 'delayed', 'active']);
+    const queuedLeadIds = new Set(queuedJobs.map(job => job.data?.leadId));
+    const stuckLeads = (
+      await this.prisma.lead.findMany({
+        where: { status: 'processando', updatedAt: { lt: cutoff } },
+      })
+    ).filter(lead => !queuedLeadIds.has(lead.id));
+
+    const uploadBatchIds = new Set<string>();
+    for (const lead of stuckLeads) {
+      await this.prisma.processingJob.updateMany({
+        where: { leadId: lead.id, status: { in: ['pending', 'processing'] } },
+        data: {
+          status: 'failed',
+          error: `Lead parado em processamento há mais de ${stuckMinutes} minutos`,
+          failureClass: 'internal',
+          completedAt: new Date(),
         },
-        select: {
-          id: true,
-          redisJobId: true,
-        }
       });
+      await this.requeueLead(lead);
+      if (lead.uploadBatchId) uploadBatchIds.add(lead.uploadBatchId);
+    }
 
-      // Encontrar jobs que estão no Redis mas não no banco
-      const orphanRedisJobs = redisJobs.filter(redisJob => 
-        !dbJobs.some((dbJob: { id: string; redisJobId: string | null }) => dbJob.redisJobId === redisJob.id)
-      );
+    for (const uploadBatchId of uploadBatchIds) {
+      await this.uploadBatchService.publishProgress(uploadBatchId);
+    }
 
-      // Encontrar jobs que estão no banco mas não no Redis
-      const orphanDbJobs = dbJobs.filter((dbJob: { id: string; redisJobId: string | null }) => 
-        dbJob.redisJobId && !redisJobIds.has(dbJob.redisJobId)
-      );
+    console.log(`🩺 ${stuckLeads.length} leads parados em processamento reenfileirados`);
+    return { recovered: stuckLeads.length };
+  }
 
-      // Remover jobs órfãos do Redis
-      for (const job of orphanRedisJobs) {
-        await job.remove();
-        console.log(`🧹 Job órfão ${job.id} removido do Redis`);
-      }
+  /**
+   * Agenda a nova consulta dos dados cadastrais dos leads vencidos pela política de reenriquecimento
+   * (tarefa de manutenção reenrich_stale_leads)
+   * Entram os leads processados com nível de potencial que tem idade máxima, consultados há mais tempo que ela
+   * (os nunca enriquecidos contam a partir da última atualização), os mais antigos primeiro; o total de jobs
+   * pendentes fica limitado a REENRICHMENT_MAX_PENDING para não acumular consultas além do orçamento da API
+   */
+  async scheduleReenrichment(): Promise<{ scheduled: number; pending: number }> {
+    const policy = getReenrichmentPolicy();
+    const pending = await this.prisma.processingJob.count({
+      where: { type: 'reenrichment', status: { in: ['pending', 'processing'] } },
+    });
 
-      // Marcar jobs órfãos do banco como falhados
-      for (const job of orphanDbJobs) {
-        await this.prisma.processingJob.update({
-          where: { id: job.id },
-          data: {
-            status: 'failed',
-            error: 'Job órfão - não encontrado no Redis',
-            completedAt: new Date(),
-          },
-        });
-        console.log(`🧹 Job órfão ${job.id} marcado como falhado no banco`);
-      }
+    const levels = Object.entries(policy.maxAgeDays).filter(([, days]) => days > 0);
+    const available = policy.maxPending - pending;
+    if (levels.length === 0 || available <= 0) {
+      console.log(`⏭️ Reenriquecimento não agendado: ${pending} jobs pendentes`);
+      return { scheduled: 0, pending };
+    }
 
-      if (orphanRedisJobs.length > 0 || orphanDbJobs.length > 0) {
-        console.log(`🔄 Sincronização concluída: ${orphanRedisJobs.length} jobs órfãos do Redis removidos, ${orphanDbJobs.length} jobs órfãos do banco marcados como falhados`);
-      }
-    } catch (error) {
-      console.error('Erro ao sincronizar jobs órfãos:', error);
+    const leads = await this.prisma.lead.findMany({
+      where: {
+        status: 'processado',
+        OR: levels.map(([level, days]) => {
+          const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+          return {
+            potentialLevel: level,
+            OR: [{ enrichedAt: { lt: cutoff } }, { enrichedAt: null, updatedAt: { lt: cutoff } }],
+          };
+        }),
+        processingJobs: { none: { status: { in: ['pending', 'processing'] } } },
+      },
+      orderBy: [{ enrichedAt: 'asc' }, { updatedAt: 'asc' }],
+      take: available,
+      select: { id: true, cnpj: true },
+    });
+
+    for (const lead of leads) {
+      await this.createJob(
+        { leadId: lead.id, type: 'reenrichment' },
+        REENRICHMENT_JOB_NAME,
+        { leadId: lead.id, cnpj: lead.cnpj },
+        REENRICHMENT_JOB_PRIORITY
+      );
+      await this.processingLogService.info('Reenriquecimento dos dados cadastrais agendado', { leadId: lead.id });
     }
+
+    console.log(`🔄 ${leads.length} leads agendados para reenriquecimento`);
+    return { scheduled: leads.length, pending: pending + leads.length };
+  }
+
+  /**
+   * Ids dos jobs que algum worker está processando agora
+   */
+  private async getActiveJobIds(): Promise<Set<string>> {
+    return new Set((await this.leadProcessingQueue.getActive()).map(job => job.id as string));
   }
 
   /**
@@ -527,8 +954,11 @@ export class QueueService {
    */
   async close(): Promise<void> {
     await this.leadProcessingQueue.close();
-    await this.leadProcessingWorker.close();
+    await this.deadLetterQueue.close();
     await this.redis.quit();
     await this.prisma.$disconnect();
+    await this.uploadBatchService.close();
+    await this.processingEventsService.close();
+    await this.processingLogService.close();
   }
 }
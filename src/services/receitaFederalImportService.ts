@@ -0,0 +1,310 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { SpreadsheetStreamReader } from './spreadsheetStreamReader';
+
+// Arquivos dos Dados Abertos CNPJ, na ordem de importação: tabelas de códigos, estabelecimentos (filtrados por UF),
+// e depois empresas e sócios (filtrados pelos estabelecimentos importados quando há filtro de UF)
+export const RECEITA_FILE_KINDS = ['cnaes', 'municipios', 'qualificacoes', 'estabelecimentos', 'empresas', 'socios'] as const;
+
+export type ReceitaFileKind = typeof RECEITA_FILE_KINDS[number];
+
+// Nome dos arquivos descompactados (ex.: K3241.K03200Y0.D40511.ESTABELE) ou dos ZIPs renomeados (Estabelecimentos0.csv)
+const FILE_NAME_PATTERNS: Record<ReceitaFileKind, RegExp> = {
+  cnaes: /CNAECSV|^cnaes/i,
+  municipios: /MUNICCSV|^municipios/i,
+  qualificacoes: /QUALSCSV|^qualificacoes/i,
+  estabelecimentos: /ESTABELE|^estabelecimentos/i,
+  empresas: /EMPRECSV|^empresas/i,
+  socios: /SOCIOCSV|^socios/i,
+};
+
+// Linhas gravadas por transação
+const BATCH_SIZE = 1000;
+
+// Progresso no console a cada tantas linhas lidas
+const PROGRESS_INTERVAL = 100000;
+
+export interface ReceitaImportOptions {
+  states?: string[]; // UFs importadas (vazio = todas)
+  replace?: boolean; // Apaga os dados anteriores de cada tabela antes de importar
+}
+
+export interface ReceitaImportSummary {
+  file: string;
+  kind: ReceitaFileKind;
+  read: number;
+  imported: number;
+  skipped: number; // Linhas inválidas ou fora do filtro de UF
+  durationMs: number;
+}
+
+// Operações do delegate do Prisma de uma tabela receita_* usadas na gravação em lote
+interface ReceitaDelegate<CreateInput, WhereInput> {
+  deleteMany(args: { where?: WhereInput }): Prisma.PrismaPromise<Prisma.BatchPayload>;
+  createMany(args: { data: CreateInput[] }): Prisma.PrismaPromise<Prisma.BatchPayload>;
+}
+
+// Tabela de destino de cada arquivo: chave primária e operações com os registros genéricos de mapRow
+interface ReceitaTable extends ReceitaDelegate<Record<string, unknown>, Record<string, unknown>> {
+  key: string;
+}
+
+/**
+ * Importa os arquivos CSV dos Dados Abertos CNPJ da Receita Federal para as tabelas receita_*
+ * Os arquivos (separados por ";", em Latin-1 e sem cabeçalho) são lidos em streaming e gravados em lotes;
+ * cada linha substitui a anterior com a mesma chave, então importar o mesmo arquivo de novo não duplica dados
+ */
+export class ReceitaFederalImportService {
+  private prisma: PrismaClient;
+  private reader: SpreadsheetStreamReader;
+
+  constructor() {
+    this.prisma = new PrismaClient();
+    this.reader = new SpreadsheetStreamReader();
+  }
+
+  /**
+   * Tipo do arquivo pelo nome, ou null quando não é um arquivo conhecido
+   */
+  detectFileKind(fileName: string): ReceitaFileKind | null {
+    return RECEITA_FILE_KINDS.find(kind => FILE_NAME_PATTERNS[kind].test(path.basename(fileName))) || null;
+  }
+
+  /**
+   * Importa todos os arquivos reconhecidos de uma pasta (ou um único arquivo), na ordem de RECEITA_FILE_KINDS
+   * Com replace, cada tabela é esvaziada uma vez, antes do primeiro arquivo do seu tipo
+   */
+  async importPath(source: string, options: ReceitaImportOptions = {}): Promise<ReceitaImportSummary[]> {
+    const files = fs.statSync(source).isDirectory()
+      ? fs.readdirSync(source).sort().map(name => path.join(source, name))
+      : [source];
+
+    const zipFiles = files.filter(file => file.toLowerCase().endsWith('.zip'));
+    if (zipFiles.length > 0) {
+      throw new Error(`Descompacte os arquivos antes de importar: ${zipFiles.map(file => path.basename(file)).join(', ')}`);
+    }
+
+    const filesByKind = new Map<ReceitaFileKind, string[]>();
+    for (const file of files) {
+      const kind = this.detectFileKind(file);
+      if (!kind) {
+        console.warn(`⚠️ Arquivo ignorado (não é dos Dados Abertos CNPJ): ${path.basename(file)}`);
+        continue;
+      }
+      filesByKind.set(kind, [...(filesByKind.get(kind) || []), file]);
+    }
+
+    const summaries: ReceitaImportSummary[] = [];
+    for (const kind of RECEITA_FILE_KINDS) {
+      const kindFiles = filesByKind.get(kind) || [];
+      if (kindFiles.length === 0) continue;
+
+      if (options.replace) {
+        await this.getTable(kind).deleteMany({});
+        console.log(`🧹 Dados anteriores de ${kind} removidos`);
+      }
+
+      for (const file of kindFiles) {
+        summaries.push(await this.importFile(kind, file, options));
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * Importa um arquivo
+   */
+  async importFile(kind: ReceitaFileKind, filePath: string, options: ReceitaImportOptions = {}): Promise<ReceitaImportSummary> {
+    const startedAt = Date.now();
+    const states = (options.states || []).map(state => state.toUpperCase());
+    let read = 0;
+    let imported = 0;
+    let skipped = 0;
+    let batch: Record<string, unknown>[] = [];
+
+    console.log(`📥 Importando ${kind} de ${path.basename(filePath)}...`);
+
+    const flush = async (): Promise<void> => {
+      const records = await this.filterByImportedEstablishments(kind, batch, states);
+      skipped += batch.length - records.length;
+      imported += await this.saveBatch(kind, records);
+      batch = [];
+    };
+
+    for await (const row of this.reader.readRows(filePath)) {
+      read++;
+      const record = this.mapRow(kind, row.cells.map(cell => String(cell ?? '').trim()));
+
+      if (!record || (kind === 'estabelecimentos' && states.length > 0 && !states.includes(record.state as string))) {
+        skipped++;
+      } else {
+        batch.push(record);
+      }
+
+      if (batch.length >= BATCH_SIZE) {
+        await flush();
+      }
+      if (read % PROGRESS_INTERVAL === 0) {
+        console.log(`📊 ${path.basename(filePath)}: ${read} linhas lidas, ${imported} importadas`);
+      }
+    }
+    await flush();
+
+    const summary = { file: path.basename(filePath), kind, read, imported, skipped, durationMs: Date.now() - startedAt };
+    console.log(`✅ ${summary.file}: ${imported} registros importados, ${skipped} ignorados (${Math.round(summary.durationMs / 1000)}s)`);
+    return summary;
+  }
+
+  /**
+   * Converte a linha do CSV no registro da tabela (null = linha inválida)
+   */
+  private mapRow(kind: ReceitaFileKind, cells: string[]): Record<string, unknown> | null {
+    switch (kind) {
+      case 'cnaes':
+      case 'municipios':
+      case 'qualificacoes':
+        return cells[0] ? { code: cells[0], description: cells[1] || '' } : null;
+
+      case 'empresas':
+        return /^\d{8}$/.test(cells[0])
+          ? {
+              cnpjBasico: cells[0],
+              name: cells[1] || '',
+              legalNature: cells[2] || null,
+              capitalSocial: cells[4] ? parseFloat(cells[4].replace(/\./g, '').replace(',', '.')) || 0 : null,
+              size: cells[5] || null,
+            }
+          : null;
+
+      case 'estabelecimentos': {
+        const cnpj = `${cells[0]}${cells[1]}${cells[2]}`;
+        if (!/^\d{14}$/.test(cnpj)) return null;
+
+        const phone = (ddd: string, number: string) => (number ? `${ddd}${number}`.replace(/\D/g, '') : null);
+        return {
+          cnpj,
+          cnpjBasico: cells[0],
+          headOffice: cells[3] === '1',
+          tradeName: cells[4] || null,
+          registrationStatus: (cells[5] || '').padStart(2, '0'),
+          registrationStatusDate: this.parseDate(cells[6]),
+          foundationDate: this.parseDate(cells[10]),
+          mainCnae: cells[11] || '',
+          secondaryCnaes: cells[12] || null,
+          street: [cells[13], cells[14]].filter(Boolean).join(' ') || null,
+          number: cells[15] || null,
+          complement: cells[16] || null,
+          neighborhood: cells[17] || null,
+          zipCode: cells[18] || null,
+          state: cells[19] || null,
+          municipalityCode: cells[20] || null,
+          phone1: phone(cells[21], cells[22]),
+          phone2: phone(cells[23], cells[24]),
+          email: cells[27] ? cells[27].toLowerCase() : null,
+        };
+      }
+
+      case 'socios':
+        return /^\d{8}$/.test(cells[0]) && cells[2]
+          ? {
+              id: createHash('md5').update([cells[0], cells[3], cells[2], cells[4]].join('|')).digest('hex'),
+              cnpjBasico: cells[0],
+              type: cells[1] || '',
+              name: cells[2],
+              document: cells[3] || null,
+              qualificationCode: cells[4] || '',
+              entryDate: this.parseDate(cells[5]),
+            }
+          : null;
+    }
+  }
+
+  /**
+   * Data no formato AAAAMMDD (0 ou vazio = sem data)
+   */
+  private parseDate(value: string): Date | null {
+    const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (!match || match[1] === '0000') return null;
+
+    const date = new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * Com filtro de UF, empresas e sócios só entram quando a empresa tem estabelecimento importado
+   */
+  private async filterByImportedEstablishments(
+    kind: ReceitaFileKind,
+    records: Record<string, unknown>[],
+    states: string[]
+  ): Promise<Record<string, unknown>[]> {
+    if (states.length === 0 || (kind !== 'empresas' && kind !== 'socios') || records.length === 0) {
+      return records;
+    }
+
+    const imported = await this.prisma.receitaEstablishment.findMany({
+      where: { cnpjBasico: { in: [...new Set(records.map(record => record.cnpjBasico as string))] } },
+      select: { cnpjBasico: true },
+      distinct: ['cnpjBasico'],
+    });
+    const importedBasics = new Set(imported.map(establishment => establishment.cnpjBasico));
+
+    return records.filter(record => importedBasics.has(record.cnpjBasico as string));
+  }
+
+  /**
+   * Grava o lote substituindo os registros com a mesma chave (repetidos no lote: vale o último)
+   */
+  private async saveBatch(kind: ReceitaFileKind, records: Record<string, unknown>[]): Promise<number> {
+    if (records.length === 0) return 0;
+
+    const table = this.getTable(kind);
+    const unique = [...new Map(records.map(record => [record[table.key] as string, record])).values()];
+
+    await this.prisma.$transaction([
+      table.deleteMany({ where: { [table.key]: { in: unique.map(record => record[table.key]) } } }),
+      table.createMany({ data: unique }),
+    ]);
+
+    return unique.length;
+  }
+
+  private getTable(kind: ReceitaFileKind): ReceitaTable {
+    switch (kind) {
+      case 'cnaes':
+        return { key: 'code', ...this.tableOperations(this.prisma.receitaCnae) };
+      case 'municipios':
+        return { key: 'code', ...this.tableOperations(this.prisma.receitaMunicipality) };
+      case 'qualificacoes':
+        return { key: 'code', ...this.tableOperations(this.prisma.receitaPartnerQualification) };
+      case 'estabelecimentos':
+        return { key: 'cnpj', ...this.tableOperations(this.prisma.receitaEstablishment) };
+      case 'empresas':
+        return { key: 'cnpjBasico', ...this.tableOperations(this.prisma.receitaCompany) };
+      case 'socios':
+        return { key: 'id', ...this.tableOperations(this.prisma.receitaPartner) };
+    }
+  }
+
+  /**
+   * Operações do delegate do Prisma com os registros já mapeados (mapRow monta os campos de cada tabela)
+   */
+  private tableOperations<CreateInput, WhereInput>(
+    delegate: ReceitaDelegate<CreateInput, WhereInput>
+  ): Omit<ReceitaTable, 'key'> {
+    return {
+      deleteMany: args => delegate.deleteMany({ where: args.where as WhereInput | undefined }),
+      createMany: args => delegate.createMany({ data: args.data as CreateInput[] }),
+    };
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
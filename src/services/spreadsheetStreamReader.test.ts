@@ -0,0 +1,96 @@
+import { CSV_SHEET_NAME, DelimitedTextParser, SpreadsheetRow, SpreadsheetStreamReader } from './spreadsheetStreamReader';
+
+const readCsv = async (content: Buffer): Promise<SpreadsheetRow[]> => {
+  const rows: SpreadsheetRow[] = [];
+  for await (const row of new SpreadsheetStreamReader().readRows(content, 'leads.csv')) {
+    rows.push(row);
+  }
+  return rows;
+};
+
+const cellsOf = (rows: SpreadsheetRow[]): string[][] => rows.map(row => row.cells);
+
+describe('DelimitedTextParser', () => {
+  it('separa campos e linhas com quebras \\n, \\r\\n e \\r', () => {
+    const parser = new DelimitedTextParser(';');
+    expect(parser.push('a;b\nc;d\r\ne;f\rg;h\n')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']]);
+    expect(parser.end()).toEqual([]);
+  });
+
+  it('respeita aspas, aspas escapadas e quebras de linha dentro do campo', () => {
+    const parser = new DelimitedTextParser(',');
+    expect(parser.push('"Coco, Ltda","diz ""olá""","rua 1\nsala 2"\n')).toEqual([
+      ['Coco, Ltda', 'diz "olá"', 'rua 1\nsala 2'],
+    ]);
+  });
+
+  it('mantém campos vazios', () => {
+    const parser = new DelimitedTextParser(';');
+    expect(parser.push(';a;;\n')).toEqual([['', 'a', '', '']]);
+  });
+
+  it('fecha a última linha quando o texto não termina com quebra de linha', () => {
+    const parser = new DelimitedTextParser(';');
+    expect(parser.push('a;b\nc;d')).toEqual([['a', 'b']]);
+    expect(parser.end()).toEqual([['c', 'd']]);
+  });
+
+  it('junta aspas e \\r\\n cortados entre dois pedaços', () => {
+    const parser = new DelimitedTextParser(';');
+    const rows = [
+      ...parser.push('"x"'),
+      ...parser.push('"y";z\r'),
+      ...parser.push('\nw;"v'),
+      ...parser.push('"'),
+      ...parser.push('\n'),
+      ...parser.end(),
+    ];
+    expect(rows).toEqual([['x"y', 'z'], ['w', 'v']]);
+  });
+});
+
+describe('SpreadsheetStreamReader.readRows (CSV)', () => {
+  it('detecta o ponto e vírgula e numera as linhas a partir de 1', async () => {
+    const rows = await readCsv(Buffer.from('CNPJ;Município\n11222333000181;Maceió\n'));
+    expect(rows).toEqual([
+      { sheetName: CSV_SHEET_NAME, rowNumber: 1, cells: ['CNPJ', 'Município'] },
+      { sheetName: CSV_SHEET_NAME, rowNumber: 2, cells: ['11222333000181', 'Maceió'] },
+    ]);
+  });
+
+  it('detecta vírgula mesmo com ponto e vírgula dentro de campos entre aspas', async () => {
+    const rows = await readCsv(Buffer.from('CNPJ,Endereço,CEP\n11222333000181,"Rua A; 10",57000000\n'));
+    expect(cellsOf(rows)).toEqual([['CNPJ', 'Endereço', 'CEP'], ['11222333000181', 'Rua A; 10', '57000000']]);
+  });
+
+  it('detecta TSV', async () => {
+    const rows = await readCsv(Buffer.from('CNPJ\tCEP\n11222333000181\t57000000\n'));
+    expect(cellsOf(rows)).toEqual([['CNPJ', 'CEP'], ['11222333000181', '57000000']]);
+  });
+
+  it('prefere o delimitador consistente entre as linhas', async () => {
+    const rows = await readCsv(Buffer.from('CNPJ|Razão, social\n1|Coco, Ltda\n2|Praia\n'));
+    expect(cellsOf(rows)).toEqual([['CNPJ', 'Razão, social'], ['1', 'Coco, Ltda'], ['2', 'Praia']]);
+  });
+
+  it('respeita a diretiva sep= sem contá-la como linha', async () => {
+    const rows = await readCsv(Buffer.from('sep=,\r\nCNPJ,CEP\r\n11222333000181,57000000\r\n'));
+    expect(rows.map(row => row.rowNumber)).toEqual([1, 2]);
+    expect(cellsOf(rows)).toEqual([['CNPJ', 'CEP'], ['11222333000181', '57000000']]);
+  });
+
+  it('descarta o BOM do UTF-8', async () => {
+    const rows = await readCsv(Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('Município;CEP\nMaceió;57000000\n')]));
+    expect(cellsOf(rows)).toEqual([['Município', 'CEP'], ['Maceió', '57000000']]);
+  });
+
+  it('lê UTF-16LE com BOM', async () => {
+    const rows = await readCsv(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Município;CEP\nMaceió;57000000\n', 'utf16le')]));
+    expect(cellsOf(rows)).toEqual([['Município', 'CEP'], ['Maceió', '57000000']]);
+  });
+
+  it('cai para Windows-1252 quando o arquivo não é UTF-8 válido', async () => {
+    const rows = await readCsv(Buffer.from('Município;CEP\nMaceió;57000000\n', 'latin1'));
+    expect(cellsOf(rows)).toEqual([['Município', 'CEP'], ['Maceió', '57000000']]);
+  });
+});
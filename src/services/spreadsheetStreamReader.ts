@@ -0,0 +1,379 @@
+import { createReadStream } from 'fs';
+import { open } from 'fs/promises';
+import { Readable } from 'stream';
+import * as XLSX from 'xlsx';
+import ExcelJS from 'exceljs';
+
+// Formatos de arquivo aceitos na importação
+export type SpreadsheetFormat = 'excel' | 'csv';
+
+// Conteúdo em memória ou caminho do arquivo em disco
+export type SpreadsheetSource = Buffer | string;
+
+// Linha lida do arquivo, com a aba e o número real da linha (1 = primeira linha da aba)
+export interface SpreadsheetRow {
+  sheetName: string;
+  rowNumber: number;
+  cells: any[];
+}
+
+// Nome da aba única de arquivos CSV/TSV
+export const CSV_SHEET_NAME = 'CSV';
+
+// Delimitadores considerados na detecção automática de CSV/TSV
+const CSV_DELIMITER_CANDIDATES = [';', ',', '\t', '|'];
+
+// Tamanho do trecho inicial usado para detectar formato, codificação e delimitador
+const SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Leitor de planilhas linha a linha
+ *
+ * CSV/TSV e .xlsx são lidos em streaming, sem carregar o arquivo inteiro na memória;
+ * .xls (formato binário antigo, limitado a 65 mil linhas) ainda é lido de uma vez pelo SheetJS.
+ */
+export class SpreadsheetStreamReader {
+  /**
+   * Detecta o formato do arquivo pelos bytes iniciais, com fallback para a extensão
+   */
+  async detectFormat(source: SpreadsheetSource, fileName?: string): Promise<SpreadsheetFormat> {
+    const header = await this.readSample(source, 4);
+    if (this.isZip(header) || this.isOle(header)) {
+      return 'excel';
+    }
+
+    const extension = (fileName || (typeof source === 'string' ? source : '')).toLowerCase().split('.').pop();
+    if (extension === 'xlsx' || extension === 'xls') {
+      // Pode ser um XML/HTML salvo com extensão .xls - o SheetJS sabe ler
+      return 'excel';
+    }
+
+    return 'csv';
+  }
+
+  /**
+   * Percorre todas as linhas de todas as abas do arquivo, na ordem do arquivo
+   */
+  async *readRows(source: SpreadsheetSource, fileName?: string): AsyncGenerator<SpreadsheetRow> {
+    const format = await this.detectFormat(source, fileName);
+
+    if (format === 'csv') {
+      yield* this.readDelimitedRows(source);
+      return;
+    }
+
+    const header = await this.readSample(source, 4);
+    if (!this.isZip(header)) {
+      yield* this.readWorkbookRows(source);
+      return;
+    }
+
+    let rowsRead = 0;
+    try {
+      for await (const row of this.readXlsxRows(source)) {
+        rowsRead++;
+        yield row;
+      }
+    } catch (error) {
+      // O ExcelJS exige o workbook.xml antes das abas dentro do ZIP; alguns geradores gravam na ordem
+      // inversa. Se nada foi lido ainda, o arquivo é lido de uma vez pelo SheetJS
+      if (rowsRead > 0) {
+        throw error;
+      }
+      console.warn(`⚠️ Leitura em streaming do .xlsx falhou, lendo o arquivo inteiro: ${error instanceof Error ? error.message : error}`);
+      yield* this.readWorkbookRows(source);
+    }
+  }
+
+  /**
+   * Lê um .xlsx em streaming com o leitor do ExcelJS
+   */
+  private async *readXlsxRows(source: SpreadsheetSource): AsyncGenerator<SpreadsheetRow> {
+    const input = typeof source === 'string' ? source : Readable.from([source]);
+    const workbookReader = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+      sharedStrings: 'cache',
+      hyperlinks: 'ignore',
+      styles: 'ignore',
+      worksheets: 'emit',
+    });
+
+    for await (const worksheetReader of workbookReader) {
+      // O nome vem do workbook.xml (a tipagem do ExcelJS não declara a propriedade)
+      const sheetName = (worksheetReader as any).name as string;
+
+      for await (const row of worksheetReader) {
+        // row.values começa no índice 1 e pode ter buracos nas células vazias
+        const values = (row.values as any[]).slice(1);
+        yield {
+          sheetName,
+          rowNumber: row.number,
+          cells: Array.from(values, value => this.cellValue(value)),
+        };
+      }
+    }
+  }
+
+  /**
+   * Lê .xls e planilhas XML/HTML pelo SheetJS (em memória)
+   */
+  private async *readWorkbookRows(source: SpreadsheetSource): AsyncGenerator<SpreadsheetRow> {
+    const workbook = typeof source === 'string'
+      ? XLSX.readFile(source)
+      : XLSX.read(source, { type: 'buffer' });
+
+    for (const sheetName of workbook.SheetNames) {
+      const worksheet = workbook.Sheets[sheetName];
+      if (!worksheet) continue;
+
+      // O intervalo usado pode não começar na linha 1 quando o topo da aba está vazio
+      const startRow = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r : 0;
+      const rows = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 });
+
+      for (const [index, cells] of rows.entries()) {
+        yield { sheetName, rowNumber: startRow + index + 1, cells: cells || [] };
+      }
+    }
+  }
+
+  /**
+   * Lê CSV/TSV em streaming, detectando codificação e delimitador pelo trecho inicial
+   */
+  private async *readDelimitedRows(source: SpreadsheetSource): AsyncGenerator<SpreadsheetRow> {
+    const sample = await this.readSample(source, SAMPLE_SIZE);
+    const encoding = this.detectEncoding(sample);
+    const sampleText = new TextDecoder(encoding).decode(sample, { stream: true });
+    const { delimiter, skipFirstLine } = this.detectDelimiter(sampleText);
+
+    console.log(`📄 CSV detectado (codificação ${encoding}, delimitador "${delimiter === '\t' ? 'TAB' : delimiter}")`);
+
+    // TextDecoder descarta o BOM e junta caracteres multibyte quebrados entre dois pedaços do arquivo
+    const decoder = new TextDecoder(encoding);
+    const parser = new DelimitedTextParser(delimiter);
+    const chunks = typeof source === 'string'
+      ? createReadStream(source, { highWaterMark: SAMPLE_SIZE })
+      : Readable.from([source]);
+
+    let lineNumber = 0;
+    const emit = function* (rows: string[][]): Generator<SpreadsheetRow> {
+      for (const cells of rows) {
+        lineNumber++;
+        // A diretiva "sep=;" do Excel não conta como linha da planilha
+        if (skipFirstLine && lineNumber === 1) continue;
+        yield { sheetName: CSV_SHEET_NAME, rowNumber: skipFirstLine ? lineNumber - 1 : lineNumber, cells };
+      }
+    };
+
+    for await (const chunk of chunks) {
+      yield* emit(parser.push(decoder.decode(chunk as Buffer, { stream: true })));
+    }
+    yield* emit(parser.push(decoder.decode()));
+    yield* emit(parser.end());
+  }
+
+  /**
+   * Detecta a codificação pelo BOM ou pela validade do UTF-8, caindo para Latin-1 (Windows-1252)
+   */
+  private detectEncoding(sample: Buffer): string {
+    if (sample.length >= 3 && sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+      return 'utf-8';
+    }
+
+    if (sample.length >= 2 && sample[0] === 0xff && sample[1] === 0xfe) {
+      return 'utf-16le';
+    }
+
+    try {
+      // fatal: true faz o decoder falhar em bytes inválidos; stream: true tolera um caractere cortado no fim do trecho
+      new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+      return 'utf-8';
+    } catch {
+      return 'windows-1252';
+    }
+  }
+
+  /**
+   * Detecta o delimitador do CSV/TSV analisando as primeiras linhas
+   * Respeita a diretiva "sep=;" que o Excel grava na primeira linha
+   */
+  private detectDelimiter(text: string): { delimiter: string; skipFirstLine: boolean } {
+    const sepDirective = text.match(/^sep=(.)\r?\n/i);
+    if (sepDirective) {
+      return { delimiter: sepDirective[1], skipFirstLine: true };
+    }
+
+    const sampleLines = text
+      .split(/\r\n|\n|\r/)
+      .filter(line => line.trim() !== '')
+      .slice(0, 20);
+
+    let bestDelimiter = ';';
+    let bestScore = -1;
+
+    for (const candidate of CSV_DELIMITER_CANDIDATES) {
+      const counts = sampleLines.map(line => this.countOutsideQuotes(line, candidate));
+      const headerCount = counts[0] || 0;
+      if (headerCount === 0) continue;
+
+      // Linhas com a mesma quantidade de delimitadores que o cabeçalho indicam consistência
+      const consistentLines = counts.filter(count => count === headerCount).length;
+      const score = consistentLines * 1000 + headerCount;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestDelimiter = candidate;
+      }
+    }
+
+    return { delimiter: bestDelimiter, skipFirstLine: false };
+  }
+
+  /**
+   * Conta ocorrências de um caractere fora de campos entre aspas
+   */
+  private countOutsideQuotes(line: string, char: string): number {
+    let count = 0;
+    let inQuotes = false;
+
+    for (const current of line) {
+      if (current === '"') {
+        inQuotes = !inQuotes;
+      } else if (current === char && !inQuotes) {
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * Converte o valor de uma célula do ExcelJS (texto rico, fórmula, hyperlink...) em valor simples
+   */
+  private cellValue(value: any): any {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (typeof value === 'object') {
+      if (Array.isArray(value.richText)) {
+        return value.richText.map((part: { text: string }) => part.text).join('');
+      }
+      if ('result' in value) {
+        return this.cellValue(value.result);
+      }
+      if ('text' in value) {
+        return this.cellValue(value.text);
+      }
+      if ('error' in value) {
+        return String(value.error);
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Lê os primeiros bytes do arquivo (ou do buffer)
+   */
+  private async readSample(source: SpreadsheetSource, size: number): Promise<Buffer> {
+    if (typeof source !== 'string') {
+      return source.subarray(0, size);
+    }
+
+    const file = await open(source, 'r');
+    try {
+      const buffer = Buffer.alloc(size);
+      const { bytesRead } = await file.read(buffer, 0, size, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await file.close();
+    }
+  }
+
+  // .xlsx é um ZIP (PK\x03\x04) e .xls é um documento OLE (D0 CF 11 E0)
+  private isZip(header: Buffer): boolean {
+    return header.length >= 4 && header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04;
+  }
+
+  private isOle(header: Buffer): boolean {
+    return header.length >= 4 && header[0] === 0xd0 && header[1] === 0xcf && header[2] === 0x11 && header[3] === 0xe0;
+  }
+}
+
+/**
+ * Parser incremental de texto delimitado (RFC 4180: aspas, aspas escapadas e quebras de linha em campos)
+ * Recebe o texto em pedaços e devolve as linhas completas de cada pedaço
+ */
+export class DelimitedTextParser {
+  private row: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private pendingQuote = false; // Aspas dentro de campo entre aspas: pode ser o fechamento ou o início de ""
+  private pendingCarriageReturn = false; // \r no fim do pedaço anterior: o \n seguinte faz parte da mesma quebra
+
+  constructor(private delimiter: string) {}
+
+  push(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (const char of text) {
+      if (this.pendingCarriageReturn) {
+        this.pendingCarriageReturn = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.pendingQuote = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.row.push(this.field);
+        this.field = '';
+      } else if (char === '\r' || char === '\n') {
+        this.pendingCarriageReturn = char === '\r';
+        this.row.push(this.field);
+        rows.push(this.row);
+        this.row = [];
+        this.field = '';
+      } else {
+        this.field += char;
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Fecha a última linha quando o arquivo não termina com quebra de linha
+   */
+  end(): string[][] {
+    if (this.field === '' && this.row.length === 0) {
+      return [];
+    }
+
+    this.row.push(this.field);
+    const rows = [this.row];
+    this.row = [];
+    this.field = '';
+    return rows;
+  }
+}
@@ -0,0 +1,160 @@
+import fs from 'fs';
+import { UploadBatchRepository } from '../repositories/uploadBatchRepository';
+import { ExcelProcessingService } from './excelProcessingService';
+import { ProcessingEventsService } from './processingEventsService';
+import {
+  UploadBatch,
+  UploadBatchDetails,
+  UploadBatchFilters,
+  CreateUploadBatchRequest,
+  ImportRowError,
+  UploadRowError,
+} from '../types/lead';
+
+export class UploadBatchService {
+  private uploadBatchRepository: UploadBatchRepository;
+  private excelProcessingService: ExcelProcessingService;
+  private processingEventsService: ProcessingEventsService;
+
+  constructor() {
+    this.uploadBatchRepository = new UploadBatchRepository();
+    this.excelProcessingService = new ExcelProcessingService();
+    this.processingEventsService = new ProcessingEventsService();
+  }
+
+  /**
+   * Registra o lote no momento em que a planilha é aceita
+   */
+  async createBatch(data: CreateUploadBatchRequest): Promise<UploadBatch> {
+    return await this.uploadBatchRepository.create(data);
+  }
+
+  /**
+   * Lista os lotes de upload
+   */
+  async listBatches(filters: UploadBatchFilters = {}): Promise<{ batches: UploadBatchDetails[]; total: number }> {
+    return await this.uploadBatchRepository.findAll(filters);
+  }
+
+  /**
+   * Busca um lote específico com a situação dos leads e jobs
+   */
+  async getBatch(id: string): Promise<UploadBatchDetails | null> {
+    return await this.uploadBatchRepository.findById(id);
+  }
+
+  /**
+   * Busca o lote de um envio via API pela chave de idempotência
+   */
+  async findByIdempotencyKey(idempotencyKey: string): Promise<{ batch: UploadBatch; requestHash?: string } | null> {
+    return await this.uploadBatchRepository.findByIdempotencyKey(idempotencyKey);
+  }
+
+  /**
+   * Marca o lote como em processamento, registrando as linhas rejeitadas na leitura
+   */
+  async startProcessing(id: string, totalRows: number, rejected: ImportRowError[] = []): Promise<void> {
+    await this.uploadBatchRepository.markProcessing(id, totalRows, rejected.length);
+    await this.uploadBatchRepository.addRowErrors(id, rejected);
+    await this.publishProgress(id);
+  }
+
+  /**
+   * Registra linhas rejeitadas na leitura de um lote de linhas (upload em streaming)
+   */
+  async recordRejectedRows(id: string, rejected: ImportRowError[]): Promise<void> {
+    await this.uploadBatchRepository.addRowErrors(id, rejected);
+    await this.uploadBatchRepository.incrementFailedCount(id, rejected.length);
+    if (rejected.length > 0) {
+      await this.publishProgress(id);
+    }
+  }
+
+  /**
+   * Registra linhas ignoradas ou que falharam durante o enfileiramento
+   */
+  async recordRowErrors(id: string, errors: ImportRowError[]): Promise<void> {
+    await this.uploadBatchRepository.addRowErrors(id, errors);
+  }
+
+  /**
+   * Finaliza o lote (os contadores são atualizados durante o enfileiramento)
+   */
+  async completeBatch(id: string): Promise<void> {
+    await this.uploadBatchRepository.finish(id, 'completed');
+    await this.publishProgress(id, 'batch_completed');
+  }
+
+  /**
+   * Marca o lote como falho
+   */
+  async failBatch(id: string, error: string): Promise<void> {
+    await this.uploadBatchRepository.finish(id, 'failed', error);
+    await this.publishProgress(id, 'batch_completed');
+  }
+
+  /**
+   * Marca como falhos os lotes parados em pendente ou processando há mais de MAINTENANCE_STALE_UPLOAD_MINUTES
+   * (padrão 30) e remove o arquivo temporário que ficou para trás (tarefa de manutenção fail_stale_uploads)
+   * A planilha é lida e enfileirada pelo processo da API: se ele reinicia no meio do arquivo, o lote para de avançar
+   */
+  async failStaleBatches(): Promise<{ failed: number; removedFiles: number }> {
+    const staleMinutes = parseInt(process.env.MAINTENANCE_STALE_UPLOAD_MINUTES || '30');
+    const cutoff = new Date(Date.now() - staleMinutes * 60 * 1000);
+    const staleBatches = await this.uploadBatchRepository.findStale(cutoff);
+
+    let removedFiles = 0;
+    for (const batch of staleBatches) {
+      await this.failBatch(batch.id, `Processamento do upload interrompido: sem avanço há mais de ${staleMinutes} minutos`);
+
+      if (batch.filePath && fs.existsSync(batch.filePath)) {
+        await fs.promises.unlink(batch.filePath);
+        removedFiles++;
+      }
+    }
+
+    console.log(`🩺 ${staleBatches.length} lotes de upload interrompidos marcados como falhos, ${removedFiles} arquivos temporários removidos`);
+    return { failed: staleBatches.length, removedFiles };
+  }
+
+  /**
+   * Publica a situação atual do lote para quem acompanha o processamento em tempo real
+   */
+  async publishProgress(id: string, type: 'batch_progress' | 'batch_completed' = 'batch_progress'): Promise<void> {
+    const batch = await this.uploadBatchRepository.findById(id);
+    if (batch) {
+      await this.processingEventsService.publish({ type, uploadBatchId: id, batch });
+    }
+  }
+
+  /**
+   * Lista as linhas com erro de um lote
+   */
+  async getRowErrors(id: string): Promise<UploadRowError[]> {
+    return await this.uploadBatchRepository.findRowErrors(id);
+  }
+
+  /**
+   * Gera a planilha anotada com as linhas com erro de um lote
+   */
+  async buildErrorReport(id: string): Promise<{ fileName: string; buffer: Buffer } | null> {
+    const batch = await this.uploadBatchRepository.findById(id);
+    if (!batch) {
+      return null;
+    }
+
+    const errors = await this.uploadBatchRepository.findRowErrors(id);
+    const buffer = await this.excelProcessingService.exportRowErrorsToExcel(batch.headers, errors);
+    const baseName = batch.fileName.replace(/\.[^.]+$/, '');
+
+    return { fileName: `${baseName}_erros.xlsx`, buffer };
+  }
+
+  /**
+   * Fecha conexões
+   */
+  async close(): Promise<void> {
+    await this.uploadBatchRepository.close();
+    await this.processingEventsService.close();
+  }
+}
@@ -1,3 +1,5 @@
+import { Prisma } from '@prisma/client';
+
 // Interface para endereço
 export interface Address {
   street: string;
@@ -21,14 +23,18 @@ export interface CompanyData {
   capitalSocial?: number;
   cnae?: string;
   cnaeDescription?: string;
+  secondaryCnaes?: CnaeActivity[]; // Atividades secundárias registradas na Receita Federal
   foundationDate?: string;
   partners?: Array<{
     name: string;
     cpf: string;
     participation: number;
+    role?: string;
   }>;
   region?: string;
   marketSegment?: string;
+  registrationStatus?: string; // Situação cadastral na Receita Federal (ex.: Ativa, Baixada)
+  contacts?: CompanyContact[]; // Telefones e e-mails informados pelo provedor
   // Campos adicionais para confiança
   validatedState?: string;
   addressValidated?: boolean;
@@ -36,6 +42,35 @@ export interface CompanyData {
   validatedCoordinates?: boolean;
 }
 
+// Atividade econômica (CNAE só com dígitos)
+export interface CnaeActivity {
+  code: string;
+  description: string;
+}
+
+// Canal, tipo e verificação dos contatos do lead (LeadContact)
+export type ContactChannel = 'phone' | 'email';
+export type ContactType = 'landline' | 'mobile' | 'fax' | 'corporate' | 'personal' | 'accounting' | 'unknown';
+export type ContactVerificationStatus = 'unverified' | 'verified' | 'invalid';
+
+// Contato informado pelo provedor de CNPJ
+export interface CompanyContact {
+  channel: ContactChannel;
+  type: ContactType;
+  value: string; // Telefone só com dígitos (DDD + número) ou e-mail em minúsculas
+}
+
+// Contato gravado para o lead; o principal de cada canal também fica em Lead.phone / Lead.email
+export interface LeadContact extends CompanyContact {
+  id: string;
+  leadId: string;
+  source: string; // Provedor de CNPJ que informou o contato
+  verificationStatus: ContactVerificationStatus;
+  isPrimary: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Interface para análise de imagem da fachada
 export interface FacadeAnalysis {
   hasStreetView: boolean;
@@ -109,6 +144,7 @@ export interface PrismaLead {
   updatedAt: Date;
   source: string;
   status: string;
+  phone: string | null;
   email: string | null;
   cnpj: string;
   companyName: string;
@@ -147,8 +183,14 @@ export interface PrismaLead {
   capitalSocial: number | null;
   foundationDate: Date | null;
   partners: any; // JsonValue do Prisma
+  registrationStatus: string | null;
+  enrichedAt: Date | null;
+  secondaryCnaes?: CnaeActivity[]; // Incluídas nas consultas de leads da API
+  contacts?: LeadContact[]; // Incluídos nas consultas de leads da API
   userNotes: string | null;
+  userEditedFields: Prisma.JsonValue; // Campos da planilha editados pelo usuário (lista de nomes)
   processingError: string | null;
+  failureClass: string | null;
   userId: string | null;
 }
 
@@ -170,6 +212,10 @@ export interface LeadFilters {
   industry?: string | undefined;
   dateFrom?: string | undefined;
   dateTo?: string | undefined;
+  uploadBatchId?: string | undefined;
+  sourceSheet?: string | undefined;
+  cnae?: string | undefined; // Código ou início do código (ex.: "4721")
+  cnaeScope?: 'main' | 'secondary' | 'any' | undefined; // Onde procurar o CNAE: principal (padrão), secundárias ou qualquer uma
   limit?: number | undefined;
   offset?: number | undefined;
 }
@@ -221,6 +267,9 @@ export interface AuthMiddleware {
 }
 
 // Interfaces para sistema de pontuação configurável
+// Atividades consideradas pelas categorias de CNAE: só a principal, qualquer uma, ou secundárias com peso reduzido
+export type CnaeMatchMode = 'main' | 'any' | 'weighted';
+
 export interface ScoringConfig {
   id: string;
   name: string;
@@ -239,6 +288,8 @@ export interface ScoringCategory {
   type: 'cnae' | 'region' | 'capital' | 'foundation' | 'address' | 'partners' | 'custom';
   points: number;
   description?: string;
+  cnaeMatch: CnaeMatchMode;
+  secondaryWeight?: number; // 0-1, usado no modo weighted
   criteria: ScoringCriteria[];
   createdAt: string;
   updatedAt: string;
@@ -266,6 +317,8 @@ export interface CreateScoringCategoryRequest {
   type: 'cnae' | 'region' | 'capital' | 'foundation' | 'address' | 'partners' | 'custom';
   points: number;
   description?: string;
+  cnaeMatch?: CnaeMatchMode; // Padrão main
+  secondaryWeight?: number;
   criteria: CreateScoringCriteriaRequest[];
 }
 
@@ -282,3 +335,430 @@ export interface UpdateScoringConfigRequest {
   isActive?: boolean;
   categories?: CreateScoringCategoryRequest[];
 }
+
+// Interfaces para perfis de importação (mapeamento de colunas)
+export type DatloField = keyof DatloRawData;
+
+export type ImportColumnTransform =
+  | 'none'
+  | 'uppercase'
+  | 'lowercase'
+  | 'titlecase'
+  | 'digits_only'
+  | 'cep'
+  | 'coordinates';
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  columns: ImportProfileColumn[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export interface ImportProfileColumn {
+  id: string;
+  profileId: string;
+  field: DatloField;
+  aliases: string[];
+  transform: ImportColumnTransform;
+  required: boolean;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateImportProfileRequest {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  columns: CreateImportProfileColumnRequest[];
+}
+
+export interface CreateImportProfileColumnRequest {
+  field: DatloField;
+  aliases: string[];
+  transform?: ImportColumnTransform;
+  required?: boolean;
+}
+
+export interface UpdateImportProfileRequest {
+  name?: string;
+  description?: string;
+  isDefault?: boolean;
+  columns?: CreateImportProfileColumnRequest[];
+}
+
+// Interfaces para lotes de upload
+export type UploadBatchStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+// O que fazer quando a linha traz um CNPJ já cadastrado
+// skip: ignora | fill_empty: preenche só campos vazios | overwrite: sobrescreve os campos vindos da planilha
+export type ReimportMode = 'skip' | 'fill_empty' | 'overwrite';
+
+export interface UploadBatch {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  fileFormat?: string;
+  headers: string[];
+  profileId?: string;
+  profileName?: string;
+  uploadedBy?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  reimportMode: ReimportMode;
+  reenqueue: boolean;
+  sheets: string[]; // Abas importadas (vazio para CSV)
+  idempotencyKey?: string; // Chave enviada na ingestão via API
+  totalRows: number;
+  processedRows: number; // Linhas já tratadas (criadas + atualizadas + ignoradas + com erro)
+  createdCount: number;
+  updatedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  status: UploadBatchStatus;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface UploadBatchDetails extends UploadBatch {
+  leadStatusCounts: Record<string, number>; // aguardando, processando, processado, erro
+  jobStatusCounts: Record<string, number>; // pending, processing, completed, failed, cancelled
+}
+
+// Eventos de processamento transmitidos em tempo real (GET /api/events)
+export type ProcessingEvent =
+  | {
+      type: 'job_progress';
+      jobId: string;
+      leadId: string;
+      companyName?: string;
+      uploadBatchId?: string;
+      progress: number; // 0-100
+      currentStep: string;
+    }
+  | {
+      type: 'lead_status';
+      leadId: string;
+      uploadBatchId?: string;
+      status: string; // aguardando, processando, processado, erro
+      error?: string;
+    }
+  | {
+      type: 'batch_progress';
+      uploadBatchId: string;
+      batch: UploadBatchDetails;
+    }
+  | {
+      type: 'batch_completed';
+      uploadBatchId: string;
+      batch: UploadBatchDetails;
+    };
+
+// Resultado de um passo do pipeline de processamento, gravado no ProcessingJob (stepResults)
+export interface ProcessingStepRecord {
+  status: 'completed' | 'failed';
+  result?: unknown; // Saída do passo, reaproveitada quando o job é retomado
+  error?: string;
+  attempts: number; // Execuções do passo (passos reaproveitados não contam)
+  updatedAt: string;
+}
+
+export type ProcessingStepResults = Record<string, ProcessingStepRecord>;
+
+// Logs de processamento gravados na tabela ProcessingLog (GET /api/leads/:id/logs)
+export type ProcessingLogLevel = 'info' | 'warn' | 'error';
+
+// Lead e job a que o log se refere, repassado aos serviços chamados pelo worker
+export interface ProcessingLogContext {
+  leadId?: string;
+  jobId?: string;
+}
+
+export interface ProcessingLogEntry extends ProcessingLogContext {
+  id: string;
+  level: ProcessingLogLevel;
+  message: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Console de operação da fila de processamento (rotas /api/admin/queue)
+export type QueueJobState = 'waiting' | 'active' | 'failed' | 'delayed';
+
+export interface QueueStatus {
+  paused: boolean;
+  workers: number; // Processos worker conectados à fila
+  concurrency: number; // Leads processados em paralelo por worker
+  maxConcurrency: number;
+  counts: Record<QueueJobState | 'completed', number>;
+}
+
+export interface QueueJobSummary {
+  id: string;
+  state: QueueJobState;
+  leadId?: string;
+  uploadBatchId?: string;
+  data: Record<string, unknown>; // Payload completo do job
+  progress: number;
+  attemptsMade: number;
+  failedReason?: string;
+  createdAt: string;
+  processedAt?: string;
+  finishedAt?: string;
+  delayedUntil?: string;
+}
+
+// Classificação das falhas de processamento (relatório em GET /api/admin/queue/failures)
+export type FailureClass =
+  | 'rate_limited'
+  | 'cnpj_not_found'
+  | 'cnpj_inactive'
+  | 'network'
+  | 'validation'
+  | 'internal';
+
+// O que fazer com a falha: aguardar e reprocessar, corrigir os dados do lead ou abrir um bug
+export type FailureAction = 'wait' | 'fix_data' | 'file_bug';
+
+// Provedores de dados cadastrais por CNPJ (CNPJ_PROVIDERS define quais e em que ordem)
+export type CnpjProviderName = 'cnpja' | 'brasilapi' | 'receitaws' | 'receita' | 'fixture';
+
+// Resultado da consulta à API de CNPJ (passo company_data); failureClass indica por que não há dados
+export interface CompanyLookupResult {
+  companyData: CompanyData | null;
+  provider?: CnpjProviderName; // Provedor que respondeu
+  cached?: boolean; // Dados lidos do cache de CNPJ, sem consulta à API
+  failureClass?: FailureClass;
+  error?: string;
+}
+
+// Job que esgotou as tentativas, guardado na fila de dead-letter com o contexto completo
+export interface DeadLetterEntry {
+  jobId: string;
+  leadId: string;
+  uploadBatchId?: string;
+  leadData: Record<string, unknown>;
+  failureClass: FailureClass;
+  error: string;
+  stacktrace: string[];
+  attemptsMade: number;
+  stepResults: ProcessingStepResults;
+  failedAt: string;
+}
+
+export interface FailureClassReport {
+  failureClass: FailureClass;
+  action: FailureAction;
+  description: string;
+  failedLeads: number; // Leads com status erro
+  unenrichedLeads: number; // Leads processados sem os dados cadastrais
+  deadLetterJobs: number;
+  sampleErrors: string[];
+}
+
+export interface FailureReport {
+  classes: FailureClassReport[];
+  deadLetterTotal: number;
+}
+
+// Manutenção agendada (fila maintenance, rotas /api/admin/maintenance)
+export type MaintenanceTaskName =
+  | 'cleanup_jobs'
+  | 'sync_orphan_jobs'
+  | 'recover_stuck_leads'
+  | 'clear_address_cache'
+  | 'delete_expired_logs'
+  | 'reenrich_stale_leads'
+  | 'fail_stale_uploads';
+
+export interface MaintenanceRun {
+  id: string;
+  task: MaintenanceTaskName;
+  status: 'completed' | 'failed';
+  result?: Record<string, number>;
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
+
+export interface MaintenanceTaskStatus {
+  task: MaintenanceTaskName;
+  description: string;
+  enabled: boolean;
+  pattern?: string; // Expressão cron do agendamento
+  nextRunAt?: string;
+  lastRun?: MaintenanceRun;
+}
+
+// Reenriquecimento periódico dos dados cadastrais (jobs reenrich-lead da fila de processamento)
+export type EnrichmentField =
+  | 'cnae'
+  | 'cnaeDescription'
+  | 'capitalSocial'
+  | 'foundationDate'
+  | 'partners'
+  | 'registrationStatus'
+  | 'secondaryCnaes';
+
+export type EnrichmentChanges = Partial<Record<EnrichmentField, { before: unknown; after: unknown }>>;
+
+export interface ReenrichmentResult {
+  leadId: string;
+  skipped?: boolean; // Lead removido ou fora do status processado
+  changedFields: EnrichmentField[];
+  rescored: boolean;
+  previousScore?: number;
+  newScore?: number;
+  failureClass?: FailureClass; // Consulta sem dados (CNPJ inexistente ou rejeitado)
+}
+
+export interface LeadEnrichmentChange {
+  id: string;
+  leadId: string;
+  jobId?: string;
+  changes: EnrichmentChanges;
+  rescored: boolean;
+  previousScore?: number;
+  newScore?: number;
+  previousLevel?: string;
+  newLevel?: string;
+  createdAt: string;
+}
+
+// Resposta original do provedor de CNPJ guardada no cache (GET /api/leads/:id/cnpj-raw)
+export interface CnpjRawRecord {
+  cnpj: string;
+  provider: CnpjProviderName;
+  fetchedAt: string;
+  expiresAt: string;
+  expired: boolean;
+  data: unknown;
+}
+
+export interface CreateUploadBatchRequest {
+  fileName: string;
+  fileSize: number;
+  fileFormat?: string;
+  headers?: string[];
+  profileId?: string;
+  profileName?: string;
+  uploadedById?: string;
+  reimportMode?: ReimportMode;
+  reenqueue?: boolean;
+  sheets?: string[];
+  filePath?: string;
+  idempotencyKey?: string;
+  requestHash?: string;
+}
+
+export interface UploadBatchFilters {
+  status?: UploadBatchStatus;
+  uploadedById?: string;
+  limit?: number;
+  offset?: number;
+}
+
+// Interfaces para o relatório de linhas rejeitadas no upload
+export type ImportRowErrorReason =
+  | 'duplicate_cnpj'
+  | 'invalid_cnpj'
+  | 'missing_cep'
+  | 'parse_error'
+  | 'processing_error';
+
+export interface ImportRowError {
+  rowNumber: number; // Linha na aba (1 = primeira linha da aba)
+  sheetName?: string; // Aba de origem (ausente em CSV)
+  reason: ImportRowErrorReason;
+  message: string;
+  values: string[]; // Valores originais, na ordem dos cabeçalhos
+}
+
+export interface UploadRowError extends ImportRowError {
+  id: string;
+  uploadBatchId: string;
+  createdAt: string;
+}
+
+// Linha aceita na leitura da planilha
+export interface ImportedRow {
+  rowNumber: number;
+  sheetName?: string;
+  data: DatloRawData;
+  values: string[];
+}
+
+// Interfaces para a pré-visualização (dry-run) do upload
+export interface UploadPreviewRow {
+  rowNumber: number;
+  sheetName?: string;
+  status: 'ok' | 'update' | 'duplicate' | 'rejected';
+  data?: DatloRawData; // Ausente quando a linha não pôde ser lida
+  reason?: ImportRowErrorReason;
+  message?: string;
+}
+
+export interface UploadPreviewSummary {
+  totalRows: number;
+  newLeads: number; // Linhas que virariam leads
+  updatedLeads: number; // Leads existentes que seriam atualizados (reimportação)
+  duplicateRows: number; // CNPJ já cadastrado (modo skip) ou repetido na planilha
+  rejectedRows: number; // Linhas com dados inválidos
+  reasons: Partial<Record<ImportRowErrorReason, number>>;
+}
+
+export interface UploadPreview {
+  headers: string[];
+  summary: UploadPreviewSummary;
+  rows: UploadPreviewRow[]; // Primeiras N linhas, na ordem da planilha
+}
+
+// Interfaces para a ingestão em lote via API (POST /api/leads/bulk)
+// Cada registro traz os campos de DatloRawData e, opcionalmente, os dados de contato
+export interface LeadContactData {
+  Email?: string;
+  Telefone?: string;
+  Site?: string;
+}
+
+export type BulkLeadFormat = 'json' | 'ndjson';
+
+export interface BulkLeadResult {
+  index: number; // Posição do registro no envio (0 = primeiro)
+  status: 'accepted' | 'rejected';
+  reason?: ImportRowErrorReason;
+  message?: string;
+}
+
+export interface BulkLeadIngestion {
+  uploadBatchId: string;
+  format: BulkLeadFormat;
+  total: number;
+  accepted: number;
+  rejected: number;
+  replayed: boolean; // Resposta de um envio anterior com a mesma Idempotency-Key
+  results: BulkLeadResult[];
+}
+
+// Abas de uma planilha Excel, como detectadas na validação do formato
+export interface SpreadsheetSheetInfo {
+  name: string;
+  headerRow: number; // Linha do cabeçalho detectado (1 = primeira linha da aba)
+  headers: string[];
+  estimatedLeads: number;
+  isValid: boolean; // Tem os cabeçalhos obrigatórios do perfil e ao menos uma linha de dados
+  error?: string;
+}
+
+// Abas escolhidas no upload: nomes específicos ou todas as abas válidas
+export type SheetSelection = string[] | 'all';
@@ -0,0 +1,51 @@
+import { formatCnpj, isValidCnpj, normalizeCnpj } from './cnpj';
+
+describe('normalizeCnpj', () => {
+  it('mantém apenas os dígitos do CNPJ formatado', () => {
+    expect(normalizeCnpj('11.222.333/0001-81')).toBe('11222333000181');
+  });
+
+  it('recompõe os zeros à esquerda perdidos pelo Excel', () => {
+    expect(normalizeCnpj(191)).toBe('00000000000191');
+    expect(normalizeCnpj('191')).toBe('00000000000191');
+  });
+
+  it('não completa valores vazios nem com dígitos demais', () => {
+    expect(normalizeCnpj(null)).toBe('');
+    expect(normalizeCnpj(undefined)).toBe('');
+    expect(normalizeCnpj('abc')).toBe('');
+    expect(normalizeCnpj('112223330001810')).toBe('112223330001810');
+  });
+});
+
+describe('isValidCnpj', () => {
+  it('aceita CNPJ com dígitos verificadores corretos, formatado ou não', () => {
+    expect(isValidCnpj('11222333000181')).toBe(true);
+    expect(isValidCnpj('11.222.333/0001-81')).toBe(true);
+    expect(isValidCnpj(191)).toBe(true);
+  });
+
+  it('rejeita dígitos verificadores incorretos', () => {
+    expect(isValidCnpj('11222333000182')).toBe(false);
+    expect(isValidCnpj('11222333000191')).toBe(false);
+  });
+
+  it('rejeita sequências repetidas e tamanhos inválidos', () => {
+    expect(isValidCnpj('00000000000000')).toBe(false);
+    expect(isValidCnpj('11111111111111')).toBe(false);
+    expect(isValidCnpj('112223330001810')).toBe(false);
+    expect(isValidCnpj('')).toBe(false);
+  });
+});
+
+describe('formatCnpj', () => {
+  it('formata o CNPJ para exibição', () => {
+    expect(formatCnpj('11222333000181')).toBe('11.222.333/0001-81');
+    expect(formatCnpj(191)).toBe('00.000.000/0001-91');
+  });
+
+  it('devolve o valor original quando não é um CNPJ', () => {
+    expect(formatCnpj('112223330001810')).toBe('112223330001810');
+    expect(formatCnpj('abc')).toBe('abc');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Funções compartilhadas para tratamento de CNPJ
+ *
+ * Todo CNPJ é gravado e comparado apenas com os 14 dígitos ("12345678000190"),
+ * independente de como foi digitado na planilha ou na API.
+ */
+
+const CNPJ_LENGTH = 14;
+
+/**
+ * Remove a formatação do CNPJ, mantendo só os dígitos
+ * Planilhas Excel costumam perder os zeros à esquerda, que são recompostos aqui
+ */
+export const normalizeCnpj = (value: string | number | null | undefined): string => {
+  const digits = String(value ?? '').replace(/\D/g, '');
+
+  if (digits.length === 0 || digits.length > CNPJ_LENGTH) {
+    return digits;
+  }
+
+  return digits.padStart(CNPJ_LENGTH, '0');
+};
+
+/**
+ * Calcula um dígito verificador do CNPJ (pesos de 2 a 9, da direita para a esquerda)
+ */
+const calculateCheckDigit = (base: string): number => {
+  let weight = 2;
+  let sum = 0;
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    sum += Number(base[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+
+  const remainder = sum % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+/**
+ * Valida o CNPJ (formatado ou não) pelos dois dígitos verificadores
+ */
+export const isValidCnpj = (value: string | number | null | undefined): boolean => {
+  const cnpj = normalizeCnpj(value);
+
+  // Sequências repetidas (00000000000000, 11111111111111...) passam no cálculo mas não existem
+  if (cnpj.length !== CNPJ_LENGTH || /^(\d)\1{13}$/.test(cnpj)) {
+    return false;
+  }
+
+  const firstDigit = calculateCheckDigit(cnpj.slice(0, 12));
+  const secondDigit = calculateCheckDigit(cnpj.slice(0, 12) + firstDigit);
+
+  return cnpj.endsWith(`${firstDigit}${secondDigit}`);
+};
+
+/**
+ * Formata o CNPJ para exibição (12.345.678/0001-90)
+ */
+export const formatCnpj = (value: string | number | null | undefined): string => {
+  const cnpj = normalizeCnpj(value);
+
+  if (cnpj.length !== CNPJ_LENGTH) {
+    return String(value ?? '');
+  }
+
+  return cnpj.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+};
@@ -0,0 +1,55 @@
+import {
+  FAILURE_CLASSES,
+  classifyFailure,
+  createClassifiedError,
+  isRetryableFailure,
+} from './failureClassification';
+
+describe('classifyFailure', () => {
+  it('mantém a classe de erros já classificados', () => {
+    expect(classifyFailure(createClassifiedError('cnpj_not_found', 'CNPJ não encontrado'))).toBe('cnpj_not_found');
+    expect(classifyFailure(createClassifiedError('validation', 'timeout no CEP'))).toBe('validation');
+  });
+
+  it('ignora classes desconhecidas e classifica pela mensagem', () => {
+    const error = Object.assign(new Error('HTTP 429'), { failureClass: 'unknown' });
+    expect(classifyFailure(error)).toBe('rate_limited');
+  });
+
+  it('reconhece limite de requisições pela mensagem', () => {
+    expect(classifyFailure(new Error('Request failed with status 429'))).toBe('rate_limited');
+    expect(classifyFailure(new Error('Rate limit exceeded'))).toBe('rate_limited');
+    expect(classifyFailure(new Error('Limite de consultas atingido'))).toBe('rate_limited');
+  });
+
+  it('reconhece falhas de conexão pelo código do erro ou da causa', () => {
+    expect(classifyFailure(Object.assign(new Error('read'), { code: 'ECONNRESET' }))).toBe('network');
+    expect(classifyFailure(Object.assign(new Error('db'), { code: 'P1001' }))).toBe('network');
+    expect(classifyFailure(Object.assign(new Error('request failed'), { cause: { code: 'ENOTFOUND' } }))).toBe('network');
+  });
+
+  it('reconhece falhas de conexão pela mensagem', () => {
+    expect(classifyFailure(new Error('fetch failed'))).toBe('network');
+    expect(classifyFailure(new Error('socket hang up'))).toBe('network');
+    expect(classifyFailure(new Error('Request timed out'))).toBe('network');
+  });
+
+  it('trata o restante como erro interno', () => {
+    expect(classifyFailure(new TypeError("Cannot read properties of undefined (reading 'CNPJ')"))).toBe('internal');
+    expect(classifyFailure('falha qualquer')).toBe('internal');
+    expect(classifyFailure(undefined)).toBe('internal');
+  });
+});
+
+describe('isRetryableFailure', () => {
+  it('não repete falhas que dependem de corrigir os dados do lead', () => {
+    expect(isRetryableFailure('cnpj_not_found')).toBe(false);
+    expect(isRetryableFailure('cnpj_inactive')).toBe(false);
+    expect(isRetryableFailure('validation')).toBe(false);
+  });
+
+  it('repete as demais falhas', () => {
+    const retryable = FAILURE_CLASSES.filter(isRetryableFailure);
+    expect(retryable).toEqual(['rate_limited', 'network', 'internal']);
+  });
+});
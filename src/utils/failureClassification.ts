@@ -0,0 +1,85 @@
+/**
+ * Classificação das falhas de processamento de leads
+ *
+ * Cada falha cai em uma classe que diz o que fazer com ela: aguardar e reprocessar (limite ou
+ * indisponibilidade da API), corrigir os dados do lead ou abrir um bug.
+ */
+
+import { FailureAction, FailureClass } from '../types/lead';
+
+// Erro lançado por quem já sabe a classe da falha (ex.: CNPJ não encontrado na API)
+export interface ClassifiedError extends Error {
+  failureClass: FailureClass;
+}
+
+export const FAILURE_CLASSES: FailureClass[] = [
+  'rate_limited',
+  'cnpj_not_found',
+  'cnpj_inactive',
+  'network',
+  'validation',
+  'internal',
+];
+
+export const FAILURE_ACTIONS: Record<FailureClass, { action: FailureAction; description: string }> = {
+  rate_limited: { action: 'wait', description: 'Limite de consultas da API de CNPJ; aguarde e reprocesse' },
+  cnpj_not_found: { action: 'fix_data', description: 'CNPJ não encontrado na API; confira o CNPJ do lead' },
+  cnpj_inactive: { action: 'fix_data', description: 'Empresa com situação cadastral diferente de ativa' },
+  network: { action: 'wait', description: 'Falha de conexão ou indisponibilidade de serviço externo; aguarde e reprocesse' },
+  validation: { action: 'fix_data', description: 'Dados do lead incompletos ou rejeitados; corrija e reprocesse' },
+  internal: { action: 'file_bug', description: 'Erro inesperado no processamento; abra um bug com o contexto do job' },
+};
+
+// Códigos de erro de conexão do Node/undici e de conexão com o banco (Prisma P1001, P1002, P1017)
+const NETWORK_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+  'P1001',
+  'P1002',
+  'P1017',
+];
+
+/**
+ * Cria um erro já classificado
+ */
+export const createClassifiedError = (failureClass: FailureClass, message: string): ClassifiedError =>
+  Object.assign(new Error(message), { failureClass });
+
+/**
+ * Identifica a classe da falha pelo erro lançado
+ * Erros classificados mantêm sua classe; os demais são reconhecidos pelo código ou mensagem,
+ * e o que não se encaixa em nenhuma classe é tratado como erro interno
+ */
+export const classifyFailure = (error: unknown): FailureClass => {
+  if (error && typeof error === 'object') {
+    const failureClass = (error as Partial<ClassifiedError>).failureClass;
+    if (failureClass && FAILURE_CLASSES.includes(failureClass)) {
+      return failureClass;
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const codes = [(error as any)?.code, (error as any)?.cause?.code];
+
+  if (/\b429\b|rate limit|limite de (requisições|consultas)/i.test(message)) {
+    return 'rate_limited';
+  }
+
+  if (codes.some(code => NETWORK_ERROR_CODES.includes(code)) || /fetch failed|socket hang up|timed? ?out/i.test(message)) {
+    return 'network';
+  }
+
+  return 'internal';
+};
+
+/**
+ * Falhas de dados não se resolvem com novas tentativas; as demais seguem o retry da fila
+ */
+export const isRetryableFailure = (failureClass: FailureClass): boolean =>
+  FAILURE_ACTIONS[failureClass].action !== 'fix_data';
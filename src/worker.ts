@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import { LeadProcessingWorker } from './services/leadProcessingWorker';
+import { MaintenanceWorker } from './services/maintenanceWorker';
+
+// Carrega variáveis de ambiente
+dotenv.config();
+
+/**
+ * Processo worker: consome a fila de processamento de leads e executa a manutenção agendada
+ * A API (src/index.ts) só produz os jobs; os dois escalam de forma independente
+ * Uso: npm run worker (ou npm run dev:worker em desenvolvimento)
+ */
+
+const leadProcessingWorker = new LeadProcessingWorker();
+const maintenanceWorker = new MaintenanceWorker();
+
+console.log('👷 Worker de processamento de leads iniciado');
+console.log(`📊 Ambiente: ${process.env.NODE_ENV || 'development'}`);
+
+maintenanceWorker.start().catch(error => {
+  console.error('❌ Erro ao agendar as tarefas de manutenção:', error);
+});
+
+/**
+ * Encerramento: para de pegar jobs novos e espera os jobs em andamento terminarem
+ */
+const shutdown = async (signal: string): Promise<void> => {
+  console.log(`🛑 ${signal} recebido, encerrando o worker...`);
+
+  try {
+    await leadProcessingWorker.close();
+    await maintenanceWorker.close();
+  } catch (error) {
+    console.error('❌ Erro ao encerrar o worker:', error);
+    process.exitCode = 1;
+  }
+
+  process.exit();
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));